@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+// Download the bundled caption fonts into ./fonts (or FONTS_DIR): npm run fonts:fetch [-- --force]
+// Files already present are kept unless --force is given; commit the results so renders never need the network.
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { CAPTION_FONTS, FALLBACK_FONTS, fontsDir } from '../src/lib/render/fonts';
+
+const force = process.argv.includes('--force');
+const dir = fontsDir();
+await fs.mkdir(dir, { recursive: true });
+
+let failed = 0;
+for (const font of [...CAPTION_FONTS, ...FALLBACK_FONTS]) {
+  const target = path.join(dir, font.file);
+  if (!force && await fs.access(target).then(() => true, () => false)) {
+    console.log(`✔️  ${font.file} (already present)`);
+    continue;
+  }
+  try {
+    const res = await fetch(font.source, { signal: AbortSignal.timeout(60_000) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    await fs.writeFile(target, Buffer.from(await res.arrayBuffer()));
+    console.log(`⬇️  ${font.file} (${font.family})`);
+  } catch (e) {
+    failed++;
+    console.error(`❌ ${font.file}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+if (failed) process.exit(1);
+console.log(`\n✅ Caption fonts ready in ${dir}`);
@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+// Standalone job queue worker: npm run worker
+// Run the app with JOB_WORKER=external so it doesn't start its own inline worker.
+
+import { config } from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import { runJobWorker, jobWorkerBaseUrl } from '../src/lib/job-worker';
+
+config({ path: '.env.local' });
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const controller = new AbortController();
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  // Finish the current job's bookkeeping, then exit; an unfinished job is re-leased after its lease expires
+  process.on(signal, () => {
+    console.log(`\n${signal} received, stopping after the current job...`);
+    controller.abort();
+  });
+}
+
+await runJobWorker({
+  db: createClient(supabaseUrl, supabaseKey),
+  baseUrl: jobWorkerBaseUrl(),
+  signal: controller.signal,
+});
@@ -0,0 +1,56 @@
+#!/usr/bin/env tsx
+// Compare render strategies on one video: npm run bench:render -- <videoId> [runs]
+// Renders through the running app's /api/render with each strategy in turn and prints wall times.
+// Every run re-renders and re-uploads the final video; the clip cache is bypassed so each run encodes every scene.
+
+import { config } from 'dotenv';
+import { jobWorkerBaseUrl, postJson } from '../src/lib/job-worker';
+import { RENDER_STRATEGIES, type RenderStrategy, type RenderTimings } from '../src/lib/render/strategy';
+
+config({ path: '.env.local' });
+
+const [videoId, runsArg] = process.argv.slice(2);
+const runs = Math.max(1, Number(runsArg) || 1);
+
+if (!videoId) {
+  console.error('Usage: npm run bench:render -- <videoId> [runs]');
+  process.exit(1);
+}
+
+const baseUrl = jobWorkerBaseUrl();
+const results = new Map<RenderStrategy, RenderTimings[]>();
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+console.log(`⏱️  Benchmarking ${RENDER_STRATEGIES.join(' vs ')} on ${videoId} (${runs} run(s) each) via ${baseUrl}`);
+
+for (let run = 1; run <= runs; run++) {
+  // Alternate the order so neither strategy always runs on a warm disk cache
+  const order = run % 2 ? RENDER_STRATEGIES : [...RENDER_STRATEGIES].reverse();
+  for (const strategy of order) {
+    console.log(`\n▶️  Run ${run}/${runs}: ${strategy}`);
+    const res = await postJson(
+      `${baseUrl}/api/render`,
+      { videoId, renderStrategy: strategy, useClipCache: false },
+      AbortSignal.timeout(60 * 60_000),
+      { 'Idempotency-Key': `bench:${strategy}:${run}:${Date.now()}` }
+    );
+    const body = JSON.parse(res.body || '{}') as { ok?: boolean; error?: string; timings?: RenderTimings };
+    if (res.status !== 200 || !body.timings) {
+      console.error(`❌ ${strategy} failed (HTTP ${res.status}): ${body.error ?? res.body.slice(0, 300)}`);
+      process.exit(1);
+    }
+    const stages = Object.entries(body.timings.stageMs).map(([stage, ms]) => `${stage} ${seconds(ms ?? 0)}`).join(', ');
+    console.log(`   ${seconds(body.timings.wallMs)} (${stages})`);
+    results.set(strategy, [...(results.get(strategy) ?? []), body.timings]);
+  }
+}
+
+const mean = (strategy: RenderStrategy) => {
+  const timings = results.get(strategy) ?? [];
+  return timings.reduce((sum, t) => sum + t.wallMs, 0) / Math.max(1, timings.length);
+};
+
+console.log('\n📊 Mean wall time');
+for (const strategy of RENDER_STRATEGIES) console.log(`   ${strategy.padEnd(12)} ${seconds(mean(strategy))}`);
+const speedup = mean('clips') / Math.max(1, mean('single-pass'));
+console.log(`   single-pass is ${speedup.toFixed(2)}x the speed of clips`);
@@ -3,6 +3,8 @@ export const revalidate = 0;
 
 import { NextResponse } from 'next/server';
 import { sbServer } from '@/lib/supabase-server';
+import { enqueueJob } from '@/lib/job-queue';
+import { canTransition } from '@/lib/video-transitions';
 
 function getErrorMessage(err: unknown): string {
   if (err instanceof Error) return err.message;
@@ -97,105 +99,43 @@ export async function POST(req: Request) {
       );
     }
 
-    // Update status to rendering with pipeline timestamp
-    const now = new Date().toISOString();
-    const { error: updateError } = await supabase
-      .from('videos')
-      .update({
-        status: 'rendering',
-        render_started_at: now,
-        updated_at: now,
-      })
-      .eq('id', id);
-
-    if (updateError) {
-      console.error('[finalize] Failed to update status:', updateError);
+    // The render route moves the video to rendering; refuse early when it couldn't
+    if (videoData.status === 'rendering' || !canTransition(videoData.status, 'rendering')) {
       return NextResponse.json(
-        { error: 'update_failed' },
-        { status: 500, headers: { 'Cache-Control': 'no-store' } },
+        { error: 'invalid_status', message: `Cannot render in status: ${videoData.status}` },
+        { status: 409, headers: { 'Cache-Control': 'no-store' } },
       );
     }
 
-    // Start video rendering (fire-and-forget)
+    // Queue the render; the job worker runs it and retries it if the server goes away
+    let jobId: string;
     try {
-      console.log('[finalize] Triggering render-video API directly');
-
-      setTimeout(async () => {
-        try {
-          const baseUrl =
-            process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:4000';
-          const renderResponse = await fetch(`${baseUrl}/api/render-video`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ videoId: id }),
-          });
-
-          const renderResult = (await renderResponse.json()) as {
-            success?: boolean;
-            error?: unknown;
-          };
-
-          if (renderResponse.ok && renderResult?.success) {
-            console.log('[finalize] Background render completed successfully');
-          } else {
-            const msg = getErrorMessage(renderResult?.error);
-            console.error('[finalize] Background render failed:', msg);
-
-            await supabase
-              .from('videos')
-              .update({
-                status: 'failed',
-                error_message: msg || 'Rendering failed',
-                updated_at: new Date().toISOString(),
-              })
-              .eq('id', id);
-          }
-        } catch (err: unknown) {
-          const msg = getErrorMessage(err);
-          console.error('[finalize] Background render error:', msg);
-
-          await supabase
-            .from('videos')
-            .update({
-              status: 'failed',
-              error_message: msg || 'Rendering error',
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', id);
-        }
-      }, 1000);
+      const { job } = await enqueueJob(supabase, 'render', id);
+      jobId = job.id;
     } catch (err: unknown) {
       const msg = getErrorMessage(err);
-      console.error('[finalize] Failed to start rendering process:', msg);
-
-      // Revert status back to assets_generated
-      await supabase
-        .from('videos')
-        .update({
-          status: 'assets_generated',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id);
-
+      console.error('[finalize] Failed to queue render:', msg);
       return NextResponse.json(
         {
           error: 'render_start_failed',
-          message: 'Failed to start rendering process',
+          message: 'Failed to queue rendering',
         },
         { status: 500, headers: { 'Cache-Control': 'no-store' } },
       );
     }
 
-    console.log('[finalize] Successfully started rendering process', {
+    console.log('[finalize] Render queued', {
       id,
+      jobId,
       ms: Date.now() - t0,
     });
 
     return NextResponse.json(
       {
         success: true,
-        message: 'Video rendering started',
-        status: 'rendering',
+        message: 'Video rendering queued',
+        status: 'queued',
+        jobId,
       },
       { headers: { 'Cache-Control': 'no-store' } },
     );
@@ -1,18 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService, sbServer } from '@/lib/supabase-server';
 import { parseScriptSections, toPlainNarration } from '@/lib/script';
-import { ttsGenerateBuffer } from '@/lib/providers/tts';
+import { getTtsProvider } from '@/lib/providers/tts';
 import { generateTTS } from '@/lib/tts';
 import { generateCaptions } from '@/lib/captions';
-import { spawn } from 'node:child_process';
-import fs from 'node:fs/promises';
-import path from 'node:path';
 import { softenImagePrompt, addSafePrefix, isContentPolicyViolation } from '@/lib/safety';
+import { getImageProvider, type ImageProvider } from '@/lib/providers/image';
+import { getRenderProfileById, getDefaultRenderProfile } from '@/lib/render-profiles';
+import { sceneImagePath } from '@/lib/storyboard-scenes';
+import { normalizeStoryboard } from '@/lib/storyboard-schema';
+import { isStoryboardConflict } from '@/lib/storyboard-version';
+import { canTransition, isIllegalTransition } from '@/lib/video-transitions';
 
 export const maxDuration = 300;
 export const dynamic = 'force-dynamic';
 
-type Scene = { prompt: string; index: number };
+type Scene = { prompt: string; index: number; path: string };
 
 function hasResponseData(e: unknown): e is { response?: { data?: unknown } } {
   return typeof e === 'object' && e !== null && 'response' in e;
@@ -35,6 +38,8 @@ const withRetry = async <T>(op: () => Promise<T>, max = 3, baseDelay = 500): Pro
   for (let i = 1; i <= max; i++) {
     try { return await op(); }
     catch (err: unknown) {
+      // Retrying against the same read of the storyboard can't help
+      if (isStoryboardConflict(err)) throw err;
       const d = toErrorDetails(err);
       last = err instanceof Error ? err : new Error(d.message);
       console.error(`[assets][retry] attempt ${i}/${max} failed`, d);
@@ -48,20 +53,16 @@ const withRetry = async <T>(op: () => Promise<T>, max = 3, baseDelay = 500): Pro
 };
 
 // === Provider hooks ===
-async function generateImageBufferForPrompt(scene: Scene): Promise<Buffer> {
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) throw new Error('OpenAI API key not configured');
-
-  console.log(`[assets][image] Generating image for scene ${scene.index + 1}: ${scene.prompt.substring(0, 50)}...`);
+async function generateImageBufferForPrompt(provider: ImageProvider, scene: Scene): Promise<Buffer> {
+  console.log(`[assets][image] Generating image for scene ${scene.index + 1} via ${provider.name}: ${scene.prompt.substring(0, 50)}...`);
 
   // Add safe prefix to reduce policy trips
   const safePrompt = addSafePrefix(scene.prompt);
   
   // First try with original prompt (already "safe" prompts pass)
   try {
-    return await providerGenerateImage(safePrompt);
+    return await provider.generate(safePrompt);
   } catch (e: any) {
-    const msg = String(e?.message || e);
     const blocked = isContentPolicyViolation(e);
     if (!blocked) throw e; // rethrow other errors
 
@@ -71,8 +72,8 @@ async function generateImageBufferForPrompt(scene: Scene): Promise<Buffer> {
 
     try {
       console.log(`[assets][image] Retrying scene ${scene.index + 1} with softened prompt: ${softened.substring(0, 50)}...`);
-      return await providerGenerateImage(addSafePrefix(softened));
-    } catch (e2: any) {
+      return await provider.generate(addSafePrefix(softened));
+    } catch {
       // final failure → bubble up with a scene-specific message
       const finalMsg = `Image blocked by content filter. Please edit the prompt to be family-friendly.\nOriginal: "${scene.prompt}"\nSoftened tried: "${softened}"`;
       const err = new Error(finalMsg);
@@ -82,42 +83,9 @@ async function generateImageBufferForPrompt(scene: Scene): Promise<Buffer> {
   }
 }
 
-async function providerGenerateImage(prompt: string): Promise<Buffer> {
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) throw new Error('OpenAI API key not configured');
-
-  const response = await fetch('https://api.openai.com/v1/images/generations', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'dall-e-3',
-      prompt: `${prompt} Cinematic vertical composition, 1080x1920, high quality, detailed`,
-      n: 1,
-      size: '1024x1792',
-      quality: 'standard',
-      response_format: 'b64_json',
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-  }
-
-  const data = await response.json();
-  const base64Data = data.data[0].b64_json;
-  
-  if (!base64Data) throw new Error('No image data received from OpenAI');
-  
-  return Buffer.from(base64Data, 'base64');
-}
-
 async function uploadImageAndGetPublicURL(videoId: string, scene: Scene, buf: Buffer): Promise<string> {
   const supabase = sbServer();
-  const path = `videos/${videoId}/images/scene-${scene.index + 1}.jpg`;
+  const path = scene.path;
   
   const { error: uploadError } = await supabase.storage
     .from('renders-images')
@@ -140,17 +108,16 @@ async function ensureAudio(videoId: string, scriptText: string): Promise<string>
   
   console.log('[assets][audio] Plain narration (no labels):', narration.substring(0, 100) + '...');
 
-  // Generate TTS using new voice and provider
-  const audioBuffer = await ttsGenerateBuffer({ text: narration });
-  const audioBlob = new Blob([audioBuffer], { type: 'audio/mpeg' });
+  // Generate TTS using the configured provider
+  const { buffer, contentType, ext } = await getTtsProvider().synthesize(narration);
 
   const supabase = sbServer();
   const audioBucket = 'renders-audio';
-  const audioPath = `videos/${videoId}/audio.mp3`;
+  const audioPath = `videos/${videoId}/audio.${ext}`;
   
   const { error: uploadError } = await supabase.storage
     .from(audioBucket)
-    .upload(audioPath, audioBlob, { contentType: 'audio/mpeg', upsert: true });
+    .upload(audioPath, buffer, { contentType, upsert: true });
 
   if (uploadError) throw new Error(`Audio upload failed: ${uploadError.message}`);
 
@@ -158,141 +125,6 @@ async function ensureAudio(videoId: string, scriptText: string): Promise<string>
   return urlData.publicUrl;
 }
 
-// Helper functions for caption generation
-async function getAudioDurationSec(file: string): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const p = spawn('ffprobe', [
-      '-v', 'error',
-      '-show_entries', 'format=duration',
-      '-of', 'default=noprint_wrappers=1:nokey=1',
-      file
-    ]);
-    let out = '', err = '';
-    p.stdout.on('data', d => out += d.toString());
-    p.stderr.on('data', d => err += d.toString());
-    p.on('close', (code) => {
-      if (code === 0) {
-        const n = parseFloat(out.trim());
-        resolve(isFinite(n) ? n : 0);
-      } else {
-        reject(new Error(err || `ffprobe exited with ${code}`));
-      }
-    });
-  });
-}
-
-function splitIntoSentences(text: string): string[] {
-  return text.replace(/\s+/g, ' ')
-    .split(/(?<=[.!?])\s+/)
-    .map(s => s.trim())
-    .filter(Boolean);
-}
-
-function ts(t: number): string {
-  const h = Math.floor(t / 3600);
-  const m = Math.floor((t % 3600) / 60);
-  const s = Math.floor(t % 60);
-  const ms = Math.round((t - Math.floor(t)) * 1000);
-  const p = (n: number, z = 2) => String(n).padStart(z, '0');
-  return `${p(h)}:${p(m)}:${p(s)},${String(ms).padStart(3, '0')}`;
-}
-
-function wrapForSrt(text: string, max = 42) {
-  const words = text.split(/\s+/);
-  const lines: string[] = [];
-  let line: string[] = [];
-  
-  for (const w of words) {
-    const test = [...line, w].join(' ');
-    if (test.length > max && line.length) {
-      lines.push(line.join(' '));
-      line = [w];
-    } else {
-      line.push(w);
-    }
-  }
-  
-  if (line.length) lines.push(line.join(' '));
-  
-  if (lines.length > 2) {
-    const joined = lines.join(' ');
-    const mid = Math.floor(joined.length / 2);
-    const left = joined.slice(0, mid).trim();
-    const right = joined.slice(mid).trim();
-    return `${left}\n${right}`;
-  }
-  
-  return lines.join('\n');
-}
-
-function buildSrt(text: string, total: number): string {
-  const sentences = splitIntoSentences(text);
-  const totalChars = sentences.reduce((a, s) => a + s.length, 0) || 1;
-  const minSeg = 1.2;
-  let t = 0;
-  const out: string[] = [];
-
-  if (sentences.length === 0) {
-    out.push('1', `00:00:00,000 --> ${ts(total)}`, text || ' ', '');
-    return out.join('\n');
-  }
-
-  sentences.forEach((sent, i) => {
-    const share = sent.length / totalChars;
-    let dur = Math.max(minSeg, total * share);
-    if (i === sentences.length - 1) dur = Math.max(minSeg, total - t);
-    const start = t;
-    const end = Math.min(total, t + dur);
-    t = end;
-
-    const cueText = wrapForSrt(sent);
-    out.push(String(i + 1), `${ts(start)} --> ${ts(end)}`, cueText, '');
-  });
-  return out.join('\n');
-}
-
-async function ensureCaptions(videoId: string, scriptText: string): Promise<string> {
-  console.log('[assets][captions] Generating captions...');
-
-  // Parse script sections and convert to plain narration (no labels)
-  const sections = parseScriptSections(scriptText);
-  const narration = toPlainNarration(sections);
-  
-  // First, we need to generate the audio to get its duration
-  const audioBuffer = await ttsGenerateBuffer({ text: narration });
-  
-  // Save audio temporarily to measure duration
-  const tempDir = path.join(process.cwd(), 'renders', videoId, 'temp');
-  await fs.mkdir(tempDir, { recursive: true });
-  const tempAudioPath = path.join(tempDir, 'temp-audio.mp3');
-  await fs.writeFile(tempAudioPath, audioBuffer);
-  
-  // Get audio duration via ffprobe
-  const audioDuration = await getAudioDurationSec(tempAudioPath);
-  console.log(`[assets][captions] Audio duration: ${audioDuration.toFixed(2)}s`);
-  
-  // Clean up temp audio
-  await fs.unlink(tempAudioPath);
-  
-  // Build SRT captions that span the full duration
-  const srt = buildSrt(narration, audioDuration);
-  
-  console.log('[assets][captions] Generated SRT captions spanning full audio duration');
-
-  const supabase = sbServer();
-  const captionsBucket = 'renders-captions';
-  const captionsPath = `videos/${videoId}/captions.srt`;
-  
-  const { error: uploadError } = await supabase.storage
-    .from(captionsBucket)
-    .upload(captionsPath, srt, { contentType: 'application/x-subrip', upsert: true });
-
-  if (uploadError) throw new Error(`Captions upload failed: ${uploadError.message}`);
-
-  const { data: urlData } = supabase.storage.from(captionsBucket).getPublicUrl(captionsPath);
-  return urlData.publicUrl;
-}
-
 // Merge & dedupe image URLs by scene index if you store alongside (optional)
 function mergeImageUrls(existing: string[] | null | undefined, newly: string[]): string[] {
   const set = new Set([...(existing ?? []), ...newly]);
@@ -306,7 +138,7 @@ export async function POST(req: NextRequest) {
 
     console.log(`[assets] Starting asset orchestration for videoId: ${videoId}, force: ${force}`);
 
-    const video = await VideoService.getById(videoId);
+    const video = await VideoService.getWithSceneIds(videoId);
     if (!video) return NextResponse.json({ ok: false, error: 'not_found' }, { status: 404 });
 
     console.log(`[assets] Current status: ${video.status}`);
@@ -315,7 +147,10 @@ export async function POST(req: NextRequest) {
     const hasImages = Array.isArray(video.image_urls) && video.image_urls.length > 0;
     const hasAudio = !!video.audio_url;
     const hasCaptions = !!video.captions_url;
-    const assetsActuallyReady = hasImages && hasAudio && hasCaptions;
+    // Inserted or edited scenes leave empty or dirty image slots to fill
+    const sceneCount = (video.storyboard_json ?? video.storyboard)?.scenes?.length ?? 0;
+    const imagesComplete = hasImages && video.image_urls.length >= sceneCount && video.image_urls.every(Boolean) && !video.dirty_scenes?.length;
+    const assetsActuallyReady = imagesComplete && hasAudio && hasCaptions;
 
     // If assets are actually ready, return success regardless of status
     if (assetsActuallyReady) {
@@ -351,19 +186,36 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
+    // `force` skips the list above, not the status machine (e.g. a video that is rendering)
+    if (!canTransition(video.status, 'assets_generating')) {
+      return NextResponse.json({
+        status: 'error',
+        error: `Cannot generate assets in status: ${video.status}`
+      }, { status: 409 });
+    }
+
     // Set status to generating if not already
     if (video.status !== 'assets_generating') {
-      await VideoService.updateVideo(videoId, { status: 'assets_generating' });
+      try {
+        await VideoService.updateVideo(videoId, { status: 'assets_generating' });
+      } catch (e) {
+        // The video moved on (a render started, a cancel) since it was read
+        if (isIllegalTransition(e) || (e as { code?: unknown } | null)?.code === 'status_conflict') {
+          return NextResponse.json({ status: 'error', error: e instanceof Error ? e.message : 'status_conflict' }, { status: 409 });
+        }
+        throw e;
+      }
       console.log('[assets] Status updated to assets_generating');
     }
 
-    const storyboard = video.storyboard_json ?? video.storyboard;
-    if (!storyboard?.scenes?.length) {
+    // Older rows may still use `text` / `prompt`; read them in the canonical shape
+    const storyboard = normalizeStoryboard(video.storyboard_json ?? video.storyboard);
+    if (!storyboard?.scenes.length) {
       await VideoService.updateVideo(videoId, { status: 'assets_failed', error_message: 'no_scenes' });
       return NextResponse.json({ ok: false, error: 'no_scenes' }, { status: 400 });
     }
 
-    const totalScenes = storyboard.scenes.length as number;
+    const totalScenes = storyboard.scenes.length;
     const existingUrls: string[] = Array.isArray(video.image_urls) ? video.image_urls : [];
     const existingCount = existingUrls.length;
 
@@ -377,22 +229,25 @@ export async function POST(req: NextRequest) {
     const scenesToGenerate: Scene[] = [];
     
     for (let i = 0; i < totalScenes; i++) {
-      const needsGeneration = i >= existingCount || dirtyScenes.includes(i);
+      const needsGeneration = i >= existingCount || !existingUrls[i] || dirtyScenes.includes(i);
       if (needsGeneration) {
         const scene = storyboard.scenes[i];
         scenesToGenerate.push({
           index: i,
-          prompt: scene.image_prompt || scene.prompt || scene.description || `Scene ${i + 1}`
+          prompt: scene.image_prompt || scene.description || `Scene ${i + 1}`,
+          path: sceneImagePath(videoId, scene, i)
         });
       }
     }
 
     console.log(`[assets] Need to generate ${scenesToGenerate.length} scenes (${totalScenes - existingCount} missing + ${dirtyScenes.length} dirty)`);
 
+    const imageProvider = getImageProvider(video.image_provider, getRenderProfileById(video.render_profile) ?? getDefaultRenderProfile());
+
     // Generate images for all scenes that need generation
     const tasks = scenesToGenerate.map((scene) => withRetry(async () => {
       console.log(`[assets] Starting generation for scene ${scene.index + 1}`);
-      const buf = await generateImageBufferForPrompt(scene);
+      const buf = await generateImageBufferForPrompt(imageProvider, scene);
       const url = await uploadImageAndGetPublicURL(videoId, scene, buf);
       console.log(`[assets] Completed scene ${scene.index + 1}: ${url.substring(0, 50)}...`);
       return { index: scene.index, url };
@@ -420,26 +275,29 @@ export async function POST(req: NextRequest) {
 
     console.log(`[assets] Image generation completed: ${successes.length} success, ${failures.length} failures`);
 
-    // Update image URLs at the correct indices (handle both missing and dirty scenes)
-    const updatedUrls = [...existingUrls];
-    
-    // Ensure array is large enough for all scenes
-    while (updatedUrls.length < totalScenes) {
-      updatedUrls.push('');
-    }
-    
-    // Update URLs for successfully generated scenes
-    for (const success of successes) {
-      updatedUrls[success.index] = success.url;
-    }
-    
-    const mergedUrls = updatedUrls;
-
-    // Persist partial progress (images_done counter)
-    await VideoService.updateVideo(videoId, { image_urls: mergedUrls });
+    // Save the images by scene id against the storyboard as it is now: scenes may have been
+    // reordered, inserted or split while they were generated
+    const generatedById = new Map(successes.map(({ index, url }) => [storyboard.scenes[index].id, { url, prompt: storyboard.scenes[index].image_prompt }]));
+    let imageLayout: { image_urls: string[]; dirty_scenes: number[] } = { image_urls: existingUrls, dirty_scenes: dirtyScenes };
+    await VideoService.patchStoryboard(videoId, (current) => {
+      const scenes = normalizeStoryboard(current.storyboard_json)?.scenes ?? [];
+      const urls = current.image_urls ?? [];
+      const dirty = current.dirty_scenes ?? [];
+      imageLayout = {
+        image_urls: scenes.map((scene, i) => generatedById.get(scene.id)?.url ?? urls[i] ?? ''),
+        // A scene stays dirty unless its image was just made from the prompt it has now
+        dirty_scenes: scenes.flatMap((scene, i) => {
+          const generated = generatedById.get(scene.id);
+          const clean = generated ? generated.prompt === scene.image_prompt : !dirty.includes(i);
+          return clean ? [] : [i];
+        }),
+      };
+      return imageLayout;
+    });
+    const mergedUrls = imageLayout.image_urls;
 
-    const haveAllImages = mergedUrls.length === totalScenes && mergedUrls.every(url => url && url.trim() !== '');
-    console.log(`[assets] Images complete: ${haveAllImages} (${mergedUrls.length}/${totalScenes})`);
+    const haveAllImages = mergedUrls.length > 0 && mergedUrls.every(url => url && url.trim() !== '') && !imageLayout.dirty_scenes.length;
+    console.log(`[assets] Images complete: ${haveAllImages} (${mergedUrls.filter(Boolean).length}/${mergedUrls.length})`);
 
     // Asset orchestration: Generate missing audio and captions in parallel
     let audioUrl = video.audio_url;
@@ -463,28 +321,28 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Generate audio and captions in parallel if missing
+    // Generate audio, then captions aligned to it
     const generationTasks = [];
+    let audioTask: Promise<void> = Promise.resolve();
 
     if (!audioUrl) {
-      generationTasks.push(
-        (async () => {
-          try {
-            console.log('[assets] Audio missing, generating TTS...');
-            const generatedAudioUrl = await withRetry(() => generateTTS(video));
-            audioUrl = generatedAudioUrl;
-            ranAudio = true;
-            console.log('[assets] Audio generated successfully');
-            
-            // Update database with audio URL immediately
-            await VideoService.updateVideo(videoId, { audio_url: audioUrl });
-            console.log('[assets] Audio URL saved to database');
-          } catch (error: any) {
-            console.error('[assets] Audio generation failed:', error.message);
-            audioError = error.message;
-          }
-        })()
-      );
+      audioTask = (async () => {
+        try {
+          console.log('[assets] Audio missing, generating TTS...');
+          const generatedAudioUrl = await withRetry(() => generateTTS(video));
+          audioUrl = generatedAudioUrl;
+          ranAudio = true;
+          console.log('[assets] Audio generated successfully');
+          
+          // Update database with audio URL immediately
+          await VideoService.updateVideo(videoId, { audio_url: audioUrl });
+          console.log('[assets] Audio URL saved to database');
+        } catch (error: any) {
+          console.error('[assets] Audio generation failed:', error.message);
+          audioError = error.message;
+        }
+      })();
+      generationTasks.push(audioTask);
     } else {
       console.log('[assets] Audio exists, skipping generation');
     }
@@ -492,6 +350,12 @@ export async function POST(req: NextRequest) {
     if (!captionsUrl) {
       generationTasks.push(
         (async () => {
+          // Captions are aligned to the voiceover, so they wait for it
+          await audioTask;
+          if (!audioUrl) {
+            captionsError = 'Audio is required for caption alignment';
+            return;
+          }
           try {
             console.log('[assets] Captions missing, generating SRT...');
             const generatedCaptionsUrl = await withRetry(() => generateCaptions(video));
@@ -527,7 +391,6 @@ export async function POST(req: NextRequest) {
       await VideoService.updateVideo(videoId, {
         status: 'assets_failed',
         error_message: errorMessage,
-        image_urls: mergedUrls, // Save partial progress
         image_upload_progress: (mergedUrls?.filter(Boolean)?.length ?? 0),
       });
       
@@ -564,10 +427,8 @@ export async function POST(req: NextRequest) {
     // Update video with final asset state
     await VideoService.updateVideo(videoId, {
       status: finalStatus,
-      image_urls: mergedUrls,
       audio_url: audioUrl || null,
       captions_url: captionsUrl || null,
-      dirty_scenes: [], // Clear dirty scenes since we've processed them
       error_message: statusMessage
     });
 
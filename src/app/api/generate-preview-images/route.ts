@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService, sbServer } from '@/lib/supabase-server';
-import { softenImagePrompt, addSafePrefix, isContentPolicyViolation } from '@/lib/safety';
+import { softenImagePrompt, sanitizePrompt, isContentPolicyViolation } from '@/lib/safety';
+import { getImageProvider, isHardImageFailure, placeholderImage, type ImageProvider } from '@/lib/providers/image';
+import { getRenderProfileById, getDefaultRenderProfile } from '@/lib/render-profiles';
+import { sceneImagePath } from '@/lib/storyboard-scenes';
+import { normalizeStoryboard, type LooseScene } from '@/lib/storyboard-schema';
 import pLimit from 'p-limit';
-import fs from 'node:fs/promises';
-import path from 'node:path';
 import { createClient } from '@supabase/supabase-js';
 
 // Constants
 const IMAGE_GEN_TIMEOUT = 60000; // 60 seconds timeout
-const PLACEHOLDER_PATH = path.join(process.cwd(), 'public', 'placeholder.png');
 
 // Supabase client (server-side, service role)
 const supabase = createClient(
@@ -17,142 +18,30 @@ const supabase = createClient(
   { auth: { persistSession: false } }
 );
 
-// Safe prompt sanitization function
-function sanitizePrompt(p: string) {
-  return [
-    "Family-friendly, safe-for-work, no nudity, no violence, no sensitive content.",
-    "Uplifting, wholesome, suitable for all ages.",
-    p
-  ].join(" ");
-}
-
-// === Provider abstraction with DALL-E 3 as primary ===
-async function providerGenerateImage(prompt: string): Promise<ArrayBuffer> {
-  const startTime = Date.now();
-  console.log(`[preview-images] Using DALL-E 3 provider for prompt: ${prompt.substring(0, 50)}...`);
-  
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) throw new Error('OpenAI API key not configured');
-
-  const response = await fetch('https://api.openai.com/v1/images/generations', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'dall-e-3',
-      prompt: `${prompt} Cinematic vertical composition, 1080x1920, high quality, detailed`,
-      n: 1,
-      size: '1024x1792',
-      quality: 'standard',
-      response_format: 'b64_json',
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    // fail-fast hard errors so we can fallback
-    if (text.includes('billing_hard_limit_reached') || 
-        text.includes('content_policy_violation') ||
-        text.includes('quota_exceeded') ||
-        text.includes('rate_limit_exceeded')) {
-      throw Object.assign(new Error('HARD_FAIL'), { code: 'HARD_FAIL', raw: text });
-    }
-    throw new Error(`OpenAI API error: ${response.status} ${text}`);
-  }
-
-  const data = await response.json();
-  const base64Data = data.data[0].b64_json;
-  
-  if (!base64Data) throw new Error('No image data received from OpenAI');
-  
-  const buffer = Buffer.from(base64Data, 'base64');
-  const timeTaken = Date.now() - startTime;
-  console.log(`[preview-images] DALL-E 3 image generated successfully in ${timeTaken}ms`);
-  
-  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
-}
-
-// Fallback provider using DALL-E 2
-async function providerFallbackImage(prompt: string): Promise<ArrayBuffer> {
-  const startTime = Date.now();
-  console.log(`[preview-images] Using DALL-E 2 fallback provider for prompt: ${prompt.substring(0, 50)}...`);
-  
-  // Use sanitized prompt for fallback as well
-  const sanitizedPrompt = sanitizePrompt(prompt);
-
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) throw new Error('OpenAI API key not configured');
-
-  const response = await fetch('https://api.openai.com/v1/images/generations', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'dall-e-2', // Use DALL-E 2 as fallback (more permissive)
-      prompt: sanitizedPrompt,
-      n: 1,
-      size: '1024x1024', // Square format as fallback
-      response_format: 'b64_json',
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Fallback provider failed: ${response.status} ${text}`);
-  }
-
-  const data = await response.json();
-  const base64Data = data.data[0].b64_json;
-  
-  if (!base64Data) throw new Error('No image data received from fallback provider');
-  
-  const buffer = Buffer.from(base64Data, 'base64');
-  const timeTaken = Date.now() - startTime;
-  console.log(`[preview-images] DALL-E 2 fallback image generated successfully in ${timeTaken}ms`);
-  
-  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
-}
+type GeneratedImage = { buffer: Buffer; isPlaceholder: boolean };
 
-// Placeholder image provider that never crashes
-async function providerPlaceholderImage(): Promise<Buffer> {
+async function fallbackOrPlaceholder(provider: ImageProvider, prompt: string): Promise<GeneratedImage> {
   try {
-    await fs.access(PLACEHOLDER_PATH);
-    return await fs.readFile(PLACEHOLDER_PATH);
-  } catch {
-    // generate simple PNG buffer (solid color) if file missing
-    const w=1080,h=1920;
-    const size=w*h*4;
-    const raw = Buffer.alloc(size, 0xEE); // light gray RGBA
-    // Minimal PNG encoder shortcut via sharp if available, else JPEG via canvas-less fallback
-    // Simpler: return JPEG from raw using data URI conversion in another provider if present.
-    // For stability here, return a tiny 1x1 PNG prebuilt buffer:
-    return Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVQImWNgYGBgAAAABQABJzQpGQAAAABJRU5ErkJggg==','base64');
+    return { buffer: await provider.generateFallback(prompt), isPlaceholder: false };
+  } catch (fallbackError: any) {
+    console.warn(`[preview-images] ${provider.name} fallback failed:`, fallbackError.message);
+    console.log(`[preview-images] Using placeholder image as final fallback`);
+    return { buffer: await placeholderImage(), isPlaceholder: true };
   }
 }
 
-async function generateImageBufferForPrompt(prompt: string): Promise<ArrayBuffer> {
+async function generateImageBufferForPrompt(provider: ImageProvider, prompt: string): Promise<GeneratedImage> {
   try {
     // Use sanitized prompt for all provider calls
     const sanitizedPrompt = sanitizePrompt(prompt);
     console.log(`[preview-images] Using sanitized prompt: ${sanitizedPrompt.substring(0, 100)}...`);
     
-    return await providerGenerateImage(sanitizedPrompt);
+    return { buffer: await provider.generate(sanitizedPrompt), isPlaceholder: false };
   } catch (e: any) {
-    if (e?.code === 'HARD_FAIL') {
+    if (isHardImageFailure(e)) {
       // immediately try fallback
-      console.log(`[preview-images] Hard failure detected, switching to DALL-E 2 fallback provider`);
-      try {
-        return await providerFallbackImage(prompt);
-      } catch (fallbackError: any) {
-        console.warn(`[preview-images] DALL-E 2 fallback also failed:`, fallbackError.message);
-        console.log(`[preview-images] Using placeholder image as final fallback`);
-        const placeholderBuffer = await providerPlaceholderImage();
-        return placeholderBuffer.buffer.slice(placeholderBuffer.byteOffset, placeholderBuffer.byteOffset + placeholderBuffer.byteLength) as ArrayBuffer;
-      }
+      console.log(`[preview-images] Hard failure detected, switching to ${provider.name} fallback`);
+      return fallbackOrPlaceholder(provider, prompt);
     }
     // for soft failures, you can rethrow to let withRetry handle
     throw e;
@@ -168,7 +57,7 @@ function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
 }
 
 // === Image generation helper with comprehensive fallback ===
-async function generateImageBufferForPromptWithFallback(prompt: string): Promise<ArrayBuffer> {
+async function generateImageBufferForPromptWithFallback(provider: ImageProvider, prompt: string): Promise<GeneratedImage> {
   console.log(`[preview-images] Generating image for prompt: ${prompt.substring(0, 50)}...`);
 
   // Use sanitized prompt for primary generation
@@ -176,48 +65,27 @@ async function generateImageBufferForPromptWithFallback(prompt: string): Promise
   
   // First try with sanitized prompt
   try {
-    return await generateImageBufferForPrompt(sanitizedPrompt);
+    return await generateImageBufferForPrompt(provider, sanitizedPrompt);
   } catch (e: any) {
     const blocked = isContentPolicyViolation(e);
     if (!blocked) {
-      console.warn(`[preview-images] Non-policy error, trying DALL-E 2 fallback:`, e.message);
-      try {
-        return await providerFallbackImage(prompt);
-      } catch (fallbackError: any) {
-        console.warn(`[preview-images] DALL-E 2 fallback failed:`, fallbackError.message);
-        console.log(`[preview-images] Using placeholder image as final fallback`);
-        const placeholderBuffer = await providerPlaceholderImage();
-        return placeholderBuffer.buffer.slice(placeholderBuffer.byteOffset, placeholderBuffer.byteOffset + placeholderBuffer.byteLength) as ArrayBuffer;
-      }
+      console.warn(`[preview-images] Non-policy error, trying ${provider.name} fallback:`, e.message);
+      return fallbackOrPlaceholder(provider, prompt);
     }
 
     // retry once with softened prompt
     const softened = softenImagePrompt(prompt);
     if (softened === prompt) {
-      console.warn(`[preview-images] Prompt cannot be softened, trying DALL-E 2 fallback`);
-      try {
-        return await providerFallbackImage(prompt);
-      } catch (fallbackError: any) {
-        console.warn(`[preview-images] DALL-E 2 fallback failed:`, fallbackError.message);
-        console.log(`[preview-images] Using placeholder image as final fallback`);
-        const placeholderBuffer = await providerPlaceholderImage();
-        return placeholderBuffer.buffer.slice(placeholderBuffer.byteOffset, placeholderBuffer.byteOffset + placeholderBuffer.byteLength) as ArrayBuffer;
-      }
+      console.warn(`[preview-images] Prompt cannot be softened, trying ${provider.name} fallback`);
+      return fallbackOrPlaceholder(provider, prompt);
     }
 
     try {
       console.log(`[preview-images] Retrying with softened prompt: ${softened.substring(0, 50)}...`);
-      return await generateImageBufferForPrompt(softened);
-    } catch (e2: any) {
-      console.warn(`[preview-images] Softened prompt also failed, trying DALL-E 2 fallback`);
-      try {
-        return await providerFallbackImage(prompt);
-      } catch (fallbackError: any) {
-        console.warn(`[preview-images] DALL-E 2 fallback failed:`, fallbackError.message);
-        console.log(`[preview-images] Using placeholder image as final fallback`);
-        const placeholderBuffer = await providerPlaceholderImage();
-        return placeholderBuffer.buffer.slice(placeholderBuffer.byteOffset, placeholderBuffer.byteOffset + placeholderBuffer.byteLength) as ArrayBuffer;
-      }
+      return await generateImageBufferForPrompt(provider, softened);
+    } catch {
+      console.warn(`[preview-images] Softened prompt also failed, trying ${provider.name} fallback`);
+      return fallbackOrPlaceholder(provider, prompt);
     }
   }
 }
@@ -260,20 +128,22 @@ async function uploadImageAndGetPublicURL(path: string, buffer: Buffer, contentT
 
 // Parallel image generation with progress tracking and concurrency control
 async function generateImagesInParallel(
+  provider: ImageProvider,
   videoId: string, 
-  scenes: Array<{ text: string; image_prompt: string }>, 
+  scenes: LooseScene[], 
   existingUrls: (string | null)[]
 ): Promise<{ imageUrls: (string | null)[]; progress: number; hardFailures: number; placeholdersUsed: number; sceneStatuses: any[] }> {
   const imageUrls = [...existingUrls];
   const totalScenes = scenes.length;
   
   // Find scenes that need generation
-  const scenesToGenerate: Array<{ index: number; prompt: string }> = [];
+  const scenesToGenerate: Array<{ index: number; prompt: string; path: string }> = [];
   for (let i = 0; i < totalScenes; i++) {
     if (!imageUrls[i]) {
       scenesToGenerate.push({
         index: i,
-        prompt: scenes[i].image_prompt
+        prompt: scenes[i].image_prompt || scenes[i].description || `Scene ${i + 1}`,
+        path: sceneImagePath(videoId, scenes[i], i)
       });
     }
   }
@@ -296,13 +166,11 @@ async function generateImagesInParallel(
   // Generate all images in parallel with individual progress tracking and timeouts
   const generationPromises = scenesToGenerate.map(async (scene) => {
     try {
-      const buf = await limit(() => withTimeout(
-        generateImageBufferForPromptWithFallback(scene.prompt), 
+      const { buffer, isPlaceholder } = await limit(() => withTimeout(
+        generateImageBufferForPromptWithFallback(provider, scene.prompt), 
         IMAGE_GEN_TIMEOUT // 60 second timeout
       ));
       
-      // Check if this is a placeholder (simple heuristic based on size)
-      const isPlaceholder = buf.byteLength < 10000; // Placeholder images are typically smaller
       if (isPlaceholder) {
         placeholdersUsed++;
         // Track scene status for placeholder usage
@@ -313,9 +181,7 @@ async function generateImagesInParallel(
         });
       }
       
-      // Convert ArrayBuffer to Buffer for upload
-      const buffer = Buffer.from(buf);
-      const publicUrl = await uploadImageAndGetPublicURL(`videos/${videoId}/images/scene-${scene.index + 1}.jpg`, buffer);
+      const publicUrl = await uploadImageAndGetPublicURL(scene.path, buffer);
       
       // Update progress in real-time
       completedCount++;
@@ -356,8 +222,8 @@ async function generateImagesInParallel(
       
       // Use placeholder for this scene so the process can continue
       try {
-        const placeholderBuf = await providerPlaceholderImage();
-        const placeholderUrl = await uploadImageAndGetPublicURL(`videos/${videoId}/images/scene-${scene.index + 1}.jpg`, placeholderBuf);
+        const placeholderBuf = await placeholderImage();
+        const placeholderUrl = await uploadImageAndGetPublicURL(scene.path, placeholderBuf);
         placeholdersUsed++;
         
         console.warn(`[preview-images] using generated placeholder for scene ${scene.index + 1}`);
@@ -400,7 +266,7 @@ async function generateImagesInParallel(
 export async function POST(req: NextRequest) {
   try {
     const { id } = await req.json();
-    const v = await VideoService.getById(id);
+    const v = await VideoService.getWithSceneIds(id);
     
     if (!v) {
       return NextResponse.json({ ok: false, error: 'not_found' }, { status: 404 });
@@ -411,7 +277,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: false, error: `invalid_status:${v.status}` }, { status: 409 });
     }
 
-    const scenes = (v.storyboard_json?.scenes ?? []) as Array<{ text: string; image_prompt: string }>;
+    const scenes = normalizeStoryboard(v.storyboard_json)?.scenes ?? [];
     const existingUrls: (string | null)[] = (v.image_urls ?? []).slice();
     
     // Initialize progress
@@ -420,37 +286,30 @@ export async function POST(req: NextRequest) {
     });
 
     // Generate images in parallel
-    const { imageUrls, progress, hardFailures, placeholdersUsed, sceneStatuses } = await generateImagesInParallel(id, scenes, existingUrls);
+    const { imageUrls, progress, hardFailures, placeholdersUsed, sceneStatuses } =
+      await generateImagesInParallel(getImageProvider(v.image_provider, getRenderProfileById(v.render_profile) ?? getDefaultRenderProfile()), id, scenes, existingUrls);
     
-    // Update final state
-    await VideoService.updateVideo(id, {
-      image_urls: imageUrls,
-      image_upload_progress: progress
-    });
+    // Results follow the scenes by id: scenes may have been moved, added or removed while the images were generated
+    const generatedUrls = new Map(scenes.flatMap((scene, i) => imageUrls[i] && imageUrls[i] !== existingUrls[i] ? [[scene.id, imageUrls[i]]] : []));
+    const statusesById = new Map(sceneStatuses.map((status) => [scenes[status.sceneIndex].id, status]));
+    let savedUrls: (string | null)[] = imageUrls;
+    await VideoService.patchStoryboard(id, (current) => {
+      const storyboard = normalizeStoryboard(current.storyboard_json);
+      if (!storyboard) return null;
+      savedUrls = storyboard.scenes.map((scene, i) => generatedUrls.get(scene.id) ?? current.image_urls?.[i] ?? '');
 
-    // Update scene statuses in storyboard_json if we have placeholder information
-    if (sceneStatuses.length > 0) {
-      const updatedStoryboard = { ...v.storyboard_json };
-      if (!updatedStoryboard.scenes) {
-        updatedStoryboard.scenes = scenes;
-      }
-      
       // Update each scene with placeholder status
-      sceneStatuses.forEach((status) => {
-        if (updatedStoryboard.scenes[status.sceneIndex]) {
-          updatedStoryboard.scenes[status.sceneIndex] = {
-            ...updatedStoryboard.scenes[status.sceneIndex],
-            placeholder_used: status.placeholder_used,
-            reason: status.reason
-          };
-        }
+      const updatedScenes = storyboard.scenes.map((scene) => {
+        const status = statusesById.get(scene.id);
+        return status ? { ...scene, placeholder_used: status.placeholder_used, reason: status.reason } : scene;
       });
-      
-      // Update database with scene status information
-      await VideoService.updateVideo(id, {
-        storyboard_json: updatedStoryboard
-      });
-      
+      return {
+        image_urls: savedUrls,
+        image_upload_progress: progress,
+        ...(statusesById.size > 0 ? { storyboard_json: { ...storyboard, scenes: updatedScenes } } : {})
+      };
+    });
+    if (sceneStatuses.length > 0) {
       console.log(`[preview-images] Updated ${sceneStatuses.length} scenes with placeholder status information`);
     }
 
@@ -471,11 +330,11 @@ export async function POST(req: NextRequest) {
       // Log provider and prompt information for debugging
       sceneStatuses.forEach((status) => {
         const scene = scenes[status.sceneIndex];
-        console.log(`[preview-images] Scene ${status.sceneIndex + 1}: ${status.reason} - Original prompt: "${scene.image_prompt.substring(0, 100)}..."`);
+        console.log(`[preview-images] Scene ${status.sceneIndex + 1}: ${status.reason} - Original prompt: "${(scene.image_prompt ?? '').substring(0, 100)}..."`);
       });
     }
 
-    const readyCount = imageUrls.filter(url => url && url.trim() !== '').length;
+    const readyCount = savedUrls.filter(url => url && url.trim() !== '').length;
     
     // After all scenes finish, if at least one image_url exists (even placeholders), update DB status to 'assets_generated'
     if (readyCount > 0 && v.status === 'storyboard_generated') {
@@ -487,9 +346,9 @@ export async function POST(req: NextRequest) {
     
     return NextResponse.json({
       ok: true,
-      image_urls: imageUrls,
+      image_urls: savedUrls,
       ready: readyCount,
-      total: scenes.length,
+      total: savedUrls.length,
       progress,
       placeholders_used: placeholdersUsed,
       scene_statuses: sceneStatuses
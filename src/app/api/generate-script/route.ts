@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { randomUUID } from 'crypto';
-import { fetchWithTimeout } from '@/lib/fetchWithTimeout';
 import { withRetry } from '@/lib/withRetry';
+import { VideoService } from '@/lib/supabase-server';
+import { getLlmClient } from '@/lib/providers/llm';
+import { getCaptionStyleById } from '@/lib/caption-styles';
+import { getRenderProfileById } from '@/lib/render-profiles';
+import { getThemeById } from '@/lib/themes';
 
 // Force Node.js runtime (not Edge) to avoid fetch/env issues
 export const runtime = 'nodejs';
@@ -73,7 +77,18 @@ export async function POST(request: NextRequest) {
 
     // --- 1) Create video record with a pre-generated id (idempotent)
     const videoId = randomUUID();
-    const insertPayload = { id: videoId, input_text: inputText, status: 'created' as const };
+    // Unknown themes / caption styles / profiles are dropped so later steps use their defaults
+    const theme = typeof body?.theme === 'string' ? getThemeById(body.theme)?.id ?? null : null;
+    const captionStyle = getCaptionStyleById(body?.captionStyle)?.id ?? null;
+    const renderProfile = getRenderProfileById(body?.renderProfile)?.id ?? null;
+    const insertPayload = {
+      id: videoId,
+      input_text: inputText,
+      status: 'created' as const,
+      theme,
+      caption_style: captionStyle,
+      render_profile: renderProfile,
+    };
 
     await withRetry(async () => {
       const { error } = await supabase
@@ -85,9 +100,7 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Video record created with ID:', videoId);
 
-    // --- 2) Call OpenRouter with timeout + retries
-    const openrouterUrl = 'https://openrouter.ai/api/v1/chat/completions';
-    
+    // --- 2) Call the LLM (timeout + retries handled by the client)
     const systemPrompt = `You are a concise copywriter. 
 DO NOT include any meta commentary (no "as an AI...", "I can't...", "I'm sorry but...").
 Return EXACTLY:
@@ -105,40 +118,19 @@ Rules:
 - Plain language, present tense.
 - Return ONLY the 3 labeled lines.`;
 
-    const payload = {
-      model: 'openai/gpt-4',
-      max_tokens: 300,
+    const llm = getLlmClient();
+    const { text: aiScriptText } = await llm.complete({
+      task: 'script',
+      maxTokens: 300,
       temperature: 0.7,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ]
-    };
-
-    const res = await withRetry(async () => {
-      const r = await fetchWithTimeout(openrouterUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY!}`,
-          'HTTP-Referer': 'https://storyshort.app',
-          'X-Title': 'StoryShort - AI Video Generation'
-        },
-        body: JSON.stringify(payload)
-      }, 20000);
-      if (!r.ok) {
-        const text = await r.text().catch(() => '<no body>');
-        throw new Error(`OpenRouter ${r.status}: ${text}`);
-      }
-      return r;
-    }, { label: 'openrouter.fetch', maxRetries: 3, baseDelayMs: 800 });
-
-    const data = await res.json();
-    const aiScriptText: string =
-      data?.choices?.[0]?.message?.content?.trim?.() || '';
+    });
 
     if (!aiScriptText) {
-      return NextResponse.json({ ok: false, error: 'Empty script from OpenRouter' }, { status: 502 });
+      return NextResponse.json({ ok: false, error: `Empty script from ${llm.name}` }, { status: 502 });
     }
 
     console.log('📝 Generated script:', aiScriptText);
@@ -158,16 +150,11 @@ Rules:
 
     // --- 4) Save the cleaned script (script_text + legacy script) + status
     await withRetry(async () => {
-      const { error } = await supabase
-        .from('videos')
-        .update({
-          script_text: finalText,
-          script: finalText,               // keep legacy in sync
-          status: 'script_generated',
-          error_message: null
-        })
-        .eq('id', videoId);
-      if (error) throw new Error(error.message);
+      await VideoService.setStatus(videoId, 'script_generated', {
+        script_text: finalText,
+        script: finalText,               // keep legacy in sync
+        error_message: null
+      }, `script generated by ${llm.name}`);
       return true;
     }, { label: 'supabase.update(script)', maxRetries: 3 });
 
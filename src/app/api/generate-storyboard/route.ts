@@ -1,73 +1,68 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService, sbServer } from '@/lib/supabase-server';
+import { getLlmClient, type LlmMessage } from '@/lib/providers/llm';
+import { CAMERA_MOTIONS } from '@/lib/render/motion';
+import { newSceneId } from '@/lib/storyboard-scenes';
+import { parseStoryboard } from '@/lib/storyboard-schema';
+import type { Storyboard } from '@/types/video';
+import { saveStoryboardEdit } from '@/lib/storyboard-version';
 
-// Safe JSON parsing helper
-function parseJsonSafe(text: string) {
-  try {
-    return JSON.parse(text);
-  } catch (e) {
-    console.error('Failed to parse JSON:', e);
-    return null;
-  }
-}
+// Times the model is shown what was wrong with its storyboard and asked again
+const MAX_REPAIR_ATTEMPTS = 2;
 
-// Function to get OpenRouter API configuration
-function getOpenRouterConfig() {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error('OpenRouter API key not configured');
-  }
-  return { apiKey };
+function repairPrompt(errors: string[]): string {
+  return `That storyboard can't be used as it is:
+${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}
+
+Return the complete corrected JSON object (every scene, same fields), no additional text.`;
 }
 
-// Function to generate storyboard using OpenRouter API
-async function generateStoryboard(script: string) {
-  const { apiKey } = getOpenRouterConfig();
-  
-  const prompt = `Create a detailed video storyboard from this script. Return a JSON object with a "scenes" array. Each scene should have: scene_number, description, duration (in seconds), and image_prompt (detailed visual description for DALL-E). Aim for 5-8 scenes total.
+// Function to generate storyboard using the LLM client; malformed or incomplete output is sent back for repair
+async function generateStoryboard(script: string): Promise<Storyboard> {
+  const prompt = `Create a detailed video storyboard from this script. Return a JSON object with a "scenes" array. Each scene should have: scene_number, description, narration (the exact script words spoken during this scene; in order, the scenes' narration must cover the whole script), duration (in seconds), image_prompt (detailed visual description for DALL-E), and motion (the camera move that suits the shot: one of ${CAMERA_MOTIONS.map(m => `"${m.id}"`).join(', ')}, or {"type":"focus","x":0-1,"y":0-1} to push in on a point of the image). Aim for 5-8 scenes total.
 
 Script:
 ${script}
 
 Return only valid JSON, no additional text.`;
 
-  console.log('🤖 Calling OpenRouter API...');
-  
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:4000',
-      'X-Title': 'StoryShort Video Generator'
-    },
-    body: JSON.stringify({
-      model: 'anthropic/claude-3.5-sonnet',
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 2000,
-      temperature: 0.7
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
-  }
+  const llm = getLlmClient();
+  const messages: LlmMessage[] = [{ role: 'user', content: prompt }];
 
-  const data = await response.json();
-  const content = data?.choices?.[0]?.message?.content;
-  
-  if (!content) {
-    throw new Error('No content received from OpenRouter API');
-  }
+  for (let attempt = 0; ; attempt++) {
+    console.log(`🤖 Calling LLM (${llm.name})${attempt ? ` to repair the storyboard, attempt ${attempt}` : ''}...`);
 
-  console.log('✅ OpenRouter API response received');
-  return content;
+    let reply: string;
+    let errors: string[];
+    try {
+      const { text, json } = await llm.complete({
+        task: 'storyboard',
+        json: true,
+        maxTokens: 2000,
+        temperature: 0.7,
+        timeoutMs: 60000,
+        messages
+      });
+      console.log('✅ LLM response received');
+
+      const result = parseStoryboard(json);
+      if (result.ok) return result.storyboard;
+      reply = text;
+      errors = result.errors;
+    } catch (e) {
+      // Unparseable JSON is repairable too; anything else (timeouts, auth) is not
+      const { code, raw } = (e ?? {}) as { code?: unknown; raw?: unknown };
+      if (code !== 'invalid_json') throw e;
+      reply = typeof raw === 'string' ? raw : '';
+      errors = ['the response is not valid JSON'];
+    }
+
+    console.warn(`[storyboard] LLM storyboard failed validation (${errors.length} problems):`, errors.slice(0, 5));
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw Object.assign(new Error(`Invalid storyboard from LLM: ${errors.slice(0, 3).join('; ')}`), { code: 'invalid_storyboard', errors });
+    }
+    messages.push({ role: 'assistant', content: reply }, { role: 'user', content: repairPrompt(errors) });
+  }
 }
 
 export async function POST(request: NextRequest) {
@@ -120,41 +115,32 @@ export async function POST(request: NextRequest) {
 
     console.log('[storyboard] Generating storyboard for script length:', scriptToUse.length);
 
-    // Generate storyboard using LLM
-    const storyboardContent = await generateStoryboard(scriptToUse);
+    // Generate storyboard using LLM; it comes back validated, with motions in canonical form
+    const storyboard = await generateStoryboard(scriptToUse);
     console.log('[storyboard] LLM OK');
 
-    // Parse and validate the storyboard
-    const storyboard = parseJsonSafe(storyboardContent);
-    if (!storyboard || !Array.isArray(storyboard.scenes)) {
-      throw new Error('Invalid storyboard format received from LLM');
-    }
-
-    // Validate scenes
-    if (storyboard.scenes.length === 0) {
-      throw new Error('No scenes generated');
-    }
-
-    for (let i = 0; i < storyboard.scenes.length; i++) {
-      const scene = storyboard.scenes[i];
-      if (!scene.description || !scene.image_prompt) {
-        throw new Error(`Scene ${i + 1} missing required fields`);
-      }
+    // Fresh stable ids; whatever the model put in `id` is not ours
+    for (const scene of storyboard.scenes) {
+      scene.id = newSceneId();
     }
 
     console.log('[storyboard] saving to DB…');
 
-    // Save storyboard as JSONB object (not string) and initialize wizard-specific fields
-    await supabase
-      .from('videos')
-      .update({
-        storyboard_json: storyboard, // Save as object, not JSON.stringify
-        status: 'storyboard_generated',
-        storyboard_version: 1, // Initialize version counter
-        dirty_scenes: [], // Initialize dirty scenes array
-        error_message: null // Clear any previous errors
-      })
-      .eq('id', videoId);
+    // A regenerated storyboard carries on from the old one's version, so editors still
+    // open on the old one are turned away and its history stays reachable. It is
+    // compare-and-set like an edit: one saved during the LLM call is not overwritten.
+    const saved = await saveStoryboardEdit(videoId, video, {
+      storyboard_json: storyboard, // Save as object, not JSON.stringify
+      // New scenes, new ids: the old storyboard's images and voiceover belong to none of them
+      image_urls: [],
+      audio_url: null,
+      captions_url: null,
+      dirty_scenes: [],
+      error_message: null // Clear any previous errors
+    }, { action: 'generate', author: null });
+    if (saved.conflict) return saved.conflict;
+
+    await VideoService.setStatus(videoId, 'storyboard_generated', undefined, `storyboard generated (${storyboard.scenes.length} scenes)`);
 
     // DO NOT auto-trigger assets in wizard workflow - wait for user approval
 
@@ -171,13 +157,8 @@ export async function POST(request: NextRequest) {
 
     if (videoId) {
       try {
-        await supabase
-          .from('videos')
-          .update({
-            status: 'assets_failed', // Use assets_failed as specified
-            error_message: errorMessage
-          })
-          .eq('id', videoId);
+        // Rejected when the video has moved on (e.g. the precondition check failed mid-render)
+        await VideoService.markError(videoId, errorMessage, 'storyboard_failed');
       } catch (dbErr) {
         console.error('[storyboard] Failed to update error status:', dbErr);
       }
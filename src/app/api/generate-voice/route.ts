@@ -1,6 +1,7 @@
 // ✅ /src/app/api/generate-voice/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { parseScriptSections, toPlainNarration } from '@/lib/script';
+import { getTtsProvider } from '@/lib/providers/tts';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,12 +11,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing or invalid text' }, { status: 400 });
     }
 
-    const selectedVoiceId = voiceId || process.env.VOICE_ID || 'EFbNMe9bCQ0gsl51ZIWn'; // Default voice
-
-    const elevenLabsApiKey = process.env.ELEVENLABS_API_KEY;
-    if (!elevenLabsApiKey) {
-      return NextResponse.json({ error: 'Missing ElevenLabs API key' }, { status: 500 });
-    }
+    const provider = getTtsProvider();
 
     console.log('🎤 Parsing script for voice generation...');
     const parsedScript = parseScriptSections(text);
@@ -27,39 +23,25 @@ export async function POST(request: NextRequest) {
     const textToRead = toPlainNarration(parsedScript);
     console.log('🎤 Text to read:', textToRead);
 
-    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${selectedVoiceId}`, {
-      method: 'POST',
-      headers: {
-        'xi-api-key': elevenLabsApiKey,
-        'Content-Type': 'application/json',
-        'Accept': 'audio/mpeg'
-      },
-      body: JSON.stringify({
-        text: textToRead,
-        model_id: 'eleven_multilingual_v2',
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.5
-        }
-      })
-    });
-
-    if (!response.ok) {
-      let errorData;
-      try {
-        errorData = await response.json();
-      } catch (_err) {
-        errorData = { error: 'Failed to parse error response' };
-      }
-      console.error('❌ ElevenLabs API error:', errorData);
+    let audio;
+    try {
+      audio = await provider.synthesize(textToRead, { voiceId });
+    } catch (error) {
+      const err = error as { code?: string; status?: number; details?: unknown; message?: string };
+      const errorData = (err.details && typeof err.details === 'object' ? err.details : { error: err.message }) as {
+        status?: string; message?: string; error?: string; detail?: { status?: string };
+      };
+      console.error(`❌ ${provider.name} TTS error:`, errorData);
       
       // Provide specific error messages based on the response
-      let errorMessage = 'Failed to generate voice from ElevenLabs';
-      if (errorData.status === 'quota_exceeded') {
+      let errorMessage = 'Failed to generate voice';
+      if (err.code === 'missing_api_key') {
+        errorMessage = 'Missing ElevenLabs API key';
+      } else if (errorData.status === 'quota_exceeded' || errorData.detail?.status === 'quota_exceeded') {
         errorMessage = 'Insufficient ElevenLabs credits. Please add more credits to your account.';
-      } else if (response.status === 401) {
+      } else if (err.status === 401) {
         errorMessage = 'Invalid ElevenLabs API key. Please check your ELEVENLABS_API_KEY.';
-      } else if (response.status === 400) {
+      } else if (err.status === 400) {
         errorMessage = `Invalid request: ${errorData.message || 'Check your voice ID and text'}`;
       } else if (errorData.error) {
         errorMessage = errorData.error;
@@ -67,17 +49,16 @@ export async function POST(request: NextRequest) {
       
       return NextResponse.json(
         { error: errorMessage, details: errorData },
-        { status: response.status }
+        { status: err.status || 500 }
       );
     }
 
-    const audioBuffer = await response.arrayBuffer();
-    console.log('✅ Audio generated successfully');
+    console.log(`✅ Audio generated successfully via ${provider.name}`);
 
-    return new NextResponse(Buffer.from(audioBuffer), {
+    return new NextResponse(new Uint8Array(audio.buffer), {
       status: 200,
       headers: {
-        'Content-Type': 'audio/mpeg'
+        'Content-Type': audio.contentType
       }
     });
   } catch (err) {
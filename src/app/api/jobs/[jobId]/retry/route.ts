@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sbServer } from '@/lib/supabase-server';
+import { requeueDeadJob } from '@/lib/job-queue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Requeue a dead-lettered job with a fresh set of attempts
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  try {
+    const job = await requeueDeadJob(sbServer(), jobId);
+    if (!job) {
+      return NextResponse.json(
+        { ok: false, error: 'Job is not dead-lettered, or another job for the video is already active' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ ok: true, job }, { status: 202 });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : 'Failed to requeue job' }, { status: 500 });
+  }
+}
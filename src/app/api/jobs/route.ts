@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService, sbServer } from '@/lib/supabase-server';
+import { enqueueJob, isJobType, listJobs } from '@/lib/job-queue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Jobs for a video, newest first: GET /api/jobs?videoId=...
+export async function GET(req: NextRequest) {
+  const videoId = req.nextUrl.searchParams.get('videoId');
+  if (!videoId) {
+    return NextResponse.json({ ok: false, error: 'Missing videoId' }, { status: 400 });
+  }
+  try {
+    const jobs = await listJobs(sbServer(), videoId);
+    return NextResponse.json({ ok: true, jobs });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : 'Failed to list jobs' }, { status: 500 });
+  }
+}
+
+/**
+ * Queue a job: { videoId, type: 'generate-assets' | 'render', payload? }.
+ * Returns 202 with the job; an already queued or running job of the same type is returned instead of a new one.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const videoId = typeof body?.videoId === 'string' ? body.videoId : '';
+    if (!videoId) {
+      return NextResponse.json({ ok: false, error: 'Missing videoId' }, { status: 400 });
+    }
+    if (!isJobType(body?.type)) {
+      return NextResponse.json({ ok: false, error: `Unknown job type: ${body?.type}` }, { status: 400 });
+    }
+    const payload = body?.payload && typeof body.payload === 'object' && !Array.isArray(body.payload) ? body.payload : {};
+
+    const video = await VideoService.getById(videoId);
+    if (!video) {
+      return NextResponse.json({ ok: false, error: 'Video not found' }, { status: 404 });
+    }
+
+    const { job, created } = await enqueueJob(sbServer(), body.type, videoId, payload);
+    console.log(`[jobs] ${created ? 'Queued' : 'Already queued'} ${job.type} job ${job.id} for ${videoId}`);
+    return NextResponse.json({ ok: true, job, created }, { status: 202 });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : 'Failed to queue job' }, { status: 500 });
+  }
+}
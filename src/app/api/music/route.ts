@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService, sbServer } from '@/lib/supabase-server';
+import { ensureBucket } from '@/lib/tts';
+import {
+  DEFAULT_MUSIC_SETTINGS,
+  UPLOAD_CONTENT_TYPES,
+  libraryTrackPath,
+  listMusicLibrary,
+  parseMusicSettings,
+} from '@/lib/music';
+import type { BackgroundMusic } from '@/types/video';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+function errorResponse(e: unknown) {
+  const err = e as { code?: string; message?: string };
+  const status = err?.code === 'invalid_music' ? 400 : 500;
+  return NextResponse.json({ ok: false, error: err?.message || 'Internal server error' }, { status });
+}
+
+async function uploadMusic(videoId: string, file: File, ext: 'mp3' | 'wav'): Promise<string> {
+  await ensureBucket('renders-audio');
+  const supabase = sbServer();
+  const storagePath = `videos/${videoId}/music.${ext}`;
+  const { error } = await supabase.storage
+    .from('renders-audio')
+    .upload(storagePath, Buffer.from(await file.arrayBuffer()), { contentType: file.type, upsert: true });
+  if (error) throw new Error(`Music upload failed: ${error.message}`);
+
+  const { data } = supabase.storage.from('renders-audio').getPublicUrl(storagePath);
+  if (!data?.publicUrl) throw new Error('Failed to get public URL for uploaded music');
+  return data.publicUrl;
+}
+
+// Library tracks available to attach
+export async function GET() {
+  try {
+    const tracks = await listMusicLibrary();
+    return NextResponse.json({ ok: true, tracks, defaults: DEFAULT_MUSIC_SETTINGS });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
+
+/**
+ * Attach background music to a video.
+ * JSON: { videoId, track, volume?, fadeInSec?, fadeOutSec?, ducking? } picks a library track
+ * (omit track to only change the mix settings). multipart/form-data with a `file`
+ * field uploads an MP3/WAV instead; the other fields are the same.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const isUpload = (req.headers.get('content-type') || '').includes('multipart/form-data');
+    const form = isUpload ? await req.formData() : null;
+    const input: Record<string, unknown> = form
+      ? Object.fromEntries(Array.from(form.entries()).filter(([, v]) => typeof v === 'string'))
+      : await req.json();
+
+    const videoId = typeof input.videoId === 'string' ? input.videoId : '';
+    if (!videoId) {
+      return NextResponse.json({ ok: false, error: 'Missing videoId' }, { status: 400 });
+    }
+
+    const video = await VideoService.getById(videoId);
+    if (!video) {
+      return NextResponse.json({ ok: false, error: 'Video not found' }, { status: 404 });
+    }
+    const current: BackgroundMusic | null = video.background_music ?? null;
+    const settings = parseMusicSettings(input, current ?? {});
+
+    let music: BackgroundMusic;
+    const file = form?.get('file');
+    if (file instanceof File) {
+      const ext = UPLOAD_CONTENT_TYPES[file.type];
+      if (!ext) {
+        return NextResponse.json({ ok: false, error: 'Music upload must be MP3 or WAV' }, { status: 400 });
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json({ ok: false, error: 'Music upload exceeds 20 MB' }, { status: 413 });
+      }
+      music = { source: 'upload', track: await uploadMusic(videoId, file, ext), ...settings };
+    } else if (typeof input.track === 'string' && input.track) {
+      const tracks = await listMusicLibrary();
+      libraryTrackPath(input.track); // rejects paths outside the library
+      if (!tracks.includes(input.track)) {
+        return NextResponse.json({ ok: false, error: `Track not found in music library: ${input.track}` }, { status: 404 });
+      }
+      music = { source: 'library', track: input.track, ...settings };
+    } else if (current) {
+      music = { ...current, ...settings };
+    } else {
+      return NextResponse.json({ ok: false, error: 'Missing track or file' }, { status: 400 });
+    }
+
+    const result = await VideoService.updateVideo(videoId, { background_music: music });
+    if (!result.success) throw new Error(result.error || 'Failed to save background music');
+
+    console.log(`[music] Attached ${music.source} track to video ${videoId}: ${music.track}`);
+    return NextResponse.json({ ok: true, background_music: music });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
+
+// Detach background music: DELETE /api/music?videoId=...
+export async function DELETE(req: NextRequest) {
+  try {
+    const videoId = req.nextUrl.searchParams.get('videoId');
+    if (!videoId) {
+      return NextResponse.json({ ok: false, error: 'Missing videoId' }, { status: 400 });
+    }
+    const result = await VideoService.updateVideo(videoId, { background_music: null });
+    if (!result.success) throw new Error(result.error || 'Failed to remove background music');
+    return NextResponse.json({ ok: true, background_music: null });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
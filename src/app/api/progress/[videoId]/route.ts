@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService, sbServer } from '@/lib/supabase-server';
 import type { VideoStatus } from '@/types/video';
+import { describeRenderProgress } from '@/lib/render/progress';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -60,6 +61,9 @@ export async function GET(
       imageUrls: videoData.image_urls || [],
       finalVideoUrl: videoData.final_video_url,
       totalDuration: videoData.total_duration,
+      renderProgress: videoData.render_progress ?? 0,
+      renderStage: videoData.render_stage ?? null,
+      etaSeconds: videoData.status === 'rendering' ? videoData.render_eta_sec ?? null : null,
       createdAt: videoData.created_at,
       updatedAt: videoData.updated_at,
       steps: {
@@ -81,6 +85,7 @@ export async function GET(
 
     // Set progress percentage and message based on status
     switch (videoData.status as VideoStatus) {
+      case 'created':
       case 'pending':
         progress.progress = 0;
         progress.message = 'Initializing...';
@@ -119,8 +124,9 @@ export async function GET(
         progress.message = 'All assets ready, ready for rendering...';
         break;
       case 'rendering':
-        progress.progress = 95;
-        progress.message = 'Rendering video...';
+        // Rendering spans 90-99 here; the render itself reports 0-100
+        progress.progress = Math.min(99, 90 + Math.round((videoData.render_progress ?? 0) / 10));
+        progress.message = describeRenderProgress(videoData.render_stage, videoData.render_eta_sec);
         break;
       case 'completed':
         progress.progress = 100;
@@ -142,6 +148,10 @@ export async function GET(
         progress.progress = 0;
         progress.message = 'Video rendering failed';
         break;
+      case 'cancelled':
+        progress.progress = 0;
+        progress.message = 'Cancelled';
+        break;
       default:
         progress.progress = 0;
         progress.message = 'Unknown status';
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService } from '@/lib/supabase-server';
+import { buildVideoStatus, type VideoStatusPayload } from '@/lib/video-status';
+import { subscribeVideoChanges } from '@/lib/video-events';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Writes from this process arrive through video-events; this re-read catches everything else
+const POLL_MS = 2000;
+// Comment line that keeps proxies from closing an idle stream
+const KEEPALIVE_MS = 15000;
+// Client reconnect delay sent with the first chunk
+const RETRY_MS = 3000;
+
+function sseMessage(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Per-asset progress, small enough to send on every change
+function progressEvent(data: VideoStatusPayload) {
+  return {
+    status: data.status,
+    progress: data.progress,
+    stage: data.stage,
+    images: {
+      done: data.progressDetails.imagesDone,
+      total: data.progressDetails.imagesTotal,
+      upload_progress: data.image_upload_progress ?? null,
+    },
+    audio: data.ready.audio,
+    captions: data.ready.captions,
+    render: {
+      progress: data.render_progress,
+      stage: data.render_stage,
+      eta_seconds: data.render_eta_seconds,
+    },
+  };
+}
+
+function isErrorState(data: VideoStatusPayload): boolean {
+  return !!data.error_message || data.status === 'failed' || data.status.endsWith('_failed');
+}
+
+/**
+ * Server-sent events for one video, as the pipeline writes them:
+ * - `status`: the full /api/video-status payload whenever it changes
+ * - `progress`: status, stage and per-asset progress (images, audio, captions, render)
+ * - `error`: { status, error_message } when the video enters a failed state or records an error
+ * The first `status` event is sent straight away. An unknown video gets one
+ * `error` event with `error: 'video_not_found'` and the stream ends.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  const { videoId } = await params;
+
+  if (!videoId) {
+    return NextResponse.json({ error: 'Video ID is required' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let loading = false;
+      let reloadQueued = false;
+      let lastStatus = '';
+      let lastProgress = '';
+      let lastError = '';
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          stop();
+        }
+      };
+
+      // Re-read the row and push whatever changed; reads never overlap
+      const refresh = async () => {
+        if (loading) {
+          reloadQueued = true;
+          return;
+        }
+        loading = true;
+        try {
+          do {
+            reloadQueued = false;
+            const video = await VideoService.getById(videoId);
+            if (closed) return;
+            if (!video) {
+              send(sseMessage('error', { error: 'video_not_found' }));
+              stop();
+              return;
+            }
+
+            const data = buildVideoStatus(video);
+            const statusKey = JSON.stringify(data);
+            if (statusKey === lastStatus) continue;
+            lastStatus = statusKey;
+            send(sseMessage('status', data));
+
+            const progress = progressEvent(data);
+            const progressKey = JSON.stringify(progress);
+            if (progressKey !== lastProgress) {
+              lastProgress = progressKey;
+              send(sseMessage('progress', progress));
+            }
+
+            const errorKey = isErrorState(data) ? `${data.status}:${data.error_message ?? ''}` : '';
+            if (errorKey && errorKey !== lastError) {
+              send(sseMessage('error', { status: data.status, error_message: data.error_message ?? null }));
+            }
+            lastError = errorKey;
+          } while (reloadQueued && !closed);
+        } catch (e) {
+          // Transient DB errors: the next notification or poll tries again
+          console.warn(`[progress:stream] Failed to read ${videoId}:`, e instanceof Error ? e.message : e);
+        } finally {
+          loading = false;
+        }
+      };
+
+      const unsubscribe = subscribeVideoChanges(videoId, () => { void refresh(); });
+      const poll = setInterval(() => { void refresh(); }, POLL_MS);
+      const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_MS);
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(poll);
+        clearInterval(keepalive);
+        request.signal.removeEventListener('abort', stop);
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', stop);
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      void refresh();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-store, no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stop nginx-style proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
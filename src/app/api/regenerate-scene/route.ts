@@ -1,12 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService } from '@/lib/supabase-server';
 import { createClient } from '@supabase/supabase-js';
-import fs from 'node:fs/promises';
-import path from 'node:path';
-
-// Constants
-const IMAGE_GEN_TIMEOUT = 60000; // 60 seconds timeout
-const PLACEHOLDER_PATH = path.join(process.cwd(), 'public', 'placeholder.png');
+import { sanitizePrompt, isContentPolicyViolation } from '@/lib/safety';
+import { getImageProvider, placeholderImage, type ImageProvider } from '@/lib/providers/image';
+import { getRenderProfileById, getDefaultRenderProfile } from '@/lib/render-profiles';
+import { sceneImagePath } from '@/lib/storyboard-scenes';
 
 // Supabase client (server-side, service role)
 const supabase = createClient(
@@ -15,152 +13,35 @@ const supabase = createClient(
   { auth: { persistSession: false } }
 );
 
-// Safe prompt sanitization function (same as in generate-preview-images)
-function sanitizePrompt(p: string) {
-  return [
-    "Family-friendly, safe-for-work, no nudity, no violence, no sensitive content.",
-    "Uplifting, wholesome, suitable for all ages.",
-    p
-  ].join(" ");
-}
-
-// Provider functions (simplified versions from generate-preview-images)
-async function providerGenerateImage(prompt: string): Promise<ArrayBuffer> {
-  const startTime = Date.now();
-  console.log(`[regenerate-scene] Using DALL-E 3 provider for prompt: ${prompt.substring(0, 50)}...`);
-  
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) throw new Error('OpenAI API key not configured');
-
-  const response = await fetch('https://api.openai.com/v1/images/generations', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'dall-e-3',
-      prompt: `${prompt} Cinematic vertical composition, 1080x1920, high quality, detailed`,
-      n: 1,
-      size: '1024x1792',
-      quality: 'standard',
-      response_format: 'b64_json',
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    if (text.includes('content_policy_violation')) {
-      throw Object.assign(new Error('CONTENT_POLICY_VIOLATION'), { code: 'CONTENT_POLICY_VIOLATION', raw: text });
-    }
-    throw new Error(`OpenAI API error: ${response.status} ${text}`);
-  }
-
-  const data = await response.json();
-  const base64Data = data.data[0].b64_json;
-  
-  if (!base64Data) throw new Error('No image data received from OpenAI');
-  
-  const buffer = Buffer.from(base64Data, 'base64');
-  const timeTaken = Date.now() - startTime;
-  console.log(`[regenerate-scene] DALL-E 3 image generated successfully in ${timeTaken}ms`);
-  
-  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
-}
-
-async function providerFallbackImage(prompt: string): Promise<ArrayBuffer> {
-  const startTime = Date.now();
-  console.log(`[regenerate-scene] Using DALL-E 2 fallback provider for prompt: ${prompt.substring(0, 50)}...`);
-  
-  const sanitizedPrompt = sanitizePrompt(prompt);
-
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) throw new Error('OpenAI API key not configured');
-
-  const response = await fetch('https://api.openai.com/v1/images/generations', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'dall-e-2',
-      prompt: sanitizedPrompt,
-      n: 1,
-      size: '1024x1024',
-      response_format: 'b64_json',
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Fallback provider failed: ${response.status} ${text}`);
-  }
-
-  const data = await response.json();
-  const base64Data = data.data[0].b64_json;
-  
-  if (!base64Data) throw new Error('No image data received from fallback provider');
-  
-  const buffer = Buffer.from(base64Data, 'base64');
-  const timeTaken = Date.now() - startTime;
-  console.log(`[regenerate-scene] DALL-E 2 fallback image generated successfully in ${timeTaken}ms`);
-  
-  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
-}
-
-async function providerPlaceholderImage(): Promise<Buffer> {
+async function fallbackOrPlaceholder(provider: ImageProvider, prompt: string, reason: string): Promise<{ buffer: Buffer; isPlaceholder: boolean; reason?: string }> {
   try {
-    await fs.access(PLACEHOLDER_PATH);
-    return await fs.readFile(PLACEHOLDER_PATH);
-  } catch {
-    // generate simple PNG buffer if file missing
-    return Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVQImWNgYGBgAAAABQABJzQpGQAAAABJRU5ErkJggg==','base64');
+    const buffer = await provider.generateFallback(prompt);
+    return { buffer, isPlaceholder: false };
+  } catch (fallbackError: any) {
+    console.warn(`[regenerate-scene] ${provider.name} fallback also failed:`, fallbackError.message);
+    console.log(`[regenerate-scene] Using placeholder as final fallback`);
+    return { buffer: await placeholderImage(), isPlaceholder: true, reason };
   }
 }
 
 // Main image generation with fallback
-async function generateImageWithFallback(prompt: string): Promise<{ buffer: ArrayBuffer; isPlaceholder: boolean; reason?: string }> {
+async function generateImageWithFallback(provider: ImageProvider, prompt: string): Promise<{ buffer: Buffer; isPlaceholder: boolean; reason?: string }> {
   try {
     // Try with sanitized prompt first
     const sanitizedPrompt = sanitizePrompt(prompt);
-    console.log(`[regenerate-scene] Attempting generation with sanitized prompt: ${sanitizedPrompt.substring(0, 100)}...`);
+    console.log(`[regenerate-scene] Attempting generation via ${provider.name} with sanitized prompt: ${sanitizedPrompt.substring(0, 100)}...`);
     
-    const buffer = await providerGenerateImage(sanitizedPrompt);
+    const buffer = await provider.generate(sanitizedPrompt);
     return { buffer, isPlaceholder: false };
   } catch (e: any) {
-    if (e?.code === 'CONTENT_POLICY_VIOLATION') {
-      console.warn(`[regenerate-scene] Content policy violation, trying DALL-E 2 fallback`);
-      try {
-        const buffer = await providerFallbackImage(prompt);
-        return { buffer, isPlaceholder: false };
-      } catch (fallbackError: any) {
-        console.warn(`[regenerate-scene] DALL-E 2 fallback also failed:`, fallbackError.message);
-        console.log(`[regenerate-scene] Using placeholder as final fallback`);
-        const placeholderBuffer = await providerPlaceholderImage();
-        return { 
-          buffer: placeholderBuffer.buffer.slice(placeholderBuffer.byteOffset, placeholderBuffer.byteOffset + placeholderBuffer.byteLength) as ArrayBuffer,
-          isPlaceholder: true,
-          reason: 'content_policy_violation'
-        };
-      }
+    if (isContentPolicyViolation(e)) {
+      console.warn(`[regenerate-scene] Content policy violation, trying ${provider.name} fallback`);
+      return fallbackOrPlaceholder(provider, prompt, 'content_policy_violation');
     }
     
     // For other errors, try fallback
     console.warn(`[regenerate-scene] Generation failed:`, e.message);
-    try {
-      const buffer = await providerFallbackImage(prompt);
-      return { buffer, isPlaceholder: false };
-    } catch (fallbackError: any) {
-      console.warn(`[regenerate-scene] DALL-E 2 fallback failed:`, fallbackError.message);
-      console.log(`[regenerate-scene] Using placeholder as final fallback`);
-      const placeholderBuffer = await providerPlaceholderImage();
-      return { 
-        buffer: placeholderBuffer.buffer.slice(placeholderBuffer.byteOffset, placeholderBuffer.byteOffset + placeholderBuffer.byteLength) as ArrayBuffer,
-        isPlaceholder: true,
-        reason: 'generation_error'
-      };
-    }
+    return fallbackOrPlaceholder(provider, prompt, 'generation_error');
   }
 }
 
@@ -197,7 +78,7 @@ export async function POST(req: NextRequest) {
     }
     
     // Get video data
-    const video = await VideoService.getById(videoId);
+    const video = await VideoService.getWithSceneIds(videoId);
     if (!video) {
       return NextResponse.json({ ok: false, error: 'Video not found' }, { status: 404 });
     }
@@ -217,31 +98,36 @@ export async function POST(req: NextRequest) {
     console.log(`[regenerate-scene] Original prompt: "${scene.image_prompt.substring(0, 100)}..."`);
     
     // Generate new image with fallback
-    const { buffer, isPlaceholder, reason } = await generateImageWithFallback(scene.image_prompt);
+    const { buffer, isPlaceholder, reason } = await generateImageWithFallback(getImageProvider(video.image_provider, getRenderProfileById(video.render_profile) ?? getDefaultRenderProfile()), scene.image_prompt);
     
     // Upload the new image
-    const imagePath = `videos/${videoId}/images/scene-${sceneIndex + 1}.jpg`;
-    const bufferForUpload = Buffer.from(buffer);
-    const newImageUrl = await uploadImageAndGetPublicURL(imagePath, bufferForUpload);
+    const imagePath = sceneImagePath(videoId, scene, sceneIndex);
+    const newImageUrl = await uploadImageAndGetPublicURL(imagePath, buffer);
     
-    // Update the image_urls array
-    const currentImageUrls = [...(video.image_urls || [])];
-    currentImageUrls[sceneIndex] = newImageUrl;
-    
-    // Update scene status in storyboard
-    const updatedStoryboard = { ...video.storyboard_json };
-    updatedStoryboard.scenes[sceneIndex] = {
-      ...updatedStoryboard.scenes[sceneIndex],
-      image_url: newImageUrl,
-      placeholder_used: isPlaceholder,
-      reason: reason || undefined
-    };
-    
-    // Update database
-    await VideoService.updateVideo(videoId, {
-      image_urls: currentImageUrls,
-      storyboard_json: updatedStoryboard
+    // Merge into the storyboard as it is now: the scene may have moved, been edited or been deleted meanwhile
+    const sceneId = typeof scene.id === 'string' ? scene.id : null;
+    const written = await VideoService.patchStoryboard(videoId, current => {
+      const currentScenes = current.storyboard_json?.scenes ?? [];
+      const i = sceneId ? currentScenes.findIndex(s => s.id === sceneId) : sceneIndex;
+      // An image for a prompt that has been changed since is not kept
+      if (!currentScenes[i] || currentScenes[i].image_prompt !== scene.image_prompt) return null;
+
+      const imageUrls = currentScenes.map((_, k) => current.image_urls?.[k] || '');
+      imageUrls[i] = newImageUrl;
+      const updatedScenes = currentScenes.map((s, k) => k !== i ? s : {
+        ...s,
+        image_url: newImageUrl,
+        placeholder_used: isPlaceholder,
+        reason: reason || undefined
+      });
+      return {
+        image_urls: imageUrls,
+        storyboard_json: { ...current.storyboard_json, scenes: updatedScenes }
+      };
     });
+    if (!written) {
+      return NextResponse.json({ ok: false, error: 'Scene was changed or deleted while its image was generated' }, { status: 409 });
+    }
     
     // Log the result
     if (isPlaceholder) {
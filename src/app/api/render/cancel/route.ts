@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService } from '@/lib/supabase-server';
+import { cancelRenderJob } from '@/lib/render/jobs';
+import { isIllegalTransition } from '@/lib/video-transitions';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -28,18 +30,30 @@ export async function POST(req: NextRequest) {
       }, { status: 409 });
     }
 
-    // Update status to cancelled
-    await VideoService.updateVideo(videoId, {
-      status: 'render_failed',
-      error_message: 'cancelled_by_user'
-    });
+    // Record the cancel first so a render on another instance sees it at its next stage
+    try {
+      await VideoService.setStatus(videoId, 'cancelled', {
+        error_message: 'cancelled_by_user',
+        render_eta_sec: null
+      }, 'cancelled by user');
+    } catch (e) {
+      // The render finished or failed since the check above
+      if (isIllegalTransition(e) || (e as { code?: string }).code === 'status_conflict') {
+        return NextResponse.json({ ok: false, error: 'cannot_cancel', message: 'Render is no longer running' }, { status: 409 });
+      }
+      throw e;
+    }
+
+    // Kill ffmpeg and clean the run's temp dir when the render runs in this process
+    const stopped = await cancelRenderJob(videoId);
 
-    console.log(`[render/cancel] Video ${videoId} cancelled by user`);
+    console.log(`[render/cancel] Video ${videoId} cancelled by user${stopped ? ' (render processes stopped)' : ''}`);
 
     return NextResponse.json({ 
       ok: true, 
       message: 'Render cancelled successfully',
-      status: 'render_failed'
+      status: 'cancelled',
+      stopped
     });
 
   } catch (error) {
@@ -1,9 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { StorageService, sbServer } from '@/lib/supabase-server';
+import { StorageService, VideoService, sbServer } from '@/lib/supabase-server';
 import fs from 'node:fs';
 import path from 'node:path';
+import { randomUUID } from 'node:crypto';
 import { spawn } from 'node:child_process';
-import { renderKenBurnsClip } from '@/lib/render/kenburns';
+import { renderKenBurnsClip, renderStillClip } from '@/lib/render/kenburns';
+import { clipConcurrency, mapWithConcurrency } from '@/lib/render/pool';
+import { buildSinglePassScenes, createStageTimer, getDefaultRenderStrategy, isRenderStrategy, type RenderStrategy, type RenderTimings } from '@/lib/render/strategy';
+import { clipCacheDir, clipCacheKey, findCachedClip, hashFile, pruneClipCache, storeClip } from '@/lib/render/clip-cache';
+import { defaultSceneMotion, describeSceneMotion, sceneMotionOverrides } from '@/lib/render/motion';
+import { resolveCaptionFont } from '@/lib/render/fonts';
+import { resolveTransitions, clipSecondsWithTransitions, buildTransitionGraph } from '@/lib/render/transitions';
+import { getThemeById } from '@/lib/themes';
+import { buildMusicMixGraph, libraryTrackPath } from '@/lib/music';
+import { createRenderProgress, watchFfmpegProgress, FFMPEG_PROGRESS_ARGS, type RenderProgress, type RenderStage } from '@/lib/render/progress';
+import { startRenderJob, finishRenderJob, isRenderCancelled, renderCancelledError, type RenderJob } from '@/lib/render/jobs';
+import { renderFingerprint, idempotencyKeyFrom, isRenderStale, renderRunDir, RENDER_HEARTBEAT_MS } from '@/lib/render/idempotency';
+import { notifyVideoChanged } from '@/lib/video-events';
+import { canTransition, isIllegalTransition } from '@/lib/video-transitions';
+import type { BackgroundMusic, SceneMotion } from '@/types/video';
+import { sceneDurationsFromTimings } from '@/lib/narration';
+import { captionWordsUrl, groupCaptionCues } from '@/lib/captions';
+import { buildKaraokeAss } from '@/lib/subtitle-converter';
+import { getCaptionStyleById, type CaptionStyleId } from '@/lib/caption-styles';
+import { getRenderProfileById, getDefaultRenderProfile, type RenderProfile } from '@/lib/render-profiles';
 
 // Ken Burns configuration
 const ENABLE_KB = String(process.env.RENDER_ENABLE_KENBURNS || '').toLowerCase() === 'true';
@@ -26,8 +46,40 @@ type VideoRow = {
   error_message?: string | null;
   script_text?: string | null;
   storyboard_json?: any;
+  caption_style?: string | null;
+  render_profile?: string | null;
+  theme?: string | null;
+  background_music?: BackgroundMusic | null;
+  storyboard_version?: number | null;
+  render_id?: string | null;
+  render_fingerprint?: string | null;
+  render_idempotency_key?: string | null;
+  render_heartbeat_at?: string | null;
 };
 
+type RenderOptions = {
+  sceneDurations?: number[] | null;
+  captionStyle?: CaptionStyleId;
+  // Theme font descriptors; pick the bundled caption font
+  fontStyle?: string;
+  profile?: RenderProfile;
+  // Theme default and per-scene `transition` overrides (one entry per image)
+  transitionStyle?: string;
+  sceneTransitions?: unknown[] | null;
+  // Camera move chosen per scene in the storyboard (one entry per image)
+  sceneMotions?: (SceneMotion | null)[] | null;
+  music?: BackgroundMusic | null;
+  // Registers ffmpeg processes and the temp dir so the render can be cancelled
+  job?: RenderJob;
+  // Reuse per-scene clips from earlier renders of this video
+  clipCache?: string;
+  strategy?: RenderStrategy;
+  progress?: RenderProgress;
+};
+
+// SRT captions are laid out on libass' default 384x288 script canvas
+const SRT_PLAY_RES_Y = 288;
+
 function toErr(e: unknown): Error {
   return e instanceof Error ? e : new Error(typeof e === 'string' ? e : JSON.stringify(e));
 }
@@ -69,14 +121,27 @@ async function getAudioDurationSec(audioPath: string): Promise<number> {
 
 
 
-async function runFFmpegWithLogs(args: string[], cwd?: string, logPrefix?: string): Promise<void> {
+async function runFFmpegWithLogs(
+  args: string[],
+  cwd?: string,
+  logPrefix?: string,
+  job?: RenderJob,
+  onProgress?: (outTimeSec: number) => void
+): Promise<void> {
   return new Promise<void>((resolve, reject) => {
-    const p = spawn('ffmpeg', args, { stdio: ['ignore', 'inherit', 'pipe'], cwd });
+    const p = (job?.spawn ?? spawn)(
+      'ffmpeg',
+      onProgress ? [...FFMPEG_PROGRESS_ARGS, ...args] : args,
+      { stdio: ['ignore', onProgress ? 'pipe' : 'inherit', 'pipe'], cwd }
+    );
+    if (onProgress && p.stdout) watchFfmpegProgress(p.stdout, onProgress);
     let errBuf = '';
-    p.stderr.on('data', (d) => { errBuf += d.toString(); });
+    p.stderr?.on('data', (d) => { errBuf += d.toString(); });
     p.on('error', reject);
     p.on('close', async (code) => {
       if (code === 0) return resolve();
+      // Killed by a cancel: not an ffmpeg failure worth logging
+      if (job?.signal.aborted) return reject(renderCancelledError(job.videoId));
       
       // Write full stderr to temp log file for debugging
       let logFilePath = '';
@@ -99,20 +164,31 @@ async function runFFmpegWithLogs(args: string[], cwd?: string, logPrefix?: strin
   });
 }
 
-async function writeImagesTxt(imagePaths: string[], imagesTxtPath: string, audioDuration: number) {
+// Seconds per image: recorded narration timings when available, otherwise an even split
+function imageDurations(count: number, audioDuration: number, sceneDurations?: number[] | null): number[] {
+  if (sceneDurations && sceneDurations.length === count) {
+    const durations = sceneDurations.map(d => Math.max(KB_MIN_SEC, d));
+    // Hold the last image until the voiceover ends
+    const beforeLast = durations.slice(0, -1).reduce((a, b) => a + b, 0);
+    durations[count - 1] = Math.max(durations[count - 1], audioDuration - beforeLast);
+    return durations;
+  }
+  return new Array(count).fill(Math.max(KB_MIN_SEC, audioDuration / count)); // minimum KB_MIN_SEC per image
+}
+
+async function writeImagesTxt(imagePaths: string[], imagesTxtPath: string, audioDuration: number, durations: number[]) {
   // Create proper ffconcat file with durations that sum to audio length
   const imgs = imagePaths.length;
-  const perImage = Math.max(KB_MIN_SEC, audioDuration / imgs); // minimum KB_MIN_SEC per image
   
   console.log(`[render] audio = ${audioDuration.toFixed(2)}s`);
-  console.log(`[render] perImage = ${perImage.toFixed(3)}s (${imgs} images)`);
+  console.log(`[render] perImage = ${durations.map(d => d.toFixed(3)).join(', ')}s (${imgs} images)`);
   
   const lines: string[] = ["ffconcat version 1.0"];
   for (let i = 0; i < imgs; i++) {
     // Use absolute paths with forward slashes for Windows compatibility
     const absPath = toFFPath(path.resolve(imagePaths[i]));
     lines.push(`file '${absPath}'`);
-    lines.push(`duration ${perImage.toFixed(3)}`);
+    lines.push(`duration ${durations[i].toFixed(3)}`);
   }
   // ffmpeg requires the *last file repeated* so the final duration is respected
   const lastAbsPath = toFFPath(path.resolve(imagePaths[imgs - 1]));
@@ -133,44 +209,93 @@ async function assertFilesExist(paths: string[]) {
   }
 }
 
+// Local copy of the music track: library files are used in place, uploads are downloaded
+async function prepareMusicFile(music: BackgroundMusic, tempDir: string): Promise<string> {
+  if (music.source === 'library') {
+    const trackPath = libraryTrackPath(music.track);
+    await fs.promises.access(trackPath, fs.constants.R_OK);
+    return trackPath;
+  }
+  const ext = path.extname(new URL(music.track).pathname) || '.mp3';
+  return downloadToFile(music.track, path.join(tempDir, `music${ext}`));
+}
+
+// Per-scene transition overrides, only when the storyboard still lines up with the images
+function sceneTransitionOverrides(scenes: unknown, count: number): unknown[] | null {
+  if (!Array.isArray(scenes) || scenes.length !== count) return null;
+  return scenes.map(scene => (scene as { transition?: unknown } | null)?.transition);
+}
+
 // Safe update helper that doesn't break the pipeline if columns don't exist
 async function safeUpdate(supabase: any, videoId: string, patch: Record<string, any>) {
   try {
     const { error } = await supabase.from('videos').update(patch).eq('id', videoId);
     if (error) console.warn('[safeUpdate] warning:', error.message || error);
+    else notifyVideoChanged(videoId);
   } catch (e: any) {
     console.warn('[safeUpdate] threw:', e?.message ?? e);
   }
 }
 
+// A cancel handled by another server instance only reaches this one through the row
+async function cancelledInDb(supabase: ReturnType<typeof sbServer>, videoId: string): Promise<boolean> {
+  const { data } = await supabase.from('videos').select('status, error_message').eq('id', videoId).maybeSingle();
+  return data?.status === 'cancelled' || data?.error_message === 'cancelled_by_user';
+}
+
+function renderTempDir(videoId: string): string {
+  return path.join(process.cwd(), 'renders', videoId, 'temp');
+}
+
+function renderSupersededError(videoId: string): Error {
+  return Object.assign(new Error('render_superseded'), { code: 'render_superseded', videoId });
+}
+
+function isRenderSuperseded(e: unknown): boolean {
+  return (e as { code?: string } | null)?.code === 'render_superseded';
+}
+
 // Robust render function with VTT→SRT conversion and proper Windows support
 async function renderVideo(
   videoId: string,
   audioUrl: string,
   captionsUrl: string,
-  imageUrls: string[]
-): Promise<{ duration: number; filePath: string }> {
-  console.log('🎬 Starting robust video rendering...');
+  imageUrls: string[],
+  { sceneDurations, captionStyle = 'static', fontStyle, profile = getDefaultRenderProfile(), transitionStyle, sceneTransitions, sceneMotions, music, job, progress, clipCache, strategy = getDefaultRenderStrategy() }: RenderOptions = {}
+): Promise<{ duration: number; filePath: string; timings: RenderTimings }> {
+  const { width, height } = profile;
+  console.log(`🎬 Starting robust video rendering (${profile.id}, ${width}x${height}, ${strategy})...`);
+  const timer = createStageTimer(strategy);
+  const singlePass = strategy === 'single-pass';
   
-  // Progress update helper
-  const updateProgress = async (progress: number) => {
+  // Stage boundary: records progress and is where a cancel takes effect
+  const checkpoint = async (stage: RenderStage, fraction = 0) => {
+    job?.throwIfCancelled();
+    timer.mark(stage);
+    await progress?.set(stage, fraction, true);
+    let cancelled = false;
     try {
-      const supabase = sbServer();
-      await safeUpdate(supabase, videoId, { progress });
+      cancelled = await cancelledInDb(sbServer(), videoId);
     } catch (e) {
-      console.warn('[progress] Failed to update:', e);
+      console.warn('[progress] Failed to check for cancellation:', e);
     }
+    if (cancelled) throw renderCancelledError(videoId);
   };
+
+  // Live progress from ffmpeg's encoded position against the expected output length
+  const track = (stage: RenderStage, expectedSec: number, offsetSec = 0, totalSec = expectedSec) =>
+    (outTimeSec: number) => {
+      if (totalSec > 0) void progress?.set(stage, (offsetSec + Math.min(outTimeSec, expectedSec)) / totalSec);
+    };
   
   // Prepare directories
-  const renderDir = path.join(process.cwd(), 'renders', videoId);
-  const tempDir = path.join(renderDir, 'temp');
+  const tempDir = job?.tempDir ?? renderTempDir(videoId);
   await ensureDir(tempDir);
   
   try {
     // 1) Download images → local numbered files
     console.log('📥 Downloading images...');
-    await updateProgress(20);
+    await checkpoint('download');
     const localImages: string[] = [];
     for (let i = 0; i < imageUrls.length; i++) {
       const url = imageUrls[i];
@@ -179,17 +304,18 @@ async function renderVideo(
       const filePath = path.join(tempDir, `scene-${String(i + 1).padStart(2, '0')}${ext}`);
       await downloadToFile(url, filePath);
       localImages.push(filePath);
+      void progress?.set('download', ((i + 1) / imageUrls.length) * 0.6);
     }
 
     // 2) Download audio
     console.log('📥 Downloading audio...');
-    await updateProgress(30);
+    await checkpoint('download', 0.6);
     const audioPath = path.join(tempDir, 'audio.mp3');
     await downloadToFile(audioUrl, audioPath);
 
     // 3) Download captions (VTT or SRT)
     console.log('📥 Downloading captions...');
-    await updateProgress(40);
+    await checkpoint('download', 0.8);
     const isVtt = captionsUrl.toLowerCase().endsWith('.vtt');
     const vttPath = path.join(tempDir, 'captions.vtt');
     const srtPath = path.join(tempDir, 'captions.srt');
@@ -198,19 +324,46 @@ async function renderVideo(
       await downloadToFile(captionsUrl, vttPath);
       // Convert VTT → SRT for libass
       console.log('🔄 Converting VTT → SRT...');
-      await updateProgress(45);
-      await runFFmpegWithLogs(['-y', '-i', vttPath, srtPath]);
+      await checkpoint('download', 0.9);
+      await runFFmpegWithLogs(['-y', '-i', vttPath, srtPath], undefined, 'vtt-to-srt', job);
     } else {
       // Already SRT
       await downloadToFile(captionsUrl, srtPath);
     }
 
+    const captionFont = await resolveCaptionFont(fontStyle);
+    console.log(`[render] Caption font: ${captionFont.family}${captionFont.bundled ? '' : ' (system)'}`);
+
+    // 3b) Word-level caption styles burn an ASS script built from the word timings
+    let assPath: string | null = null;
+    if (captionStyle !== 'static') {
+      try {
+        const res = await fetch(captionWordsUrl(captionsUrl));
+        if (!res.ok) throw new Error(`word timings download failed (${res.status})`);
+        const { words } = await res.json();
+        assPath = path.join(tempDir, 'captions.ass');
+        await fs.promises.writeFile(assPath, buildKaraokeAss(groupCaptionCues(words), captionStyle, {
+          width,
+          height,
+          fontName: captionFont.family,
+          bold: captionFont.bold,
+          marginV: Math.round(height * profile.captionMargin)
+        }), 'utf8');
+        console.log(`🎤 Built ${captionStyle} ASS captions from ${words.length} word timings`);
+      } catch (e) {
+        console.warn(`[render] ${captionStyle} captions unavailable, falling back to static SRT:`, e);
+        assPath = null;
+      }
+    }
+
     // 4) Build images.txt for concat
     console.log('📝 Creating images.txt...');
-    await updateProgress(50);
+    await checkpoint('clips');
     const imagesTxt = path.join(tempDir, 'images.txt');
     const audioDuration = await getAudioDurationSec(audioPath);
-    await writeImagesTxt(localImages, imagesTxt, audioDuration);
+    const durations = imageDurations(localImages.length, audioDuration, sceneDurations);
+    if (sceneDurations) console.log('[render] Using per-scene narration timings');
+    await writeImagesTxt(localImages, imagesTxt, audioDuration, durations);
 
     // 5) Harden input validation
     await assertFilesExist([audioPath, srtPath, imagesTxt, ...localImages]);
@@ -229,107 +382,256 @@ async function renderVideo(
     const imagesTxtPreview = await fs.promises.readFile(imagesTxt, 'utf8');
     console.log('[render] images.txt content:\n', imagesTxtPreview.split('\n').slice(0,10).join('\n'));
 
-    // 7) Ken Burns motion processing (optional)
-    const videoFromImagesPath = path.join(tempDir, 'slideshow.mp4');
-    let useKenBurns = ENABLE_KB;
+    // Captions and music are added in the final encode, whichever strategy renders the scenes
+    // Build subtitles filter with proper Windows path escaping
+    const srt = toFilterPath(srtPath); // absolute path with proper escaping
+    const fontsDir = toFilterPath(captionFont.dir); // bundled fonts, or the OS fonts as a fallback
+    const subtitlesStyle = `Fontname=${captionFont.family},` +
+      `Bold=${captionFont.bold ? 1 : 0},` +
+      "FontSize=20," + // Reduced from 16 for better proportion
+      "Outline=1," + // Thinner outline for cleaner look
+      "Shadow=0," +
+      "BorderStyle=1," + // No opaque box - transparent background
+      "BackColour=&H00000000," + // Fully transparent background
+      "PrimaryColour=&H00FFFFFF," + // White text
+      "Alignment=2," + // Bottom-center alignment (will alternate per scene)
+      `MarginV=${Math.round(SRT_PLAY_RES_Y * profile.captionMargin)},` + // Profile-specific distance from bottom (mobile UI safe area on vertical)
+      "MarginL=20," + // Left margin for mobile safety
+      "MarginR=20," + // Right margin for mobile safety
+      "WrapStyle=2"; // Smart wrapping for better line breaks
     
-    if (useKenBurns) {
+    // ASS captions carry their own styles, so force_style only applies to the SRT
+    const vf = assPath
+      ? `subtitles='${toFilterPath(assPath)}':fontsdir='${fontsDir}'`
+      : `subtitles='${srt}':fontsdir='${fontsDir}':force_style='${subtitlesStyle}'`;
+
+    // Optional music bed; a missing or broken track never fails the render
+    let musicPath: string | null = null;
+    if (music) {
       try {
-        console.log('🎬 Rendering Ken Burns motion clips...');
-        await updateProgress(65);
-        
-        // 7a) Render per-image motion clips
-        const clipPaths: string[] = [];
-        const perImageSec = Math.max(KB_MIN_SEC, audioDuration / localImages.length);
-        for (let i = 0; i < localImages.length; i++) {
-          const img = localImages[i];
-          const clip = path.join(tempDir, `kb-${String(i+1).padStart(2,'0')}.mp4`);
-          const dir: ('in'|'out'|'panL'|'panR')[] = ['in','out','panL','panR'];
-          const direction = dir[i % dir.length];
-          
-          console.log(`[kenburns] Rendering scene ${i+1}/${localImages.length} with ${direction} motion...`);
-          await renderKenBurnsClip({
-            imagePath: img,
-            outPath: clip,
-            width: 1080,
-            height: 1920,
-            fps: KB_FPS,
-            seconds: perImageSec,
-            maxZoom: KB_MAX_ZOOM,
-            direction
-          });
-          clipPaths.push(clip);
-        }
+        musicPath = await prepareMusicFile(music, tempDir);
+        console.log(`🎵 Mixing background music (${music.source}: ${music.track})`);
+      } catch (e) {
+        console.warn('[render] background music unavailable, rendering narration only:', e);
+      }
+    }
 
-        // 7b) Concat the motion clips into one video (demuxer)
-        console.log('🎬 Concatenating motion clips...');
-        await updateProgress(70);
-        const concatList = path.join(tempDir, 'kb-list.txt');
-        await fs.promises.writeFile(
-          concatList,
-          clipPaths.map(p => `file '${toFFPath(p)}'`).join('\n') + '\n',
-          'utf8'
-        );
-
-        // concat → slideshow.mp4 (no audio yet)
-        await runFFmpegWithLogs([
-          '-y',
-          '-f','concat','-safe','0',
-          '-i', toFFPath(concatList),
-          '-c','copy',
-          toFFPath(videoFromImagesPath)
-        ], undefined, 'kenburns-concat');
-        
-        console.log('✅ Ken Burns motion clips rendered successfully');
+    // 7) Transitions: theme style with per-scene overrides; cuts keep the plain concat path
+    const transitions = resolveTransitions(durations, transitionStyle, sceneTransitions ?? []);
+    const useTransitions = transitions.some(t => t.seconds > 0);
+    // Clips overlap during transitions, so each one runs long by its outgoing transition
+    const clipSeconds = useTransitions ? clipSecondsWithTransitions(durations, transitions) : durations;
+    if (useTransitions) console.log(`[render] Transitions: ${transitions.map(t => t.style).join(', ')}`);
+
+    // 7a) Per-scene clips: Ken Burns motion (optional), or stills when transitions need clips
+    const videoFromImagesPath = path.join(tempDir, 'slideshow.mp4');
+    let clipPaths: string[] = [];
+    const totalClipSeconds = clipSeconds.reduce((a, b) => a + b, 0);
+    // Clips encode side by side, so progress is the sum of what each has encoded
+    const clipEncoded = new Array<number>(clipSeconds.length).fill(0);
+    const trackClip = (i: number) => (outTimeSec: number) => {
+      clipEncoded[i] = Math.min(outTimeSec, clipSeconds[i]);
+      if (totalClipSeconds > 0) void progress?.set('clips', clipEncoded.reduce((a, b) => a + b, 0) / totalClipSeconds);
+    };
 
+    // Camera move per scene: the storyboard's choice, else the default rotation when Ken Burns is on
+    const motions = localImages.map((_, i) => sceneMotions?.[i] ?? (ENABLE_KB ? defaultSceneMotion(i) : null));
+    const useMotion = motions.some(m => m && m.type !== 'static');
+
+    // Clip cache keys, by scene; a scene whose key is cached skips its encode
+    const imageHashes = clipCache && !singlePass && (useMotion || useTransitions) ? await Promise.all(localImages.map(hashFile)) : [];
+    const clipKeys: string[] = [];
+    const renderClip = async (i: number, motion: string, render: (outPath: string) => Promise<void>) => {
+      const name = `${motion === 'still' ? 'still' : 'kb'}-${String(i+1).padStart(2,'0')}.mp4`;
+      if (!clipCache) {
+        const clip = path.join(tempDir, name);
+        await render(clip);
+        return clip;
+      }
+      const key = clipCacheKey({
+        imageHash: imageHashes[i],
+        seconds: clipSeconds[i],
+        motion,
+        profileId: profile.id,
+        width,
+        height,
+        fps: KB_FPS,
+        maxZoom: KB_MAX_ZOOM
+      });
+      let clip = await findCachedClip(clipCache, key);
+      if (clip) {
+        console.log(`[clips] Scene ${i+1} unchanged, reusing cached clip`);
+        trackClip(i)(clipSeconds[i]);
+      } else {
+        const rendered = path.join(tempDir, name);
+        await render(rendered);
+        clip = await storeClip(clipCache, key, rendered);
+      }
+      clipKeys.push(key);
+      return clip;
+    };
+
+    const stillClip = (i: number) => renderClip(i, 'still', clip => renderStillClip({
+      imagePath: localImages[i],
+      outPath: clip,
+      width,
+      height,
+      fps: KB_FPS,
+      seconds: clipSeconds[i],
+      job,
+      onProgress: trackClip(i)
+    }));
+
+    const concurrency = clipConcurrency();
+    // Single-pass renders the scenes inside the final encode instead
+    if (useMotion && !singlePass) {
+      try {
+        console.log(`🎬 Rendering Ken Burns motion clips (${concurrency} at a time)...`);
+        await checkpoint('clips');
+        
+        clipPaths = await mapWithConcurrency(localImages, concurrency, async (img, i) => {
+          const motion = motions[i];
+          if (!motion || motion.type === 'static') return stillClip(i);
+          try {
+            return await renderClip(i, describeSceneMotion(motion), async clip => {
+              console.log(`[kenburns] Rendering scene ${i+1}/${localImages.length} with ${describeSceneMotion(motion)} motion...`);
+              await renderKenBurnsClip({
+                imagePath: img,
+                outPath: clip,
+                width,
+                height,
+                fps: KB_FPS,
+                seconds: clipSeconds[i],
+                maxZoom: KB_MAX_ZOOM,
+                motion,
+                job,
+                onProgress: trackClip(i)
+              });
+            });
+          } catch (e) {
+            job?.throwIfCancelled();
+            // Only this scene loses its motion
+            console.warn(`[kenburns] Scene ${i+1} failed, using a still clip for it:`, e);
+            clipEncoded[i] = 0;
+            return stillClip(i);
+          }
+        });
       } catch (e) {
         console.warn('[kenburns] falling back to static images due to error:', e);
-        // FALLBACK to existing static path
-        useKenBurns = false;
+        clipPaths = [];
+        clipKeys.length = 0;
       }
     }
 
-    if (!useKenBurns) {
+    if (!clipPaths.length && useTransitions && !singlePass) {
+      try {
+        console.log(`🎬 Rendering still clips for transitions (${concurrency} at a time)...`);
+        await checkpoint('clips');
+        clipEncoded.fill(0);
+        clipPaths = await mapWithConcurrency(localImages, concurrency, (_img, i) => stillClip(i));
+      } catch (e) {
+        console.warn('[transitions] still clips failed, falling back to hard cuts:', e);
+        clipPaths = [];
+        clipKeys.length = 0;
+      }
+    }
+
+    // Clips from scenes that were edited or removed since the last render
+    if (clipCache && clipKeys.length) {
+      const pruned = await pruneClipCache(clipCache, clipKeys);
+      if (pruned) console.log(`[clips] Pruned ${pruned} stale cached clip(s)`);
+    }
+
+    // 7b) Join the clips into one video (no audio yet)
+    // Transitions overlap the clips, so the joined video is as long as the scenes
+    const slideshowSeconds = durations.reduce((a, b) => a + b, 0);
+    let joined = false;
+    if (clipPaths.length) {
+      try {
+        await checkpoint('join');
+        if (useTransitions) {
+          console.log('🎬 Joining clips with transitions...');
+          await runFFmpegWithLogs([
+            '-y',
+            ...clipPaths.flatMap(p => ['-i', toFFPath(p)]),
+            '-filter_complex', buildTransitionGraph(clipSeconds, transitions, KB_FPS),
+            '-map', '[vout]',
+            '-c:v','libx264','-preset','fast','-crf','20','-pix_fmt','yuv420p',
+            toFFPath(videoFromImagesPath)
+          ], undefined, 'transitions', job, track('join', slideshowSeconds));
+        } else {
+          console.log('🎬 Concatenating motion clips...');
+          const concatList = path.join(tempDir, 'kb-list.txt');
+          await fs.promises.writeFile(
+            concatList,
+            clipPaths.map(p => `file '${toFFPath(p)}'`).join('\n') + '\n',
+            'utf8'
+          );
+
+          // concat → slideshow.mp4 (no audio yet)
+          await runFFmpegWithLogs([
+            '-y',
+            '-f','concat','-safe','0',
+            '-i', toFFPath(concatList),
+            '-c','copy',
+            toFFPath(videoFromImagesPath)
+          ], undefined, 'kenburns-concat', job, track('join', slideshowSeconds));
+        }
+        joined = true;
+        console.log('✅ Scene clips joined successfully');
+      } catch (e) {
+        console.warn('[render] joining clips failed, falling back to static images:', e);
+      }
+    }
+
+    if (!joined && !singlePass) {
       // Static images flow - build slideshow.mp4 using existing concat demuxer
       console.log('🎬 Using static images (no motion)...');
-      await updateProgress(65);
+      await checkpoint('join');
       await runFFmpegWithLogs([
         '-y',
         '-f','concat','-safe','0',
         '-i', toFFPath(imagesTxt),
+        // Cover-crop every image to the profile frame
+        '-vf', `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`,
         '-c:v','libx264','-preset','fast','-crf','23',
         toFFPath(videoFromImagesPath)
-      ], undefined, 'static-images');
+      ], undefined, 'static-images', job, track('join', slideshowSeconds));
     }
 
     // 8) Run FFmpeg with enhanced args + logging
-    console.log('🎬 Running FFmpeg with enhanced Windows support...');
-    await updateProgress(75);
-    
-    // Build subtitles filter with proper Windows path escaping
-    const srt = toFilterPath(srtPath); // absolute path with proper escaping
-    const fontsDir = 'C\\:/Windows/Fonts'; // Windows fonts directory
-    const subtitlesStyle = "FontSize=20," + // Reduced from 16 for better proportion
-      "Outline=1," + // Thinner outline for cleaner look
-      "Shadow=0," +
-      "BorderStyle=1," + // No opaque box - transparent background
-      "BackColour=&H00000000," + // Fully transparent background
-      "PrimaryColour=&H00FFFFFF," + // White text
-      "Alignment=2," + // Bottom-center alignment (will alternate per scene)
-      "MarginV=80," + // Increased distance from bottom for mobile safety
-      "MarginL=20," + // Left margin for mobile safety
-      "MarginR=20," + // Right margin for mobile safety
-      "WrapStyle=2"; // Smart wrapping for better line breaks
-    
-    const vf = `subtitles='${srt}':fontsdir='${fontsDir}':force_style='${subtitlesStyle}'`;
+    console.log(singlePass ? '🎬 Rendering scenes, captions and audio in one pass...' : '🎬 Running FFmpeg with enhanced Windows support...');
+    await checkpoint(singlePass ? 'encode' : 'final');
+
+    // Video source: the joined slideshow, or the images themselves for single-pass
+    const scenes = singlePass
+      ? buildSinglePassScenes({
+          images: localImages.map(p => toFFPath(path.resolve(p))),
+          clipSeconds,
+          transitions,
+          width,
+          height,
+          fps: KB_FPS,
+          motion: useMotion ? { maxZoom: KB_MAX_ZOOM, motions: motions.map(m => m ?? { type: 'static' }) } : undefined
+        })
+      : { inputs: ['-i', toFFPath(videoFromImagesPath)], graph: null };
+    const audioInput = singlePass ? localImages.length : 1;
+    const videoGraph = scenes.graph ? `${scenes.graph};[vout]${vf}[vsub]` : `[0:v]${vf}[vsub]`;
 
     // Build ffmpeg args array with proper Windows path handling
     const args = [
       '-y',
       '-nostdin', // prevents blocking in some shells
-      '-i', toFFPath(videoFromImagesPath), // Use the slideshow video (motion or static)
+      ...scenes.inputs,
       '-i', toFFPath(audioPath),
-      '-vf', vf,
+      ...(music && musicPath
+        ? [
+            // Loop the music so short tracks cover the whole narration; the graph trims it
+            '-stream_loop', '-1', '-i', toFFPath(musicPath),
+            '-filter_complex', `${videoGraph};${buildMusicMixGraph(`${audioInput}:a`, `${audioInput + 1}:a`, audioDuration, music)}`,
+            '-map', '[vsub]', '-map', '[aout]',
+          ]
+        : ['-filter_complex', videoGraph, '-map', '[vsub]', '-map', `${audioInput}:a`]),
       '-c:v','libx264','-profile:v','high','-preset','medium','-crf','23',
       '-c:a','aac','-b:a','192k',
       '-shortest',
@@ -344,7 +646,13 @@ async function renderVideo(
 
     console.log('🔧 Enhanced FFmpeg args:', args);
     console.log('🔧 Video filter string:', vf);
-    await runFFmpegWithLogs(args, undefined, 'final-render');
+    await runFFmpegWithLogs(
+      args,
+      undefined,
+      singlePass ? 'single-pass' : 'final-render',
+      job,
+      track(singlePass ? 'encode' : 'final', audioDuration)
+    );
 
     // Verify output exists
     await fs.promises.access(outputPath, fs.constants.R_OK);
@@ -372,26 +680,74 @@ async function renderVideo(
     });
     
     console.log(`✅ Video rendered successfully: ${duration}s`);
-    await updateProgress(80);
+    await checkpoint(singlePass ? 'encode' : 'final', 1);
+    const timings = timer.finish();
+    console.log(`[render:bench] ${strategy}: ${(timings.wallMs / 1000).toFixed(1)}s`, timings.stageMs);
     
     return {
       duration,
-      filePath: outputPath
+      filePath: outputPath,
+      timings
     };
     
   } catch (error) {
+    if (job?.signal.aborted) throw renderCancelledError(videoId);
     console.error('❌ Video rendering failed:', error);
     throw error;
   }
 }
 
+type RunPatch = Record<string, unknown> & { render_id: string };
+
+function dedupedRender(video: VideoRow) {
+  return NextResponse.json({ ok: true, status: 'rendering', render_id: video.render_id ?? null, deduplicated: true }, { status: 202 });
+}
+
+// The row is `rendering` but its run stopped heartbeating (its process died): hand it to a new run
+async function takeOverStaleRender(supabase: ReturnType<typeof sbServer>, video: VideoRow, patch: RunPatch) {
+  const update = supabase.from('videos').update(patch).eq('id', video.id).eq('status', 'rendering');
+  const { data, error } = await (video.render_id ? update.eq('render_id', video.render_id) : update.is('render_id', null)).select('id');
+  if (error) throw new Error(error.message);
+  if (!data?.length) {
+    throw Object.assign(new Error(`Render of ${video.id} changed during the takeover`), { code: 'status_conflict' });
+  }
+  console.warn(`[render] Took over stale render ${video.render_id ?? 'unknown'} of ${video.id} as ${patch.render_id}`);
+  notifyVideoChanged(video.id);
+}
+
+async function beatRender(supabase: ReturnType<typeof sbServer>, videoId: string, renderId: string) {
+  const { error } = await supabase
+    .from('videos')
+    .update({ render_heartbeat_at: new Date().toISOString() })
+    .eq('id', videoId)
+    .eq('render_id', renderId);
+  if (error) console.warn('[render] Heartbeat failed:', error.message);
+}
+
+// Another run took the row over after this one looked dead; it must not write the outcome
+async function renderSuperseded(supabase: ReturnType<typeof sbServer>, videoId: string, renderId: string): Promise<boolean> {
+  const { data } = await supabase.from('videos').select('render_id').eq('id', videoId).maybeSingle();
+  return !!data && data.render_id !== renderId;
+}
+
 export async function POST(req: NextRequest) {
   let videoId: string | undefined;
+  let renderId: string | undefined;
+  let job: RenderJob | undefined;
+  let progress: RenderProgress | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
   try {
     const body = await req.json();
     videoId = body?.videoId;
     if (!videoId) return NextResponse.json({ ok: false, error: 'missing_videoId' }, { status: 400 });
 
+    let idempotencyKey: string | null;
+    try {
+      idempotencyKey = idempotencyKeyFrom(req.headers, body);
+    } catch (e) {
+      return NextResponse.json({ ok: false, error: 'invalid_idempotency_key', details: toErr(e).message }, { status: 400 });
+    }
+
     const supabase = sbServer();
     const { data: v, error: fetchError } = await supabase
       .from('videos')
@@ -407,24 +763,128 @@ export async function POST(req: NextRequest) {
 
     // Strict gating: only render if assets are fully generated
     const imgs = Array.isArray(video.image_urls) ? video.image_urls : [];
-    const ready = video.status === 'assets_generated' && imgs.length > 0 && !!video.audio_url && !!video.captions_url;
+    const ready = imgs.length > 0 && !!video.audio_url && !!video.captions_url;
     if (!ready) {
       return NextResponse.json({ ok: false, error: 'assets_not_ready' }, { status: 409 });
     }
 
+    // An export can pick a different profile than the one the project was created with
+    if (body?.renderProfile !== undefined && !getRenderProfileById(body.renderProfile)) {
+      return NextResponse.json({ ok: false, error: 'invalid_render_profile' }, { status: 400 });
+    }
+    const profile = getRenderProfileById(body?.renderProfile ?? video.render_profile) ?? getDefaultRenderProfile();
+    if (body?.renderStrategy !== undefined && !isRenderStrategy(body.renderStrategy)) {
+      return NextResponse.json({ ok: false, error: 'invalid_render_strategy' }, { status: 400 });
+    }
+    const strategy: RenderStrategy = body?.renderStrategy ?? getDefaultRenderStrategy();
+
+    const fingerprint = renderFingerprint({
+      storyboardVersion: video.storyboard_version ?? null,
+      storyboard: video.storyboard_json ?? null,
+      imageUrls: imgs,
+      audioUrl: video.audio_url!,
+      captionsUrl: video.captions_url!,
+      captionStyle: video.caption_style ?? null,
+      profileId: profile.id,
+      theme: video.theme ?? null,
+      music: video.background_music ?? null,
+    });
+
+    // A key names one render request; reusing it for different inputs is a client bug
+    if (idempotencyKey && video.render_idempotency_key === idempotencyKey && video.render_fingerprint !== fingerprint) {
+      return NextResponse.json({ ok: false, error: 'idempotency_key_reused' }, { status: 422 });
+    }
+
+    // Same storyboard and assets already rendering: answer with that run instead of starting another
+    if (video.status === 'rendering' && !isRenderStale(video.render_heartbeat_at)) {
+      if (video.render_fingerprint === fingerprint) return dedupedRender(video);
+      return NextResponse.json({ ok: false, error: 'render_in_progress', render_id: video.render_id ?? null }, { status: 409 });
+    }
+
+    // Replaying the key of a finished render returns its result
+    if (idempotencyKey && video.status === 'completed' && video.render_idempotency_key === idempotencyKey && video.final_video_url) {
+      return NextResponse.json({
+        ok: true,
+        status: 'completed',
+        final_video_url: video.final_video_url,
+        render_id: video.render_id ?? null,
+        deduplicated: true
+      });
+    }
+
+    // Renders start from assets_generated, or retry after a failure, a cancel or a finished render
+    if (video.status !== 'rendering' && !canTransition(video.status, 'rendering')) {
+      return NextResponse.json({ ok: false, error: `invalid_status:${video.status}` }, { status: 409 });
+    }
+
     // Move to rendering with progress
-    await safeUpdate(supabase, videoId, { status: 'rendering', progress: 10, error_message: null });
+    renderId = randomUUID();
+    const runPatch: RunPatch = {
+      progress: 10,
+      render_progress: 0,
+      render_stage: null,
+      render_eta_sec: null,
+      error_message: null,
+      // The project keeps its own profile; a one-off export only records what it used
+      last_render_profile: profile.id,
+      render_id: renderId,
+      render_fingerprint: fingerprint,
+      render_idempotency_key: idempotencyKey,
+      render_heartbeat_at: new Date().toISOString()
+    };
+    try {
+      if (video.status === 'rendering') await takeOverStaleRender(supabase, video, runPatch);
+      else await VideoService.setStatus(videoId, 'rendering', runPatch, `render started (${profile.id})`);
+    } catch (e) {
+      // Another request started a render (or moved the video on) since the check above
+      if (isIllegalTransition(e) || (e as { code?: string }).code === 'status_conflict') {
+        const { data: latest } = await supabase.from('videos').select('*').eq('id', videoId).maybeSingle();
+        if (latest?.status === 'rendering' && latest.render_fingerprint === fingerprint) return dedupedRender(latest as VideoRow);
+        return NextResponse.json({ ok: false, error: toErr(e).message }, { status: 409 });
+      }
+      throw e;
+    }
+    console.log(`[render] Render ${renderId} of ${videoId} started${idempotencyKey ? ` (key ${idempotencyKey})` : ''}`);
 
     // Render the video
+    job = startRenderJob(videoId, renderRunDir(videoId, renderId));
+    const id = videoId;
+    const run = renderId;
+    heartbeat = setInterval(() => { void beatRender(supabase, id, run); }, RENDER_HEARTBEAT_MS);
+    progress = createRenderProgress(({ stage, fraction, etaSec }) =>
+      safeUpdate(supabase, id, {
+        progress: Math.round(10 + fraction * 85), // pipeline value: 10 when rendering starts, 100 once saved
+        render_progress: Math.round(fraction * 100),
+        render_stage: stage,
+        render_eta_sec: etaSec,
+      })
+    );
     const renderResult = await renderVideo(
       videoId,
       video.audio_url!,
       video.captions_url!,
-      imgs
+      imgs,
+      {
+        sceneDurations: sceneDurationsFromTimings(video.storyboard_json?.scenes, imgs.length),
+        captionStyle: getCaptionStyleById(video.caption_style)?.id ?? 'static',
+        fontStyle: video.theme ? getThemeById(video.theme)?.fontStyle : undefined,
+        profile,
+        transitionStyle: video.theme ? getThemeById(video.theme)?.transitionStyle : undefined,
+        sceneTransitions: sceneTransitionOverrides(video.storyboard_json?.scenes, imgs.length),
+        sceneMotions: sceneMotionOverrides(video.storyboard_json?.scenes, imgs.length),
+        music: video.background_music,
+        job,
+        progress,
+        // Benchmarks turn the cache off so both strategies encode every scene
+        clipCache: body?.useClipCache === false ? undefined : clipCacheDir(videoId),
+        strategy
+      }
     );
+    if (await renderSuperseded(supabase, videoId, renderId)) throw renderSupersededError(videoId);
 
     // Upload the rendered video
     console.log('📤 Uploading rendered video...');
+    await progress.set('upload', 0, true);
     const videoBuffer = await fs.promises.readFile(renderResult.filePath);
     
     // Use the correct videos bucket with finals path as requested
@@ -451,26 +911,61 @@ export async function POST(req: NextRequest) {
       throw new Error('Failed to generate public URL for uploaded video');
     }
 
+    // A cancel during the upload must not be overwritten with `completed`
+    job.throwIfCancelled();
+    // Flush queued progress writes so none lands after the final status
+    await progress.close();
+    if (await cancelledInDb(supabase, videoId)) throw renderCancelledError(videoId);
+
     // Update database with final video URL and duration (save as integer seconds)
     const durationSeconds = Math.max(1, Math.round(renderResult.duration));
     
     // Store the clean public URL (without download parameter)
     // The download parameter will be handled by the download API endpoint
-    await safeUpdate(supabase, videoId, { 
-      status: 'completed', 
+    await VideoService.setStatus(videoId, 'completed', {
       final_video_url: publicUrl,
       total_duration: durationSeconds, // Save as integer seconds
       progress: 100,
+      render_progress: 100,
+      render_stage: null,
+      render_eta_sec: null,
+      render_heartbeat_at: null,
       error_message: null 
-    });
+    }, `render finished (${durationSeconds}s)`);
 
-    return NextResponse.json({ ok: true, status: 'completed', final_video_url: publicUrl });
+    // The upload is the only copy that matters now
+    await fs.promises.rm(job.tempDir, { recursive: true, force: true }).catch(() => {});
+
+    return NextResponse.json({ ok: true, status: 'completed', final_video_url: publicUrl, render_id: renderId, timings: renderResult.timings });
   } catch (e) {
     const err = toErr(e);
+    await progress?.close();
+    // The cancel endpoint already recorded the status; just make sure nothing is left behind
+    if (isRenderCancelled(e) || job?.signal.aborted) {
+      console.log(`[render] Render ${videoId} stopped: cancelled by user`);
+      if (job) await fs.promises.rm(job.tempDir, { recursive: true, force: true }).catch(() => {});
+      return NextResponse.json({ ok: false, error: 'cancelled_by_user' }, { status: 409 });
+    }
+    // The row belongs to a newer run now; leave its status alone
+    if (isRenderSuperseded(e)) {
+      console.warn(`[render] Render ${renderId} of ${videoId} was superseded by another run`);
+      if (job) await fs.promises.rm(job.tempDir, { recursive: true, force: true }).catch(() => {});
+      return NextResponse.json({ ok: false, error: 'render_superseded' }, { status: 409 });
+    }
     if (videoId) {
-      const supabase = sbServer();
-      await safeUpdate(supabase, videoId, { status: 'render_failed', error_message: err.message.slice(0, 900) });
+      try {
+        if (renderId && await renderSuperseded(sbServer(), videoId, renderId)) {
+          console.warn(`[render] Not recording failure of superseded render ${renderId}`);
+        } else {
+          await VideoService.setStatus(videoId, 'render_failed', { error_message: err.message.slice(0, 900), render_eta_sec: null, render_heartbeat_at: null }, err.message.slice(0, 200));
+        }
+      } catch (statusErr) {
+        console.warn('[render] Failed to record render_failed:', toErr(statusErr).message);
+      }
     }
     return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  } finally {
+    if (heartbeat) clearInterval(heartbeat);
+    if (job) finishRenderJob(job);
   }
-} 
\ No newline at end of file
+}
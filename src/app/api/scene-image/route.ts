@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService, sbServer } from '@/lib/supabase-server';
 import { softenImagePrompt, addSafePrefix, isContentPolicyViolation } from '@/lib/safety';
+import { getImageProvider } from '@/lib/providers/image';
+import { getRenderProfileById, getDefaultRenderProfile } from '@/lib/render-profiles';
+import { sceneImagePath } from '@/lib/storyboard-scenes';
 
 export const dynamic = 'force-dynamic';
 
@@ -57,69 +60,9 @@ async function rotateImage180(imageBuffer: Buffer): Promise<Buffer> {
   return imageBuffer;
 }
 
-async function generateImageBufferForPrompt(prompt: string): Promise<Buffer> {
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) throw new Error('OpenAI API key not configured');
-
-  console.log(`🎨 Generating image for prompt: ${prompt.substring(0, 50)}...`);
-
-  // Log the exact prompt for debugging (but don't expose to user if sensitive)
-  console.log(`[DEBUG] Full prompt sent to OpenAI: ${prompt}`);
-
-  const response = await fetch('https://api.openai.com/v1/images/generations', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'dall-e-3',
-      prompt: `${prompt} Cinematic vertical composition, 1080x1920, high quality, detailed`,
-      n: 1,
-      size: '1024x1792',
-      quality: 'standard',
-      response_format: 'b64_json',
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorData;
-    
-    try {
-      errorData = JSON.parse(errorText);
-    } catch {
-      errorData = { error: { message: errorText } };
-    }
-
-    // Check for content policy violations
-    if (errorData.error?.code === 'content_policy_violation' || 
-        errorData.error?.message?.includes('content_policy_violation') ||
-        errorData.error?.message?.includes('blocked by our content filters') ||
-        errorData.error?.message?.includes('inappropriate content') ||
-        errorData.error?.message?.includes('violates our content policy')) {
-      
-      const policyError = new Error('Content policy violation');
-      (policyError as any).code = 'content_policy_violation';
-      (policyError as any).originalPrompt = prompt;
-      (policyError as any).apiError = errorData;
-      throw policyError;
-    }
-
-    throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-  }
-
-  const data = await response.json();
-  const base64Data = data.data[0].b64_json;
-  
-  if (!base64Data) throw new Error('No image data received from OpenAI');
-  
-  return Buffer.from(base64Data, 'base64');
-}
-
-async function uploadImageAndGetPublicURL(videoId: string, sceneIndex: number, buf: Buffer): Promise<string> {
+async function uploadImageAndGetPublicURL(videoId: string, scene: unknown, sceneIndex: number, buf: Buffer): Promise<string> {
   const supabase = sbServer();
-  const path = `videos/${videoId}/images/scene-${sceneIndex + 1}.jpg`;
+  const path = sceneImagePath(videoId, scene, sceneIndex);
   
   const { error: uploadError } = await supabase.storage
     .from('renders-images')
@@ -174,9 +117,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No image prompt found for scene' }, { status: 400 });
     }
 
+    const imageProvider = getImageProvider(video.image_provider, getRenderProfileById(video.render_profile) ?? getDefaultRenderProfile());
+    console.log(`🎨 Generating image via ${imageProvider.name} for prompt: ${imagePrompt.substring(0, 50)}...`);
+
     try {
       // Generate new image
-      const imageBuffer = await generateImageBufferForPrompt(imagePrompt);
+      const imageBuffer = await imageProvider.generate(imagePrompt);
       
       // Check and fix image orientation if needed
       const { buffer: finalBuffer, wasFixed, message } = await detectAndFixImageOrientation(imageBuffer);
@@ -185,7 +131,7 @@ export async function POST(request: NextRequest) {
         console.log('🔄 Image orientation was corrected:', message);
       }
       
-      const imageUrl = await uploadImageAndGetPublicURL(id, index, finalBuffer);
+      const imageUrl = await uploadImageAndGetPublicURL(id, scene, index, finalBuffer);
 
       // Update image_urls array
       const currentImageUrls = Array.isArray(video.image_urls) ? [...video.image_urls] : [];
@@ -235,10 +181,10 @@ export async function POST(request: NextRequest) {
           console.log('🔄 Attempting with softened prompt:', softenedPrompt.substring(0, 50));
           
           try {
-            const softenedBuffer = await generateImageBufferForPrompt(addSafePrefix(softenedPrompt));
+            const softenedBuffer = await imageProvider.generate(addSafePrefix(softenedPrompt));
             const { buffer: finalBuffer, wasFixed, message } = await detectAndFixImageOrientation(softenedBuffer);
             
-            const imageUrl = await uploadImageAndGetPublicURL(id, index, finalBuffer);
+            const imageUrl = await uploadImageAndGetPublicURL(id, scene, index, finalBuffer);
 
             // Update image_urls array
             const currentImageUrls = Array.isArray(video.image_urls) ? [...video.image_urls] : [];
@@ -1,22 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService, sbServer } from '@/lib/supabase-server';
+import { expectedStoryboardVersion, saveStoryboardEdit, staleEditResponse } from '@/lib/storyboard-version';
+import { revisionAuthor } from '@/lib/storyboard-revisions';
+import { findSceneIndex, layoutSceneAssets, withSceneIds } from '@/lib/storyboard-scenes';
 
 export const dynamic = 'force-dynamic';
 
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { id, index } = body;
+    const { id, scene_id, index } = body;
 
     if (!id || typeof id !== 'string') {
       return NextResponse.json({ error: 'Missing or invalid video ID' }, { status: 400 });
     }
 
-    if (typeof index !== 'number' || index < 0) {
-      return NextResponse.json({ error: 'Missing or invalid scene index' }, { status: 400 });
+    const expectedVersion = expectedStoryboardVersion(body);
+    if (expectedVersion === null) {
+      return NextResponse.json({ error: 'Missing or invalid storyboard_version' }, { status: 400 });
     }
 
-    console.log('🗑️ Deleting scene for video:', id, 'index:', index);
+    if (typeof scene_id !== 'string' && (typeof index !== 'number' || index < 0)) {
+      return NextResponse.json({ error: 'Missing or invalid scene_id or index' }, { status: 400 });
+    }
+
+    console.log('🗑️ Deleting scene for video:', id, 'scene:', scene_id ?? index);
 
     // Get current video
     const video = await VideoService.getById(id);
@@ -24,16 +32,21 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Video not found' }, { status: 404 });
     }
 
+    const stale = staleEditResponse(video, expectedVersion);
+    if (stale) return stale;
+
     // Verify video has a storyboard
     if (!video.storyboard_json || !video.storyboard_json.scenes) {
       return NextResponse.json({ error: 'No storyboard found' }, { status: 400 });
     }
 
-    const scenes = [...video.storyboard_json.scenes];
-    
-    // Validate scene index
-    if (index >= scenes.length) {
-      return NextResponse.json({ error: 'Invalid scene index' }, { status: 400 });
+    const currentScenes = withSceneIds(video.storyboard_json.scenes);
+    const scenes = [...currentScenes];
+    const sceneIndex = findSceneIndex(scenes, { scene_id, index });
+
+    // Validate scene reference
+    if (sceneIndex < 0) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 400 });
     }
 
     // Don't allow deleting if only one scene remains
@@ -41,21 +54,9 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Cannot delete the last remaining scene' }, { status: 400 });
     }
 
-    // Remove the scene
-    scenes.splice(index, 1);
-
-    // Update dirty scenes array - remove references to deleted scene and adjust indices
-    const currentDirtyScenes = Array.isArray(video.dirty_scenes) ? video.dirty_scenes : [];
-    const updatedDirtyScenes = currentDirtyScenes
-      .filter((dirtyIndex: number) => dirtyIndex !== index) // Remove the deleted scene index
-      .map((dirtyIndex: number) => dirtyIndex > index ? dirtyIndex - 1 : dirtyIndex); // Shift indices down
-
-    // Also need to handle image_urls array if it exists
-    let updatedImageUrls = video.image_urls;
-    if (Array.isArray(video.image_urls) && video.image_urls.length > index) {
-      updatedImageUrls = [...video.image_urls];
-      updatedImageUrls.splice(index, 1);
-    }
+    // Remove the scene; the others keep their images and dirty flags
+    scenes.splice(sceneIndex, 1);
+    const layout = layoutSceneAssets(video, currentScenes, scenes);
 
     // Update storyboard
     const updatedStoryboard = {
@@ -63,30 +64,18 @@ export async function PATCH(request: NextRequest) {
       scenes
     };
 
-    const updateData: any = {
+    const saved = await saveStoryboardEdit(id, video, {
       storyboard_json: updatedStoryboard,
-      storyboard_version: (video.storyboard_version || 1) + 1,
-      dirty_scenes: updatedDirtyScenes
-    };
-
-    // Update image_urls if it was modified
-    if (updatedImageUrls !== video.image_urls) {
-      updateData.image_urls = updatedImageUrls;
-    }
-
-    const updateResult = await VideoService.updateVideo(id, updateData);
-
-    if (!updateResult.success) {
-      console.error('❌ Failed to delete scene:', updateResult.error);
-      return NextResponse.json({ error: 'Failed to delete scene' }, { status: 500 });
-    }
+      ...layout
+    }, { action: 'delete', author: revisionAuthor(body) });
+    if (saved.conflict) return saved.conflict;
 
     console.log('✅ Scene deleted successfully');
     
     return NextResponse.json({
       success: true,
-      storyboard_version: (video.storyboard_version || 1) + 1,
-      dirty_scenes: updatedDirtyScenes,
+      storyboard_version: saved.version,
+      dirty_scenes: layout.dirty_scenes,
       scenes_count: scenes.length
     });
 
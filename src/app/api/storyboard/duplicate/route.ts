@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService } from '@/lib/supabase-server';
+import { expectedStoryboardVersion, saveStoryboardEdit, staleEditResponse } from '@/lib/storyboard-version';
+import { revisionAuthor } from '@/lib/storyboard-revisions';
+import { findSceneIndex, layoutSceneAssets, newSceneId, withSceneIds, withoutNarration } from '@/lib/storyboard-scenes';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, scene_id, index } = body;
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid video ID' }, { status: 400 });
+    }
+
+    const expectedVersion = expectedStoryboardVersion(body);
+    if (expectedVersion === null) {
+      return NextResponse.json({ error: 'Missing or invalid storyboard_version' }, { status: 400 });
+    }
+
+    if (typeof scene_id !== 'string' && (typeof index !== 'number' || index < 0)) {
+      return NextResponse.json({ error: 'Missing or invalid scene_id or index' }, { status: 400 });
+    }
+
+    console.log('📄 Duplicating scene for video:', id, 'scene:', scene_id ?? index);
+
+    // Get current video
+    const video = await VideoService.getById(id);
+    if (!video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const stale = staleEditResponse(video, expectedVersion);
+    if (stale) return stale;
+
+    // Verify video has a storyboard
+    if (!video.storyboard_json || !video.storyboard_json.scenes) {
+      return NextResponse.json({ error: 'No storyboard found' }, { status: 400 });
+    }
+
+    const currentScenes = withSceneIds(video.storyboard_json.scenes);
+    const sceneIndex = findSceneIndex(currentScenes, { scene_id, index });
+    if (sceneIndex < 0) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 400 });
+    }
+
+    // The copy goes right after the original and gets its own image
+    const copy = { ...withoutNarration(currentScenes[sceneIndex]), id: newSceneId() };
+    const scenes = [...currentScenes];
+    scenes.splice(sceneIndex + 1, 0, copy);
+    const layout = layoutSceneAssets(video, currentScenes, scenes);
+
+    const saved = await saveStoryboardEdit(id, video, {
+      storyboard_json: { ...video.storyboard_json, scenes },
+      ...layout
+    }, { action: 'duplicate', author: revisionAuthor(body) });
+    if (saved.conflict) return saved.conflict;
+
+    console.log('✅ Scene duplicated successfully');
+
+    return NextResponse.json({
+      success: true,
+      scene: copy,
+      storyboard_version: saved.version,
+      dirty_scenes: layout.dirty_scenes,
+      scenes_count: scenes.length
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Error in PATCH /api/storyboard/duplicate:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService } from '@/lib/supabase-server';
+import { expectedStoryboardVersion, saveStoryboardEdit, staleEditResponse } from '@/lib/storyboard-version';
+import { revisionAuthor } from '@/lib/storyboard-revisions';
+import { layoutSceneAssets, newSceneId, withSceneIds } from '@/lib/storyboard-scenes';
+import { writeSceneBetween, type WrittenScene } from '@/lib/scene-writer';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    // generate: true has the LLM write the scene from its neighbours instead
+    const { id, index, description, image_prompt, generate = false } = body;
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid video ID' }, { status: 400 });
+    }
+
+    const expectedVersion = expectedStoryboardVersion(body);
+    if (expectedVersion === null) {
+      return NextResponse.json({ error: 'Missing or invalid storyboard_version' }, { status: 400 });
+    }
+
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0) {
+      return NextResponse.json({ error: 'Missing or invalid scene index' }, { status: 400 });
+    }
+
+    if (!generate && (!description || typeof description !== 'string' || !description.trim())) {
+      return NextResponse.json({ error: 'Missing scene description' }, { status: 400 });
+    }
+
+    if (image_prompt !== undefined && typeof image_prompt !== 'string') {
+      return NextResponse.json({ error: 'Invalid image prompt' }, { status: 400 });
+    }
+
+    console.log('➕ Inserting scene for video:', id, 'at index:', index);
+
+    // Get current video
+    const video = await VideoService.getById(id);
+    if (!video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const stale = staleEditResponse(video, expectedVersion);
+    if (stale) return stale;
+
+    // Verify video has a storyboard
+    if (!video.storyboard_json || !video.storyboard_json.scenes) {
+      return NextResponse.json({ error: 'No storyboard found' }, { status: 400 });
+    }
+
+    const currentScenes = withSceneIds(video.storyboard_json.scenes);
+
+    // Index is the new scene's position; the length appends
+    if (index > currentScenes.length) {
+      return NextResponse.json({ error: 'Invalid scene index' }, { status: 400 });
+    }
+
+    let written: WrittenScene;
+    if (generate) {
+      try {
+        written = await writeSceneBetween(currentScenes[index - 1] ?? null, currentScenes[index] ?? null, video.script_text || video.script);
+      } catch (e) {
+        console.error('❌ Failed to write scene:', e);
+        return NextResponse.json({ error: 'Could not write a scene for this position; try again or enter one yourself' }, { status: 502 });
+      }
+    } else {
+      written = { description: description.trim(), image_prompt: image_prompt?.trim() || description.trim() };
+    }
+
+    const scene = { id: newSceneId(), ...written };
+    const scenes = [...currentScenes];
+    scenes.splice(index, 0, scene);
+
+    // The new scene has no image yet, so it comes back dirty
+    const layout = layoutSceneAssets(video, currentScenes, scenes);
+
+    const updatedStoryboard = {
+      ...video.storyboard_json,
+      scenes
+    };
+
+    const saved = await saveStoryboardEdit(id, video, {
+      storyboard_json: updatedStoryboard,
+      ...layout
+    }, { action: 'insert', author: revisionAuthor(body) });
+    if (saved.conflict) return saved.conflict;
+
+    console.log('✅ Scene inserted successfully');
+
+    return NextResponse.json({
+      success: true,
+      scene,
+      storyboard_version: saved.version,
+      dirty_scenes: layout.dirty_scenes,
+      scenes_count: scenes.length
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Error in PATCH /api/storyboard/insert:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService } from '@/lib/supabase-server';
+import { expectedStoryboardVersion, saveStoryboardEdit, staleEditResponse } from '@/lib/storyboard-version';
+import { revisionAuthor } from '@/lib/storyboard-revisions';
+import { findSceneIndex, layoutSceneAssets, withSceneIds, withoutNarration } from '@/lib/storyboard-scenes';
+
+export const dynamic = 'force-dynamic';
+
+function joinText(a: unknown, b: unknown): string | undefined {
+  const parts = [a, b].filter((t): t is string => typeof t === 'string' && !!t.trim()).map(t => t.trim());
+  return parts.length ? parts.join(' ') : undefined;
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    // Merges the given scene with the one after it
+    const { id, scene_id, index } = body;
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid video ID' }, { status: 400 });
+    }
+
+    const expectedVersion = expectedStoryboardVersion(body);
+    if (expectedVersion === null) {
+      return NextResponse.json({ error: 'Missing or invalid storyboard_version' }, { status: 400 });
+    }
+
+    if (typeof scene_id !== 'string' && (typeof index !== 'number' || index < 0)) {
+      return NextResponse.json({ error: 'Missing or invalid scene_id or index' }, { status: 400 });
+    }
+
+    console.log('🔗 Merging scenes for video:', id, 'scene:', scene_id ?? index);
+
+    // Get current video
+    const video = await VideoService.getById(id);
+    if (!video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const stale = staleEditResponse(video, expectedVersion);
+    if (stale) return stale;
+
+    // Verify video has a storyboard
+    if (!video.storyboard_json || !video.storyboard_json.scenes) {
+      return NextResponse.json({ error: 'No storyboard found' }, { status: 400 });
+    }
+
+    const currentScenes = withSceneIds(video.storyboard_json.scenes);
+    const sceneIndex = findSceneIndex(currentScenes, { scene_id, index });
+    if (sceneIndex < 0) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 400 });
+    }
+
+    if (sceneIndex === currentScenes.length - 1) {
+      return NextResponse.json({ error: 'The last scene has no next scene to merge with' }, { status: 400 });
+    }
+
+    // The merged scene keeps the first scene's id, prompt, transition and motion, and
+    // with the prompt unchanged its image too: only a scene that was dirty stays dirty
+    const [first, next] = [currentScenes[sceneIndex], currentScenes[sceneIndex + 1]];
+    const merged = {
+      ...withoutNarration(first),
+      description: joinText(first.description, next.description) ?? '',
+      narration: joinText(first.narration, next.narration),
+      duration: typeof first.duration === 'number' && typeof next.duration === 'number' ? first.duration + next.duration : first.duration,
+    };
+    const scenes = [...currentScenes];
+    scenes.splice(sceneIndex, 2, merged);
+    const layout = layoutSceneAssets(video, currentScenes, scenes);
+
+    const saved = await saveStoryboardEdit(id, video, {
+      storyboard_json: { ...video.storyboard_json, scenes },
+      ...layout
+    }, { action: 'merge', author: revisionAuthor(body) });
+    if (saved.conflict) return saved.conflict;
+
+    console.log('✅ Scenes merged successfully');
+
+    return NextResponse.json({
+      success: true,
+      scene: merged,
+      storyboard_version: saved.version,
+      dirty_scenes: layout.dirty_scenes,
+      scenes_count: scenes.length
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Error in PATCH /api/storyboard/merge:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 });
+  }
+}
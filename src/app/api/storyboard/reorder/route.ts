@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService, sbServer } from '@/lib/supabase-server';
+import { expectedStoryboardVersion, saveStoryboardEdit, staleEditResponse } from '@/lib/storyboard-version';
+import { revisionAuthor } from '@/lib/storyboard-revisions';
+import { layoutSceneAssets, withSceneIds } from '@/lib/storyboard-scenes';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,7 +15,14 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Missing or invalid video ID' }, { status: 400 });
     }
 
-    if (!Array.isArray(order) || order.some(idx => typeof idx !== 'number' || idx < 0)) {
+    const expectedVersion = expectedStoryboardVersion(body);
+    if (expectedVersion === null) {
+      return NextResponse.json({ error: 'Missing or invalid storyboard_version' }, { status: 400 });
+    }
+
+    // Scene ids in their new order; older clients send the old indices instead
+    const byId = Array.isArray(order) && order.every(ref => typeof ref === 'string');
+    if (!Array.isArray(order) || (!byId && order.some(idx => typeof idx !== 'number' || idx < 0))) {
       return NextResponse.json({ error: 'Invalid order array' }, { status: 400 });
     }
 
@@ -25,12 +35,15 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Video not found' }, { status: 404 });
     }
 
+    const stale = staleEditResponse(video, expectedVersion);
+    if (stale) return stale;
+
     // Verify video has a storyboard
     if (!video.storyboard_json || !video.storyboard_json.scenes) {
       return NextResponse.json({ error: 'No storyboard found' }, { status: 400 });
     }
 
-    const currentScenes = video.storyboard_json.scenes;
+    const currentScenes = withSceneIds(video.storyboard_json.scenes);
     
     // Validate order array matches scene count
     if (order.length !== currentScenes.length) {
@@ -39,20 +52,25 @@ export async function PATCH(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const indices: number[] = byId
+      ? order.map((sceneId: string) => currentScenes.findIndex(scene => scene.id === sceneId))
+      : order;
+
     // Validate all indices are valid
     const maxIndex = currentScenes.length - 1;
-    if (order.some(idx => idx > maxIndex)) {
-      return NextResponse.json({ error: 'Invalid scene indices in order' }, { status: 400 });
+    if (indices.some(idx => idx < 0 || idx > maxIndex)) {
+      return NextResponse.json({ error: byId ? 'Unknown scene ids in order' : 'Invalid scene indices in order' }, { status: 400 });
     }
 
     // Validate no duplicate indices
-    const uniqueOrder = [...new Set(order)];
-    if (uniqueOrder.length !== order.length) {
-      return NextResponse.json({ error: 'Duplicate indices in order' }, { status: 400 });
+    const uniqueOrder = [...new Set(indices)];
+    if (uniqueOrder.length !== indices.length) {
+      return NextResponse.json({ error: 'Duplicate scenes in order' }, { status: 400 });
     }
 
-    // Reorder scenes
-    const reorderedScenes = order.map(index => currentScenes[index]);
+    // Reorder scenes; images and dirty flags move with them
+    const reorderedScenes = indices.map(index => currentScenes[index]);
+    const layout = layoutSceneAssets(video, currentScenes, reorderedScenes);
 
     // Update storyboard with new order and increment version
     const updatedStoryboard = {
@@ -60,21 +78,18 @@ export async function PATCH(request: NextRequest) {
       scenes: reorderedScenes
     };
 
-    const updateResult = await VideoService.updateVideo(id, {
+    const saved = await saveStoryboardEdit(id, video, {
       storyboard_json: updatedStoryboard,
-      storyboard_version: (video.storyboard_version || 1) + 1
-    });
-
-    if (!updateResult.success) {
-      console.error('❌ Failed to reorder scenes:', updateResult.error);
-      return NextResponse.json({ error: 'Failed to reorder scenes' }, { status: 500 });
-    }
+      ...layout
+    }, { action: 'reorder', author: revisionAuthor(body) });
+    if (saved.conflict) return saved.conflict;
 
     console.log('✅ Scenes reordered successfully');
     
     return NextResponse.json({
       success: true,
-      storyboard_version: (video.storyboard_version || 1) + 1
+      storyboard_version: saved.version,
+      dirty_scenes: layout.dirty_scenes
     });
 
   } catch (error: any) {
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService, sbServer } from '@/lib/supabase-server';
+import { expectedStoryboardVersion, saveStoryboardEdit, staleEditResponse, storyboardVersionOf } from '@/lib/storyboard-version';
+import { getRevision, historySteps, listRevisions, restoredStoryboard, revisionAuthor } from '@/lib/storyboard-revisions';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    // Either `revision` (a version to bring back) or `step: 'undo' | 'redo'`
+    const { id, revision, step } = body;
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid video ID' }, { status: 400 });
+    }
+
+    const expectedVersion = expectedStoryboardVersion(body);
+    if (expectedVersion === null) {
+      return NextResponse.json({ error: 'Missing or invalid storyboard_version' }, { status: 400 });
+    }
+
+    if (step !== undefined && step !== 'undo' && step !== 'redo') {
+      return NextResponse.json({ error: 'Invalid step (expected undo or redo)' }, { status: 400 });
+    }
+
+    if (step === undefined && (typeof revision !== 'number' || !Number.isInteger(revision) || revision < 1)) {
+      return NextResponse.json({ error: 'Missing or invalid revision' }, { status: 400 });
+    }
+
+    console.log('⏪ Restoring storyboard for video:', id, step ?? `revision ${revision}`);
+
+    // Get current video
+    const video = await VideoService.getById(id);
+    if (!video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const stale = staleEditResponse(video, expectedVersion);
+    if (stale) return stale;
+
+    const db = sbServer();
+    const targetVersion: number | null = step ? historySteps(await listRevisions(db, id))[step as 'undo' | 'redo'] : revision;
+    if (targetVersion === null) {
+      return NextResponse.json({ error: `Nothing to ${step}` }, { status: 400 });
+    }
+    if (targetVersion === storyboardVersionOf(video)) {
+      return NextResponse.json({ error: 'That revision is the current storyboard' }, { status: 400 });
+    }
+
+    const target = await getRevision(db, id, targetVersion);
+    if (!target) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    const restored = restoredStoryboard(video, target);
+
+    const saved = await saveStoryboardEdit(id, video, { ...restored }, {
+      action: step ?? 'restore',
+      author: revisionAuthor(body),
+      restoredFrom: targetVersion
+    });
+    if (saved.conflict) return saved.conflict;
+
+    console.log('✅ Storyboard restored to revision', targetVersion);
+
+    return NextResponse.json({
+      success: true,
+      restored_from: targetVersion,
+      storyboard_version: saved.version,
+      dirty_scenes: restored.dirty_scenes
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Error in PATCH /api/storyboard/restore:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sbServer } from '@/lib/supabase-server';
+import { diffStoryboards, getRevision, listRevisions } from '@/lib/storyboard-revisions';
+
+export const dynamic = 'force-dynamic';
+
+function versionParam(value: string | null): number | null | undefined {
+  if (value === null) return undefined;
+  const version = Number(value);
+  return Number.isInteger(version) && version >= 1 ? version : null;
+}
+
+/**
+ * Scene changes between two revisions: GET /api/storyboard/revisions/diff?id=...&from=3&to=5.
+ * `to` defaults to the latest revision and `from` to the one before `to`.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const id = params.get('id');
+  const from = versionParam(params.get('from'));
+  const to = versionParam(params.get('to'));
+
+  if (!id) {
+    return NextResponse.json({ error: 'Missing video ID' }, { status: 400 });
+  }
+  if (from === null || to === null) {
+    return NextResponse.json({ error: 'Invalid from or to version' }, { status: 400 });
+  }
+
+  try {
+    const db = sbServer();
+    const versions = (await listRevisions(db, id)).map(r => r.version);
+    const toVersion = to ?? versions[versions.length - 1];
+    if (toVersion === undefined) {
+      return NextResponse.json({ error: 'No revisions found' }, { status: 404 });
+    }
+    const fromVersion = from ?? versions.filter(v => v < toVersion).pop() ?? null;
+
+    const [before, after] = await Promise.all([
+      fromVersion === null ? null : getRevision(db, id, fromVersion),
+      getRevision(db, id, toVersion)
+    ]);
+    if (!after || (fromVersion !== null && !before)) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      from: fromVersion,
+      to: toVersion,
+      changes: diffStoryboards(before?.storyboard_json ?? null, after.storyboard_json)
+    });
+  } catch (error: unknown) {
+    console.error('❌ Error in GET /api/storyboard/revisions/diff:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to diff revisions'
+    }, { status: 500 });
+  }
+}
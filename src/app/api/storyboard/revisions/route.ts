@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService, sbServer } from '@/lib/supabase-server';
+import { storyboardVersionOf } from '@/lib/storyboard-version';
+import { historySteps, listRevisions } from '@/lib/storyboard-revisions';
+
+export const dynamic = 'force-dynamic';
+
+// Storyboard history, oldest first, with the versions undo and redo would bring back: GET /api/storyboard/revisions?id=...
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'Missing video ID' }, { status: 400 });
+  }
+
+  try {
+    const video = await VideoService.getById(id);
+    if (!video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const revisions = await listRevisions(sbServer(), id);
+    const { undo, redo } = historySteps(revisions);
+
+    return NextResponse.json({
+      storyboard_version: storyboardVersionOf(video),
+      revisions,
+      undo,
+      redo
+    });
+  } catch (error: unknown) {
+    console.error('❌ Error in GET /api/storyboard/revisions:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to list revisions'
+    }, { status: 500 });
+  }
+}
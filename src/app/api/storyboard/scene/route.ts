@@ -1,22 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VideoService, sbServer } from '@/lib/supabase-server';
+import { expectedStoryboardVersion, saveStoryboardEdit, staleEditResponse } from '@/lib/storyboard-version';
+import { revisionAuthor } from '@/lib/storyboard-revisions';
+import { isTransitionStyle } from '@/lib/render/transitions';
+import { CAMERA_MOTIONS, normalizeSceneMotion } from '@/lib/render/motion';
+import { findSceneIndex, withSceneIds } from '@/lib/storyboard-scenes';
 
 export const dynamic = 'force-dynamic';
 
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { id, index, text, image_prompt } = body;
+    const { id, scene_id, text, image_prompt, transition, motion } = body;
 
     if (!id || typeof id !== 'string') {
       return NextResponse.json({ error: 'Missing or invalid video ID' }, { status: 400 });
     }
 
-    if (typeof index !== 'number' || index < 0) {
-      return NextResponse.json({ error: 'Missing or invalid scene index' }, { status: 400 });
+    const expectedVersion = expectedStoryboardVersion(body);
+    if (expectedVersion === null) {
+      return NextResponse.json({ error: 'Missing or invalid storyboard_version' }, { status: 400 });
     }
 
-    console.log('✏️ Editing scene for video:', id, 'index:', index);
+    if (typeof scene_id !== 'string' && (typeof body.index !== 'number' || body.index < 0)) {
+      return NextResponse.json({ error: 'Missing or invalid scene_id or index' }, { status: 400 });
+    }
+
+    // null clears the override so the scene follows the theme again
+    if (transition !== undefined && transition !== null && !isTransitionStyle(transition)) {
+      return NextResponse.json({ error: 'Invalid transition (expected fade, slide, dissolve, zoom or cut)' }, { status: 400 });
+    }
+
+    // null clears the choice so the scene uses the default camera move
+    const sceneMotion = motion === undefined || motion === null ? null : normalizeSceneMotion(motion);
+    if (motion !== undefined && motion !== null && !sceneMotion) {
+      return NextResponse.json({
+        error: `Invalid motion (expected ${CAMERA_MOTIONS.map(m => m.id).join(', ')})`
+      }, { status: 400 });
+    }
+
+    console.log('✏️ Editing scene for video:', id, 'scene:', scene_id ?? body.index);
 
     // Get current video
     const video = await VideoService.getById(id);
@@ -24,16 +47,20 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Video not found' }, { status: 404 });
     }
 
+    const stale = staleEditResponse(video, expectedVersion);
+    if (stale) return stale;
+
     // Verify video has a storyboard
     if (!video.storyboard_json || !video.storyboard_json.scenes) {
       return NextResponse.json({ error: 'No storyboard found' }, { status: 400 });
     }
 
-    const scenes = [...video.storyboard_json.scenes];
-    
-    // Validate scene index
-    if (index >= scenes.length) {
-      return NextResponse.json({ error: 'Invalid scene index' }, { status: 400 });
+    const scenes = withSceneIds(video.storyboard_json.scenes);
+    const index = findSceneIndex(scenes, { scene_id, index: body.index });
+
+    // Validate scene reference
+    if (index < 0) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 400 });
     }
 
     const currentScene = scenes[index];
@@ -50,6 +77,22 @@ export async function PATCH(request: NextRequest) {
       needsImageRegen = image_prompt !== currentScene.image_prompt;
     }
 
+    // Transition into this scene; doesn't touch the image
+    if (transition !== undefined) {
+      const updated = { ...scenes[index] };
+      if (transition === null) delete updated.transition;
+      else updated.transition = transition;
+      scenes[index] = updated;
+    }
+
+    // Camera move for this scene; also leaves the image alone
+    if (motion !== undefined) {
+      const updated = { ...scenes[index] };
+      if (sceneMotion) updated.motion = sceneMotion;
+      else delete updated.motion;
+      scenes[index] = updated;
+    }
+
     // Update dirty scenes array if image needs regeneration
     const currentDirtyScenes = Array.isArray(video.dirty_scenes) ? video.dirty_scenes : [];
     let updatedDirtyScenes = [...currentDirtyScenes];
@@ -64,24 +107,17 @@ export async function PATCH(request: NextRequest) {
       scenes
     };
 
-    const updateData: any = {
+    const saved = await saveStoryboardEdit(id, video, {
       storyboard_json: updatedStoryboard,
-      storyboard_version: (video.storyboard_version || 1) + 1,
       dirty_scenes: updatedDirtyScenes
-    };
-
-    const updateResult = await VideoService.updateVideo(id, updateData);
-
-    if (!updateResult.success) {
-      console.error('❌ Failed to update scene:', updateResult.error);
-      return NextResponse.json({ error: 'Failed to update scene' }, { status: 500 });
-    }
+    }, { action: 'edit', author: revisionAuthor(body) });
+    if (saved.conflict) return saved.conflict;
 
     console.log('✅ Scene updated successfully');
     
     return NextResponse.json({
       success: true,
-      storyboard_version: (video.storyboard_version || 1) + 1,
+      storyboard_version: saved.version,
       dirty_scenes: updatedDirtyScenes,
       needs_image_regen: needsImageRegen
     });
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VideoService } from '@/lib/supabase-server';
+import { expectedStoryboardVersion, saveStoryboardEdit, staleEditResponse } from '@/lib/storyboard-version';
+import { revisionAuthor } from '@/lib/storyboard-revisions';
+import { findSceneIndex, layoutSceneAssets, newSceneId, splitImagePrompts, splitSceneText, withSceneIds, withoutNarration } from '@/lib/storyboard-scenes';
+
+export const dynamic = 'force-dynamic';
+
+function isTextPair(v: unknown): v is [string, string] {
+  return Array.isArray(v) && v.length === 2 && v.every(t => typeof t === 'string' && t.trim());
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    // texts / image_prompts: optional [first, second]; by default the text splits near its middle
+    // and each half's image prompt is its text plus the original prompt
+    const { id, scene_id, index, texts, image_prompts } = body;
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid video ID' }, { status: 400 });
+    }
+
+    const expectedVersion = expectedStoryboardVersion(body);
+    if (expectedVersion === null) {
+      return NextResponse.json({ error: 'Missing or invalid storyboard_version' }, { status: 400 });
+    }
+
+    if (typeof scene_id !== 'string' && (typeof index !== 'number' || index < 0)) {
+      return NextResponse.json({ error: 'Missing or invalid scene_id or index' }, { status: 400 });
+    }
+
+    if ((texts !== undefined && !isTextPair(texts)) || (image_prompts !== undefined && !isTextPair(image_prompts))) {
+      return NextResponse.json({ error: 'texts and image_prompts must each be two non-empty strings' }, { status: 400 });
+    }
+
+    console.log('✂️ Splitting scene for video:', id, 'scene:', scene_id ?? index);
+
+    // Get current video
+    const video = await VideoService.getById(id);
+    if (!video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const stale = staleEditResponse(video, expectedVersion);
+    if (stale) return stale;
+
+    // Verify video has a storyboard
+    if (!video.storyboard_json || !video.storyboard_json.scenes) {
+      return NextResponse.json({ error: 'No storyboard found' }, { status: 400 });
+    }
+
+    const currentScenes = withSceneIds(video.storyboard_json.scenes);
+    const sceneIndex = findSceneIndex(currentScenes, { scene_id, index });
+    if (sceneIndex < 0) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 400 });
+    }
+
+    const original = currentScenes[sceneIndex];
+    const halves = texts ?? splitSceneText(String(original.description ?? ''));
+    if (!halves) {
+      return NextResponse.json({ error: 'Scene text is too short to split' }, { status: 400 });
+    }
+    const prompts = image_prompts ?? splitImagePrompts(String(original.image_prompt ?? ''), halves);
+    // Narration splits the same way; if it can't, the first half keeps it all
+    const narration = typeof original.narration === 'string' ? original.narration : null;
+    const narrations = narration ? splitSceneText(narration) ?? [narration, undefined] : [undefined, undefined];
+    const duration = typeof original.duration === 'number' ? original.duration / 2 : undefined;
+
+    // The first half keeps the scene's id (and its image until regenerated); both need new images
+    const base = withoutNarration(original);
+    const [first, second] = [0, 1].map(i => ({
+      ...base,
+      id: i === 0 ? original.id : newSceneId(),
+      description: halves[i].trim(),
+      image_prompt: prompts[i].trim(),
+      narration: narrations[i],
+      duration,
+    }));
+    const scenes = [...currentScenes];
+    scenes.splice(sceneIndex, 1, first, second);
+    const layout = layoutSceneAssets(video, currentScenes, scenes, [original.id]);
+
+    const saved = await saveStoryboardEdit(id, video, {
+      storyboard_json: { ...video.storyboard_json, scenes },
+      ...layout
+    }, { action: 'split', author: revisionAuthor(body) });
+    if (saved.conflict) return saved.conflict;
+
+    console.log('✅ Scene split successfully');
+
+    return NextResponse.json({
+      success: true,
+      scenes: [first, second],
+      storyboard_version: saved.version,
+      dirty_scenes: layout.dirty_scenes,
+      scenes_count: scenes.length
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Error in PATCH /api/storyboard/split:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -6,6 +6,8 @@ import React from 'react';
 import { themes, getDefaultTheme } from '@/lib/themes';
 import { languages, getDefaultLanguage } from '@/lib/languages';
 import { tones, getDefaultTone } from '@/lib/tones';
+import { captionStyles, getDefaultCaptionStyle } from '@/lib/caption-styles';
+import { renderProfiles, getDefaultRenderProfile } from '@/lib/render-profiles';
 import WizardStepper, { defaultSteps } from '@/components/WizardStepper';
 
 // Type definitions
@@ -14,6 +16,8 @@ type GenerateScriptRequest = {
   theme?: string; 
   language?: string; 
   tone?: string; 
+  captionStyle?: string;
+  renderProfile?: string;
 };
 
 type GenerateScriptResponse = { 
@@ -33,6 +37,8 @@ export default function CreateScript() {
   const [selectedTheme, setSelectedTheme] = useState(getDefaultTheme());
   const [selectedLanguage, setSelectedLanguage] = useState(getDefaultLanguage());
   const [selectedTone, setSelectedTone] = useState(getDefaultTone());
+  const [selectedCaptionStyle, setSelectedCaptionStyle] = useState(getDefaultCaptionStyle());
+  const [selectedRenderProfile, setSelectedRenderProfile] = useState(getDefaultRenderProfile());
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -44,6 +50,8 @@ export default function CreateScript() {
       theme: selectedTheme.id,
       language: selectedLanguage.code,
       tone: selectedTone.id,
+      captionStyle: selectedCaptionStyle.id,
+      renderProfile: selectedRenderProfile.id,
     };
 
     try {
@@ -120,7 +128,7 @@ export default function CreateScript() {
                 </div>
 
                 {/* Personalization Options */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
                   {/* Theme */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -186,6 +194,52 @@ export default function CreateScript() {
                       ))}
                     </select>
                   </div>
+
+                  {/* Caption Style */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Captions
+                    </label>
+                    <select
+                      value={selectedCaptionStyle.id}
+                      onChange={(e) => {
+                        const style = captionStyles.find(s => s.id === e.target.value);
+                        if (style) setSelectedCaptionStyle(style);
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      disabled={loading}
+                      title={selectedCaptionStyle.description}
+                    >
+                      {captionStyles.map((style) => (
+                        <option key={style.id} value={style.id}>
+                          {style.displayName}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Format */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Format
+                    </label>
+                    <select
+                      value={selectedRenderProfile.id}
+                      onChange={(e) => {
+                        const profile = renderProfiles.find(p => p.id === e.target.value);
+                        if (profile) setSelectedRenderProfile(profile);
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      disabled={loading}
+                      title={selectedRenderProfile.description}
+                    >
+                      {renderProfiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.displayName}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
                 {/* Error Display */}
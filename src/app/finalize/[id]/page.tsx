@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import WizardStepper, { defaultSteps } from '@/components/WizardStepper';
+import { subscribeVideoStatus } from '@/lib/video-status-stream';
 
 interface VideoData {
   id: string;
@@ -60,10 +61,19 @@ export default function FinalizePage() {
 
   useEffect(() => {
     if (videoId) {
-      fetchVideo();
-      // Poll for updates every 2 seconds
-      const interval = setInterval(fetchVideo, 2000);
-      return () => clearInterval(interval);
+      // Live updates from the progress stream (polls every 2 seconds if the stream is unavailable)
+      return subscribeVideoStatus<VideoData>(videoId, {
+        onStatus: (data) => {
+          setVideo(data);
+          setLoading(false);
+        },
+        onError: (err) => {
+          if (err.error === 'video_not_found') {
+            setError('Video not found');
+            setLoading(false);
+          }
+        },
+      });
     }
   }, [videoId]);
 
@@ -345,6 +355,8 @@ export default function FinalizePage() {
         return { text: 'Rendering Video', color: 'bg-purple-100 text-purple-700' };
       case 'render_failed':
         return { text: 'Render Failed', color: 'bg-red-100 text-red-700' };
+      case 'cancelled':
+        return { text: 'Cancelled', color: 'bg-gray-100 text-gray-700' };
       case 'completed':
         return { text: 'Video Complete', color: 'bg-green-100 text-green-700' };
       default:
@@ -88,7 +88,6 @@ export default function Home() {
   const [showVideoPlayer, setShowVideoPlayer] = useState(false);
   const [currentVideoId, setCurrentVideoId] = useState<string | null>(null);
   const [scriptVideoId, setScriptVideoId] = useState<string | null>(null);
-  const [currentEventSource, setCurrentEventSource] = useState<EventSource | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [currentlyPlayingAudio, setCurrentlyPlayingAudio] = useState<HTMLAudioElement | null>(null);
   const [selectedVoiceId, setSelectedVoiceId] = useState('Dslrhjl3ZpzrctukrQSN'); // Default voice
@@ -832,11 +831,6 @@ export default function Home() {
         percentage: 0
       }));
 
-      if (currentEventSource) {
-        currentEventSource.close();
-        setCurrentEventSource(null);
-      }
-
     } catch (error) {
       console.error('❌ Failed to cancel video:', error);
       showToast(`Failed to cancel video: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
@@ -3,6 +3,7 @@
 import { useParams, useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { VideoStatusResponse } from '@/types/video';
+import { subscribeVideoStatus } from '@/lib/video-status-stream';
 
 export default function RenderPage() {
   const params = useParams();
@@ -23,46 +24,23 @@ export default function RenderPage() {
     return () => clearInterval(timer);
   }, []);
 
-  // Poll video status every 2 seconds and trigger rendering if needed
+  // Live video status from the progress stream (falls back to polling every 2 seconds)
   useEffect(() => {
     if (!id) return;
 
-    const pollStatus = async () => {
-      try {
-        const response = await fetch(`/api/video-status?id=${id}`, {
-          cache: 'no-store',
-          next: { revalidate: 0 }
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
-        }
-        
-        const data = await response.json();
-        if (data.error) {
-          throw new Error(data.error);
-        }
-        
-        setVideoStatus(data.data);
+    return subscribeVideoStatus<VideoStatusResponse>(id, {
+      onStatus: (data) => {
+        setVideoStatus(data);
         setLoading(false);
         setError(null);
-        
-        // If video is completed and has final_video_url, enable view button
-        
-      } catch (err) {
-        console.error('Error polling video status:', err);
-        setError(err instanceof Error ? err.message : 'Failed to fetch status');
-        setLoading(false);
-      }
-    };
-
-    // Initial poll
-    pollStatus();
-    
-    // Set up polling interval
-    const interval = setInterval(pollStatus, 2000);
-    
-    return () => clearInterval(interval);
+      },
+      onError: (err) => {
+        if (err.error) {
+          setError(err.error);
+          setLoading(false);
+        }
+      },
+    });
   }, [id]);
 
   // Trigger rendering when assets are ready
@@ -169,7 +147,8 @@ export default function RenderPage() {
   const hasFailed = videoStatus.status === 'script_failed' || 
                    videoStatus.status === 'storyboard_failed' || 
                    videoStatus.status === 'assets_failed' || 
-                   videoStatus.status === 'render_failed';
+                   videoStatus.status === 'render_failed' ||
+                   videoStatus.status === 'cancelled';
 
   return (
     <div className="min-h-screen bg-gray-50 py-12">
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useParams } from 'next/navigation';
 import WizardStepper, { defaultSteps } from '@/components/WizardStepper';
 import { parseScriptSections, stripMeta } from '@/lib/script';
+import { subscribeVideoStatus } from '@/lib/video-status-stream';
 
 interface VideoData {
   id: string;
@@ -31,28 +32,18 @@ function useScriptStatus(videoId: string) {
   const t0Ref = useRef<number | null>(null);
   const timerRef = useRef<any>(null);
 
-  // poll status every 1500ms until script_generated/script_approved
+  // follow status from the progress stream (polls every 1500ms if the stream is unavailable)
   useEffect(() => {
-    let cancelled = false;
-
-    async function poll() {
-      const res = await fetch(`/api/video-status?id=${videoId}`, { cache: 'no-store' });
-      const json = await res.json();
-      if (!cancelled) setStatus(json?.data ?? { status: 'unknown' });
-    }
-
     // start elapsed timer
     t0Ref.current = Date.now();
     timerRef.current = setInterval(() => {
       if (t0Ref.current) setElapsed(Math.floor((Date.now() - t0Ref.current) / 1000));
     }, 1000);
 
-    const int = setInterval(poll, 1500);
-    poll();
+    const unsubscribe = subscribeVideoStatus<VideoStatus>(videoId, { onStatus: setStatus }, { pollMs: 1500 });
 
     return () => {
-      cancelled = true;
-      clearInterval(int);
+      unsubscribe();
       clearInterval(timerRef.current);
     };
   }, [videoId]);
@@ -4,12 +4,19 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import React from 'react';
 import WizardStepper, { defaultSteps } from '@/components/WizardStepper';
+import { subscribeVideoStatus } from '@/lib/video-status-stream';
+import { UserService } from '@/lib/user';
+import { CAMERA_MOTIONS } from '@/lib/render/motion';
+import type { SceneMotion } from '@/types/video';
 
 interface Scene {
+  // Stable across reorders; the server matches images to scenes by it
+  id?: string;
   description: string;
   image_prompt?: string;
   scene_number?: number;
   duration?: number;
+  motion?: SceneMotion;
 }
 
 interface VideoData {
@@ -20,9 +27,27 @@ interface VideoData {
   };
   image_urls?: string[];
   dirty_scenes?: number[];
+  // Sent back with every storyboard edit; the server rejects edits made against an older one
+  storyboard_version?: number;
   error_message?: string;
 }
 
+// A storyboard edit the server turned down because someone else changed the storyboard first
+interface StoryboardConflict {
+  path: string;
+  body: Record<string, unknown>;
+  storyboard_version: number;
+}
+
+type SceneAction = 'insert' | 'duplicate' | 'split' | 'merge';
+
+const SCENE_ACTION_DONE: Record<SceneAction, string> = {
+  insert: 'Scene added!',
+  duplicate: 'Scene duplicated!',
+  split: 'Scene split in two!',
+  merge: 'Scenes merged!',
+};
+
 interface EditingScene {
   index: number;
   text: string;
@@ -70,6 +95,12 @@ export default function StoryboardPage() {
   const [editingScene, setEditingScene] = useState<EditingScene | null>(null);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [regeneratingScenes, setRegeneratingScenes] = useState<Set<number>>(new Set());
+  // Scene insert/duplicate/split/merge in flight; one at a time so indices stay valid
+  const [sceneAction, setSceneAction] = useState<{ action: SceneAction; index: number } | null>(null);
+  const [conflict, setConflict] = useState<StoryboardConflict | null>(null);
+  // Versions the server's revision history would bring back
+  const [history, setHistory] = useState<{ undo: number | null; redo: number | null }>({ undo: null, redo: null });
+  const [historyBusy, setHistoryBusy] = useState(false);
 
   // Image state
   const [images, setImages] = useState<(string | null)[]>([]);
@@ -183,26 +214,16 @@ export default function StoryboardPage() {
       
       ensureImages();
       
-      // Poll for updates every 1.5 seconds
-      const interval = setInterval(async () => {
-        if (cancelled) return;
-        
-        try {
-          const response = await fetch(`/api/video-status?id=${videoId}`, { cache: 'no-store' });
-          if (cancelled) return;
-          
-          const result = await safeJson(response);
-          if (!result?.data) return;
-          
-          setImages(result.data?.image_urls ?? []);
-        } catch (err) {
-          console.error('Failed to poll for updates:', err);
-        }
-      }, 1500);
+      // Follow image updates from the progress stream (polls every 1.5 seconds if it is unavailable)
+      const unsubscribe = subscribeVideoStatus<{ image_urls?: string[] }>(
+        videoId,
+        { onStatus: (data) => setImages(data.image_urls ?? []) },
+        { pollMs: 1500 }
+      );
       
       return () => {
         cancelled = true;
-        clearInterval(interval);
+        unsubscribe();
       };
     }
   }, [videoId]);
@@ -242,6 +263,8 @@ export default function StoryboardPage() {
       if (videoData.image_urls) {
         setImages(videoData.image_urls);
       }
+
+      fetchHistory();
       
     } catch (err: any) {
       console.error('Failed to fetch video:', err);
@@ -251,23 +274,89 @@ export default function StoryboardPage() {
     }
   };
 
-  const handleReorderScenes = async (newOrder: number[]) => {
+  const fetchHistory = async () => {
     try {
-      const response = await fetch('/api/storyboard/reorder', {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          id: videoId,
-          order: newOrder
-        }),
-      });
+      const response = await fetch(`/api/storyboard/revisions?id=${videoId}`, { cache: 'no-store' });
+      const result = await safeJson(response);
+      if (!response.ok || !result) throw new Error(result?.error || 'Failed to load storyboard history');
+      setHistory({ undo: result.undo ?? null, redo: result.redo ?? null });
+    } catch (err) {
+      // Undo/redo just stay unavailable
+      console.warn('Failed to load storyboard history:', err);
+      setHistory({ undo: null, redo: null });
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to reorder scenes');
-      }
+  // Sends a storyboard edit along with the version it was made against. Returns
+  // null when someone else changed the storyboard first; the edit is then kept
+  // so the user can reload or apply it again on top of the newer storyboard.
+  const patchStoryboard = async (path: string, body: Record<string, unknown>, failure: string, version = video?.storyboard_version) => {
+    const response = await fetch(`/api/storyboard/${path}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, storyboard_version: version ?? 1, author: UserService.getUserId() }),
+    });
+
+    const data = await safeJson(response);
+    if (response.status === 409 && data?.code === 'storyboard_conflict') {
+      setConflict({ path, body, storyboard_version: data.storyboard_version });
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(data?.error || failure);
+    }
+    setConflict(null);
+    return data;
+  };
+
+  const handleReloadStoryboard = async () => {
+    setConflict(null);
+    setEditingScene(null);
+    await fetchVideo();
+    setSuccess('Storyboard reloaded with the latest changes.');
+  };
+
+  // Re-sends the rejected edit against the current version. Edits name scenes by id,
+  // so they land on the same scenes even if others were moved in the meantime.
+  const handleReapplyEdit = async () => {
+    if (!conflict) return;
+    try {
+      const result = await patchStoryboard(conflict.path, conflict.body, 'Failed to apply your change', conflict.storyboard_version);
+      if (!result) return;
+      await fetchVideo();
+      setEditingScene(null);
+      setSuccess('Your change was applied to the latest storyboard.');
+    } catch (err) {
+      console.error('Failed to re-apply storyboard edit:', err);
+      setConflict(null);
+      await fetchVideo();
+      setError(err instanceof Error ? err.message : 'Failed to apply your change');
+    }
+  };
+
+  const handleHistoryStep = async (step: 'undo' | 'redo') => {
+    setHistoryBusy(true);
+    setError('');
+    try {
+      const result = await patchStoryboard('restore', { id: videoId, step }, `Failed to ${step}`);
+      if (!result) return;
+
+      await fetchVideo();
+      setSuccess(step === 'undo' ? 'Change undone.' : 'Change redone.');
+    } catch (err) {
+      console.error(`Failed to ${step}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${step}`);
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  const handleReorderScenes = async (newOrder: string[] | number[]) => {
+    try {
+      const result = await patchStoryboard('reorder', { id: videoId, order: newOrder }, 'Failed to reorder scenes');
+      if (!result) return;
 
       await fetchVideo(); // Refresh data
       setSuccess('Scenes reordered successfully!');
@@ -282,22 +371,12 @@ export default function StoryboardPage() {
     if (!text && !imagePrompt) return;
 
     try {
-      const updateData: any = { id: videoId, index };
+      const updateData: any = { id: videoId, scene_id: scenes[index]?.id, index };
       if (text !== undefined) updateData.text = text;
       if (imagePrompt !== undefined) updateData.image_prompt = imagePrompt;
 
-      const response = await fetch('/api/storyboard/scene', {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updateData),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to update scene');
-      }
+      const result = await patchStoryboard('scene', updateData, 'Failed to update scene');
+      if (!result) return;
 
       await fetchVideo(); // Refresh data
       setSuccess('Scene updated successfully!');
@@ -309,25 +388,45 @@ export default function StoryboardPage() {
     }
   };
 
+  // null goes back to the default camera move
+  const handleSceneMotion = async (index: number, motion: SceneMotion | null) => {
+    try {
+      const result = await patchStoryboard('scene', { id: videoId, scene_id: scenes[index]?.id, index, motion }, 'Failed to update camera motion');
+      if (!result) return;
+
+      await fetchVideo();
+    } catch (err) {
+      console.error('Failed to update camera motion:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update camera motion');
+    }
+  };
+
+  // Insert writes a new scene after `index` with the LLM; the others act on the scene itself
+  const handleSceneAction = async (action: SceneAction, index: number) => {
+    setSceneAction({ action, index });
+    setError('');
+    try {
+      const result = await patchStoryboard(action, action === 'insert'
+        ? { id: videoId, index: index + 1, generate: true }
+        : { id: videoId, scene_id: scenes[index]?.id, index }, `Failed to ${action} scene`);
+      if (!result) return;
+
+      await fetchVideo();
+      setSuccess(SCENE_ACTION_DONE[action]);
+    } catch (err) {
+      console.error(`Failed to ${action} scene:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} scene`);
+    } finally {
+      setSceneAction(null);
+    }
+  };
+
   const handleDeleteScene = async (index: number) => {
     if (!confirm('Are you sure you want to delete this scene?')) return;
 
     try {
-      const response = await fetch('/api/storyboard/delete', {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          id: videoId,
-          index
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete scene');
-      }
+      const result = await patchStoryboard('delete', { id: videoId, scene_id: scenes[index]?.id, index }, 'Failed to delete scene');
+      if (!result) return;
 
       await fetchVideo(); // Refresh data
       setSuccess('Scene deleted successfully!');
@@ -471,11 +570,15 @@ export default function StoryboardPage() {
     
     if (draggedIndex === null || draggedIndex === dropIndex) return;
 
-    const newOrder = [...Array(scenes.length).keys()];
-    const draggedItem = newOrder.splice(draggedIndex, 1)[0];
-    newOrder.splice(dropIndex, 0, draggedItem);
+    // Scene ids when the storyboard has them (older ones only have positions)
+    const ids = scenes.map(scene => scene.id);
+    const move = <T,>(order: T[]) => {
+      const [draggedItem] = order.splice(draggedIndex, 1);
+      order.splice(dropIndex, 0, draggedItem);
+      return order;
+    };
 
-    handleReorderScenes(newOrder);
+    handleReorderScenes(ids.every(Boolean) ? move(ids as string[]) : move([...Array(scenes.length).keys()]));
     setDraggedIndex(null);
   };
 
@@ -484,38 +587,23 @@ export default function StoryboardPage() {
     setError('');
     
     try {
-      const response = await fetch('/api/generate-assets', {
+      // Queue generation on the job worker; it survives a server restart
+      const response = await fetch('/api/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ videoId }),
+        body: JSON.stringify({ videoId, type: 'generate-assets' }),
       });
 
       const data = await response.json().catch(() => ({}));
       
       if (!response.ok) {
-        // Idempotent success: already generated
-        if (data?.status === 'assets_generated' || data?.status === 'render_ready' || 
-            /already generated|assets_generated/i.test(data?.error || '') || 
-            /already generated|assets_generated/i.test(data?.note || '')) {
-          console.log('[storyboard] Assets already generated, proceeding to finalize');
-          router.push(`/finalize/${videoId}`);
-          return;
-        } else {
-          throw new Error(data?.error || 'Failed to generate assets');
-        }
-      }
-
-      // Check if assets are already ready from the response
-      if (data?.nextStatus === 'render_ready' || data?.nextStatus === 'assets_generated') {
-        console.log('[storyboard] Assets ready from response, proceeding to finalize');
-        router.push(`/finalize/${videoId}`);
-        return;
+        throw new Error(data?.error || 'Failed to generate assets');
       }
 
       // Poll for completion until ready
-      await pollUntilReady(videoId, ['assets_generated', 'render_ready'], 120000);
+      await pollUntilReady(videoId, ['assets_generated', 'render_ready'], 600000);
       router.push(`/finalize/${videoId}`);
       
     } catch (err: any) {
@@ -608,6 +696,24 @@ export default function StoryboardPage() {
                   Scenes needing regeneration: <strong>{dirtyScenes.length}</strong>
                 </span>
               )}
+              <div className="ml-auto flex gap-2">
+                <button
+                  onClick={() => handleHistoryStep('undo')}
+                  disabled={history.undo === null || historyBusy}
+                  title={history.undo !== null ? `Back to version ${history.undo}` : 'Nothing to undo'}
+                  className="px-3 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  ↶ Undo
+                </button>
+                <button
+                  onClick={() => handleHistoryStep('redo')}
+                  disabled={history.redo === null || historyBusy}
+                  title={history.redo !== null ? `Forward to version ${history.redo}` : 'Nothing to redo'}
+                  className="px-3 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  ↷ Redo
+                </button>
+              </div>
             </div>
             
             {/* Image Progress Status */}
@@ -640,6 +746,30 @@ export default function StoryboardPage() {
             </div>
           )}
 
+          {/* Stale edit: someone else changed the storyboard first */}
+          {conflict && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="text-yellow-800 font-medium">This storyboard was changed elsewhere while you were editing.</p>
+              <p className="text-sm text-yellow-700 mt-1">
+                Your last change was not saved. Reload to see the latest version, or apply your change again on top of it.
+              </p>
+              <div className="mt-3 flex gap-2">
+                <button
+                  onClick={handleReloadStoryboard}
+                  className="px-3 py-1.5 text-sm bg-white border border-yellow-300 text-yellow-800 rounded hover:bg-yellow-100"
+                >
+                  Reload
+                </button>
+                <button
+                  onClick={handleReapplyEdit}
+                  className="px-3 py-1.5 text-sm bg-yellow-600 text-white rounded hover:bg-yellow-700"
+                >
+                  Apply my change again
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -755,7 +885,7 @@ export default function StoryboardPage() {
               
               return (
                 <div
-                  key={index}
+                  key={scene.id ?? index}
                   draggable
                   onDragStart={(e) => handleDragStart(e, index)}
                   onDragOver={handleDragOver}
@@ -789,12 +919,30 @@ export default function StoryboardPage() {
                   {/* Image Preview */}
                   <div className="mb-3">
                     {hasImage ? (
-                      <img
-                        src={images[index] || ''}
-                        alt={`Scene ${index + 1}`}
-                        className="w-full h-32 object-cover rounded-lg"
-                        loading="lazy"
-                      />
+                      <div className="relative">
+                        <img
+                          src={images[index] || ''}
+                          alt={`Scene ${index + 1}`}
+                          className={`w-full h-32 object-cover rounded-lg ${scene.motion?.type === 'focus' ? 'cursor-crosshair' : ''}`}
+                          loading="lazy"
+                          onClick={(e) => {
+                            // With "push in on a point", clicking the image picks the point
+                            if (scene.motion?.type !== 'focus') return;
+                            const rect = e.currentTarget.getBoundingClientRect();
+                            handleSceneMotion(index, {
+                              type: 'focus',
+                              x: Math.round(((e.clientX - rect.left) / rect.width) * 100) / 100,
+                              y: Math.round(((e.clientY - rect.top) / rect.height) * 100) / 100,
+                            });
+                          }}
+                        />
+                        {scene.motion?.type === 'focus' && (
+                          <span
+                            className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-purple-500 border-2 border-white pointer-events-none"
+                            style={{ left: `${(scene.motion.x ?? 0.5) * 100}%`, top: `${(scene.motion.y ?? 0.5) * 100}%` }}
+                          />
+                        )}
+                      </div>
                     ) : isFailed ? (
                       <div className="w-full h-32 bg-red-100 rounded-lg flex items-center justify-center">
                         <div className="text-center">
@@ -833,6 +981,27 @@ export default function StoryboardPage() {
                     {scene.description}
                   </p>
 
+                  {/* Camera Motion */}
+                  <label className="flex items-center gap-2 mb-3 text-xs text-gray-600">
+                    Camera
+                    <select
+                      value={scene.motion?.type ?? ''}
+                      onChange={(e) => {
+                        const type = e.target.value as SceneMotion['type'] | '';
+                        handleSceneMotion(index, type ? { type } : null);
+                      }}
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs text-gray-700"
+                    >
+                      <option value="">Default</option>
+                      {CAMERA_MOTIONS.map(m => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {scene.motion?.type === 'focus' && hasImage && (
+                    <p className="-mt-2 mb-3 text-xs text-gray-500">Click the image to choose the point.</p>
+                  )}
+
                   {/* Actions */}
                   <div className="flex flex-wrap gap-2">
                     <button
@@ -854,6 +1023,42 @@ export default function StoryboardPage() {
                       {isRegenerating ? 'Generating...' : 'Regen Image'}
                     </button>
                     
+                    <button
+                      onClick={() => handleSceneAction('duplicate', index)}
+                      disabled={!!sceneAction}
+                      className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      Duplicate
+                    </button>
+
+                    <button
+                      onClick={() => handleSceneAction('split', index)}
+                      disabled={!!sceneAction}
+                      className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      Split
+                    </button>
+
+                    {index < scenes.length - 1 && (
+                      <button
+                        onClick={() => handleSceneAction('merge', index)}
+                        disabled={!!sceneAction}
+                        className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                        title="Merge with the next scene"
+                      >
+                        Merge ↓
+                      </button>
+                    )}
+
+                    <button
+                      onClick={() => handleSceneAction('insert', index)}
+                      disabled={!!sceneAction}
+                      className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 disabled:opacity-50"
+                      title="Write a new scene after this one"
+                    >
+                      {sceneAction?.action === 'insert' && sceneAction.index === index ? 'Writing...' : '+ Scene After'}
+                    </button>
+
                     {scenes.length > 1 && (
                       <button
                         onClick={() => handleDeleteScene(index)}
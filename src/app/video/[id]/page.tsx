@@ -111,6 +111,9 @@ export default function VideoPage() {
         if (videoData.status === 'render_failed') {
           throw new Error(videoData.error_message || 'Video rendering failed');
         }
+        if (videoData.status === 'cancelled') {
+          throw new Error('Video generation was cancelled');
+        }
         
         // Check if we should stop polling (failed status)
         if (['script_failed', 'storyboard_failed', 'assets_failed'].includes(videoData.status)) {
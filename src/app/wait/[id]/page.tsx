@@ -1,8 +1,9 @@
 'use client';
 
 import { useParams, useRouter } from 'next/navigation';
-import { useEffect, useState, useTransition } from 'react';
+import { useEffect, useRef, useState, useTransition } from 'react';
 import { VideoStatusResponse, VideoProgress } from '@/types/video';
+import { subscribeVideoStatus } from '@/lib/video-status-stream';
 
 export default function WaitPage() {
   const params = useParams();
@@ -16,45 +17,27 @@ export default function WaitPage() {
   const [isEditing, setIsEditing] = useState(false);
   const [isPolling, startTransition] = useTransition();
   const [toast, setToast] = useState<string | null>(null);
-  const [previousStatus, setPreviousStatus] = useState<string | null>(null);
-  const [pollingInterval, setPollingInterval] = useState(2000);
-  const [pollingStartTime, setPollingStartTime] = useState(Date.now());
+  const previousStatus = useRef<string | null>(null);
 
-  // Enhanced polling with visibility detection and exponential backoff
+  // Live status from the progress stream (polls /api/video-status if the stream is unavailable)
   useEffect(() => {
     if (!id) return;
 
-    const pollStatus = async () => {
-      // Skip polling if page is hidden
-      if (document.visibilityState === 'hidden') return;
-
-      try {
-        const response = await fetch(`/api/video-status?id=${id}`, {
-          cache: 'no-store',
-          next: { revalidate: 0 }
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
-        }
-        
-        const data = await response.json();
-        if (data.error) {
-          throw new Error(data.error);
-        }
-        
+    return subscribeVideoStatus<VideoStatusResponse>(id, {
+      onStatus: (data) => {
         // Check for status change to trigger toast
-        if (previousStatus && previousStatus === 'rendering' && data.data.status === 'completed') {
+        if (previousStatus.current === 'rendering' && data.status === 'completed') {
           showToast('✅ Video is ready!');
         }
-        
-        setPreviousStatus(data.data.status);
-        setVideoStatus(data.data);
+        const changed = previousStatus.current !== data.status;
+        previousStatus.current = data.status;
+
+        setVideoStatus(data);
         setLoading(false);
         setError(null);
-        
-        // Trigger cleanup for completed or failed renders
-        if (data.data.status === 'completed' || data.data.status === 'render_failed') {
+
+        // Trigger cleanup once a render completes or fails
+        if (changed && (data.status === 'completed' || data.status === 'render_failed' || data.status === 'cancelled')) {
           // Fire-and-forget cleanup request
           fetch('/api/cleanup', {
             method: 'POST',
@@ -62,56 +45,17 @@ export default function WaitPage() {
             body: JSON.stringify({ videoId: id }),
           }).catch(err => console.warn('Cleanup failed:', err));
         }
-        
-        // Don't auto-redirect - let user choose what to do
-        
-      } catch (err) {
-        console.error('Error polling video status:', err);
-        setError(err instanceof Error ? err.message : 'Failed to fetch status');
-        setLoading(false);
-      }
-    };
 
-    // Initial poll
-    pollStatus();
-    
-    // Calculate polling interval with exponential backoff after 1 minute
-    const updateInterval = () => {
-      const elapsed = Date.now() - pollingStartTime;
-      if (elapsed > 60000) { // After 1 minute
-        if (elapsed > 180000) return 8000; // 8s after 3 minutes
-        if (elapsed > 120000) return 5000; // 5s after 2 minutes
-        return 3000; // 3s after 1 minute
-      }
-      return 2000; // 2s for first minute
-    };
-    
-    // Set up polling interval with dynamic timing
-    const interval = setInterval(() => {
-      const newInterval = updateInterval();
-      if (newInterval !== pollingInterval) {
-        setPollingInterval(newInterval);
-        clearInterval(interval);
-        setTimeout(() => pollStatus(), newInterval);
-      } else {
-        pollStatus();
-      }
-    }, pollingInterval);
-
-    // Resume polling when page becomes visible
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        pollStatus();
-      }
-    };
-    
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    return () => {
-      clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [id, router, pollingInterval, pollingStartTime, previousStatus]);
+        // Don't auto-redirect - let user choose what to do
+      },
+      onError: (err) => {
+        if (err.error === 'video_not_found') {
+          setError('video_not_found');
+          setLoading(false);
+        }
+      },
+    });
+  }, [id]);
 
   const calculateProgressPercentage = (progress: VideoProgress): number => {
     if (progress.imagesTotal === 0) return 0;
@@ -187,7 +131,7 @@ export default function WaitPage() {
         const json = await res.json();
         const st = json?.data?.status;
         if (st === 'completed' && json?.data?.final_video_url) return json.data.final_video_url as string;
-        if (st?.includes('failed')) throw new Error(json?.data?.error_message || 'render_failed');
+        if (st?.includes('failed') || st === 'cancelled') throw new Error(json?.data?.error_message || 'render_failed');
       } catch (e) {
         console.warn(`[poll] JSON parse error, retrying in ${intervalMs}ms:`, e);
         // Continue polling on JSON errors
@@ -200,7 +144,8 @@ export default function WaitPage() {
   async function handleFinalize(videoId: string) {
     try {
       setIsFinalizing(true);
-      const res = await fetch('/api/render', {
+      // Queued as a render job: repeated clicks find the job already queued
+      const res = await fetch('/api/render-video', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ videoId }),
@@ -272,27 +217,28 @@ export default function WaitPage() {
     );
   }
 
-  // Handle render failed status
-  if (videoStatus.status === 'render_failed') {
+  // Handle render failed and cancelled status
+  const wasCancelled = videoStatus.status === 'cancelled' || videoStatus.error_message === 'cancelled_by_user';
+  if (videoStatus.status === 'render_failed' || videoStatus.status === 'cancelled') {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="mx-auto max-w-md rounded-2xl border p-6 shadow-sm bg-white">
-          <h2 className="text-xl font-semibold text-red-600 mb-2">Rendering failed</h2>
+          <h2 className="text-xl font-semibold text-red-600 mb-2">{wasCancelled ? 'Rendering cancelled' : 'Rendering failed'}</h2>
           <p className="text-sm text-gray-600 mb-4">
-            {videoStatus.error_message === 'cancelled_by_user' 
+            {wasCancelled
               ? 'Rendering was cancelled by user.'
               : (videoStatus.error_message ?? 'Video rendering failed. You can try again.')
             }
           </p>
           <div className="flex gap-2 mb-4">
-            {videoStatus.error_message !== 'cancelled_by_user' && (
+            {!wasCancelled && (
               <button
                 onClick={async () => {
                   try {
-                    await fetch('/api/render', {
+                    await fetch('/api/render-video', {
                       method: 'POST',
                       headers: { 'Content-Type': 'application/json' },
-                      body: JSON.stringify({ videoId: id }),
+                      body: JSON.stringify({ videoId: id, force: true }),
                     });
                     window.location.reload();
                   } catch (err) {
@@ -528,6 +474,22 @@ export default function WaitPage() {
             </div>
           </div>
 
+          {/* Live render progress (from ffmpeg) */}
+          {videoStatus.status === 'rendering' && (
+            <div className="mb-8">
+              <div className="flex justify-between text-sm text-gray-600 mb-2">
+                <span>{videoStatus.stage ?? 'Rendering video...'}</span>
+                <span>{Math.round(videoStatus.render_progress ?? 0)}%</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-violet-600 h-2 rounded-full transition-all duration-500 ease-out"
+                  style={{ width: `${videoStatus.render_progress ?? 0}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+
           {/* Action Buttons - No click-blocking overlays */}
           <div className="flex flex-col sm:flex-row gap-4 justify-center pointer-events-auto">
             <button
@@ -0,0 +1,7 @@
+export async function register() {
+  // The job worker needs Node APIs; skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startInlineJobWorker } = await import('./lib/job-worker');
+    startInlineJobWorker();
+  }
+}
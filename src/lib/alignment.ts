@@ -0,0 +1,187 @@
+import { spawn } from 'node:child_process';
+import { readWavChunks } from './providers/tts-local';
+
+/**
+ * Word-level timing for narration audio.
+ * Uses provider timestamps when the TTS backend returns them and falls back
+ * to a local energy-based aligner over the decoded audio otherwise.
+ */
+
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const FRAME_SEC = 0.01;
+// Dips shorter than this inside speech are treated as part of the word
+const MIN_GAP_FRAMES = 8;
+// Voiced runs shorter than this are clicks/noise
+const MIN_VOICED_FRAMES = 3;
+// Silence at least this long separates phrases
+const PHRASE_PAUSE_FRAMES = 15;
+const ALIGN_SAMPLE_RATE = 16000;
+
+/**
+ * Collapse per-character timestamps (ElevenLabs `alignment`) into words.
+ */
+export function wordsFromCharacterAlignment(chars: string[], starts: number[], ends: number[]): WordTiming[] {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+  for (let i = 0; i < chars.length; i++) {
+    if (/\s/.test(chars[i])) {
+      if (current) words.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) current = { word: '', start: starts[i] ?? 0, end: ends[i] ?? 0 };
+    current.word += chars[i];
+    current.end = ends[i] ?? current.end;
+  }
+  if (current) words.push(current);
+  return words;
+}
+
+export function offsetWords(words: WordTiming[], by: number): WordTiming[] {
+  return words.map(w => ({ ...w, start: w.start + by, end: w.end + by }));
+}
+
+function pcmFromWav(buffer: Buffer): { samples: Float32Array; sampleRate: number } {
+  const { fmt, data } = readWavChunks(buffer);
+  const channels = fmt.readUInt16LE(2);
+  const sampleRate = fmt.readUInt32LE(4);
+  const bits = fmt.readUInt16LE(14);
+  if (fmt.readUInt16LE(0) !== 1 || bits !== 16) throw new Error('Only 16-bit PCM WAV is supported');
+
+  const frames = Math.floor(data.length / (2 * channels));
+  const samples = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) samples[i] = data.readInt16LE(i * 2 * channels) / 32768;
+  return { samples, sampleRate };
+}
+
+// Decode anything ffmpeg understands to mono float PCM
+function pcmFromFfmpeg(buffer: Buffer): Promise<{ samples: Float32Array; sampleRate: number }> {
+  return new Promise((resolve, reject) => {
+    const p = spawn('ffmpeg', ['-v', 'error', '-i', 'pipe:0', '-ac', '1', '-ar', String(ALIGN_SAMPLE_RATE), '-f', 'f32le', 'pipe:1']);
+    const out: Buffer[] = [];
+    let err = '';
+    p.stdout.on('data', d => out.push(d));
+    p.stderr.on('data', d => err += d.toString());
+    p.on('error', reject);
+    p.on('close', code => {
+      if (code !== 0) return reject(new Error(err || `ffmpeg exited with ${code}`));
+      const raw = Buffer.concat(out);
+      const samples = new Float32Array(Math.floor(raw.length / 4));
+      for (let i = 0; i < samples.length; i++) samples[i] = raw.readFloatLE(i * 4);
+      resolve({ samples, sampleRate: ALIGN_SAMPLE_RATE });
+    });
+    p.stdin.on('error', () => { /* ffmpeg may close stdin early on bad input; reported via close */ });
+    p.stdin.end(buffer);
+  });
+}
+
+export async function decodePcm(buffer: Buffer, ext: string): Promise<{ samples: Float32Array; sampleRate: number }> {
+  return ext === 'wav' ? pcmFromWav(buffer) : pcmFromFfmpeg(buffer);
+}
+
+function voicedFrames(samples: Float32Array, sampleRate: number): number[] {
+  const frame = Math.max(1, Math.round(sampleRate * FRAME_SEC));
+  const n = Math.floor(samples.length / frame);
+  const rms = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let j = i * frame; j < (i + 1) * frame; j++) sum += samples[j] * samples[j];
+    rms[i] = Math.sqrt(sum / frame);
+  }
+
+  const sorted = Array.from(rms).sort((a, b) => a - b);
+  const noise = sorted[Math.floor(n * 0.1)] ?? 0;
+  const peak = sorted[n - 1] ?? 0;
+  const threshold = Math.max(noise * 2, peak * 0.05);
+  const voiced = Array.from(rms, v => v > threshold);
+
+  // Bridge short dips, then drop isolated blips
+  let lastVoiced = -1;
+  for (let i = 0; i < n; i++) {
+    if (!voiced[i]) continue;
+    if (lastVoiced >= 0 && i - lastVoiced - 1 <= MIN_GAP_FRAMES) voiced.fill(true, lastVoiced + 1, i);
+    lastVoiced = i;
+  }
+  for (let i = 0; i < n;) {
+    if (!voiced[i]) { i++; continue; }
+    let j = i;
+    while (j < n && voiced[j]) j++;
+    if (j - i < MIN_VOICED_FRAMES) voiced.fill(false, i, j);
+    i = j;
+  }
+
+  const frames: number[] = [];
+  voiced.forEach((v, i) => { if (v) frames.push(i); });
+  return frames;
+}
+
+// Split voiced frames into runs separated by pauses of at least `minPauseFrames`
+function voicedRuns(frames: number[], minPauseFrames: number): number[][] {
+  const runs: number[][] = [];
+  for (const f of frames) {
+    const run = runs[runs.length - 1];
+    if (run && f - run[run.length - 1] <= minPauseFrames) run.push(f);
+    else runs.push([f]);
+  }
+  return runs;
+}
+
+// Spread words over frames weighted by length, so pauses are skipped instead of absorbed into words
+function spreadWords(words: string[], frames: number[], duration: number): WordTiming[] {
+  const weights = words.map(w => w.replace(/[^\p{L}\p{N}]/gu, '').length + 1);
+  const total = weights.reduce((a, b) => a + b, 0);
+  const out: WordTiming[] = [];
+  let cum = 0;
+  for (let i = 0; i < words.length; i++) {
+    const from = Math.min(frames.length - 1, Math.floor((cum / total) * frames.length));
+    cum += weights[i];
+    const to = Math.max(from, Math.min(frames.length - 1, Math.ceil((cum / total) * frames.length) - 1));
+    out.push({
+      word: words[i],
+      start: frames[from] * FRAME_SEC,
+      end: Math.min(duration, (frames[to] + 1) * FRAME_SEC),
+    });
+  }
+  return out;
+}
+
+/**
+ * Align words to the voiced frames of the audio. When the pauses in the
+ * audio line up with the punctuation in the text, each phrase is pinned to
+ * its own stretch of speech; otherwise words are spread over all speech.
+ */
+export function alignWordsToPcm(samples: Float32Array, sampleRate: number, text: string): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (!words.length) return [];
+
+  const duration = samples.length / sampleRate;
+  const frames = voicedFrames(samples, sampleRate);
+  if (!frames.length) {
+    // Nothing detectably voiced: fall back to an even spread over the clip
+    const all = Array.from({ length: Math.max(1, Math.floor(duration / FRAME_SEC)) }, (_, i) => i);
+    return spreadWords(words, all, duration);
+  }
+
+  const phrases: string[][] = [[]];
+  for (const w of words) {
+    phrases[phrases.length - 1].push(w);
+    if (/[.!?,;:]["')\]]*$/.test(w)) phrases.push([]);
+  }
+  if (!phrases[phrases.length - 1].length) phrases.pop();
+
+  const runs = voicedRuns(frames, PHRASE_PAUSE_FRAMES);
+  if (runs.length === phrases.length) {
+    return phrases.flatMap((phrase, i) => spreadWords(phrase, runs[i], duration));
+  }
+  return spreadWords(words, frames, duration);
+}
+
+export async function alignWordsToAudio(buffer: Buffer, ext: string, text: string): Promise<WordTiming[]> {
+  const { samples, sampleRate } = await decodePcm(buffer, ext);
+  return alignWordsToPcm(samples, sampleRate, text);
+}
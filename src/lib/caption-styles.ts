@@ -0,0 +1,49 @@
+export type CaptionStyleId = 'static' | 'pop' | 'highlight' | 'bounce';
+
+export interface CaptionStyle {
+  id: CaptionStyleId;
+  name: string;
+  displayName: string;
+  description: string;
+  // Needs word timings (rendered as ASS instead of the plain SRT)
+  wordLevel: boolean;
+}
+
+export const captionStyles: CaptionStyle[] = [
+  {
+    id: 'static',
+    name: 'static',
+    displayName: 'Static',
+    description: 'Classic subtitles, one phrase at a time',
+    wordLevel: false
+  },
+  {
+    id: 'highlight',
+    name: 'highlight',
+    displayName: 'Highlight',
+    description: 'Karaoke fill: each word lights up as it is spoken',
+    wordLevel: true
+  },
+  {
+    id: 'pop',
+    name: 'pop',
+    displayName: 'Pop',
+    description: 'The spoken word pops out in colour within the phrase',
+    wordLevel: true
+  },
+  {
+    id: 'bounce',
+    name: 'bounce',
+    displayName: 'Bounce',
+    description: 'One big word at a time, bouncing in at screen centre',
+    wordLevel: true
+  }
+];
+
+export const getCaptionStyleById = (id?: string | null): CaptionStyle | undefined => {
+  return captionStyles.find(style => style.id === id);
+};
+
+export const getDefaultCaptionStyle = (): CaptionStyle => {
+  return captionStyles[1]; // highlight
+};
@@ -1,13 +1,7 @@
 import { sbServer } from './supabase-server';
 import { ensureBucket } from './tts';
-
-// Split text into sentences for caption timing
-function splitIntoSentences(text: string): string[] {
-  return text.replace(/\s+/g, ' ')
-    .split(/(?<=[.!?])\s+/)
-    .map(s => s.trim())
-    .filter(Boolean);
-}
+import { parseScriptSections, toPlainNarration } from './script';
+import { alignWordsToAudio, type WordTiming } from './alignment';
 
 // Format timestamp for SRT (hh:mm:ss,ms)
 function formatTimestamp(seconds: number): string {
@@ -49,73 +43,133 @@ function wrapForSrt(text: string, max = 42): string {
   return lines.join('\n');
 }
 
-// Build SRT captions with naive timing
-function buildSrt(text: string, estimatedDuration: number = 0): string {
-  const sentences = splitIntoSentences(text);
-  
-  if (sentences.length === 0) {
-    // Fallback for empty text
-    const duration = Math.max(estimatedDuration, 5.0); // minimum 5 seconds
-    return `1\n00:00:00,000 --> ${formatTimestamp(duration)}\n${text || ' '}\n\n`;
+// Cue grouping limits
+const MAX_CUE_CHARS = 42;
+const MAX_CUE_SEC = 3.5;
+const MAX_WORD_GAP_SEC = 0.6;
+// Hold a cue on screen across short gaps so it doesn't flicker off between words
+const BRIDGE_GAP_SEC = 0.25;
+
+// Split a phrase into `n` cues of roughly equal text length
+function balancedSplit(phrase: WordTiming[], n: number): WordTiming[][] {
+  if (n <= 1) return [phrase];
+  const totalChars = phrase.reduce((a, w) => a + w.word.length + 1, 0);
+  const parts: WordTiming[][] = [[]];
+  let chars = 0;
+  for (const w of phrase) {
+    if (parts[parts.length - 1].length && chars >= (totalChars * parts.length) / n) parts.push([]);
+    parts[parts.length - 1].push(w);
+    chars += w.word.length + 1;
   }
+  return parts;
+}
 
-  const totalChars = sentences.reduce((a, s) => a + s.length, 0) || 1;
-  const minSeg = 1.2; // minimum segment duration
-  let currentTime = 0;
-  const out: string[] = [];
-
-  sentences.forEach((sentence, i) => {
-    const share = sentence.length / totalChars;
-    let duration = Math.max(minSeg, estimatedDuration * share);
-    
-    // Ensure last segment fills remaining time
-    if (i === sentences.length - 1) {
-      duration = Math.max(minSeg, estimatedDuration - currentTime);
+/**
+ * Group word timings into caption cues. Phrases break at sentence ends and
+ * long pauses, then long phrases are split evenly so no cue is too long to read.
+ */
+export function groupCaptionCues(words: WordTiming[]): WordTiming[][] {
+  const phrases: WordTiming[][] = [];
+  let phrase: WordTiming[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const w = words[i];
+    phrase.push(w);
+    const next = words[i + 1];
+    const endsSentence = /[.!?]["')\]]*$/.test(w.word);
+    const longPause = next ? next.start - w.end > MAX_WORD_GAP_SEC : true;
+    if (endsSentence || longPause) {
+      phrases.push(phrase);
+      phrase = [];
     }
-    
-    const start = currentTime;
-    const end = Math.min(estimatedDuration, currentTime + duration);
-    currentTime = end;
+  }
+  if (phrase.length) phrases.push(phrase);
+
+  return phrases.flatMap(p => {
+    const chars = p.map(w => w.word).join(' ').length;
+    const seconds = p[p.length - 1].end - p[0].start;
+    return balancedSplit(p, Math.max(Math.ceil(chars / MAX_CUE_CHARS), Math.ceil(seconds / MAX_CUE_SEC)));
+  });
+}
 
-    const cueText = wrapForSrt(sentence);
+export function buildSrtFromWords(words: WordTiming[]): string {
+  const cues = groupCaptionCues(words);
+  const out: string[] = [];
+  cues.forEach((c, i) => {
+    const start = c[0].start;
+    let end = c[c.length - 1].end;
+    const nextStart = cues[i + 1]?.[0].start;
+    if (nextStart !== undefined && nextStart - end < BRIDGE_GAP_SEC) end = nextStart;
     out.push(
       String(i + 1),
       `${formatTimestamp(start)} --> ${formatTimestamp(end)}`,
-      cueText,
+      wrapForSrt(c.map(w => w.word).join(' ')),
       ''
     );
   });
-
   return out.join('\n');
 }
 
-// Generate captions and upload to Supabase
+// Sidecar JSON with the word timings, stored next to the SRT
+export function captionWordsUrl(captionsUrl: string): string {
+  return captionsUrl.replace(/\.(srt|vtt)(\?.*)?$/i, '.words.json$2');
+}
+
+// Word timings recorded during per-scene narration, if every scene has them
+function wordsFromScenes(scenes: unknown): WordTiming[] | null {
+  if (!Array.isArray(scenes) || !scenes.length) return null;
+  if (!scenes.every(s => Array.isArray(s?.words))) return null;
+  return scenes.flatMap(s => s.words as WordTiming[]);
+}
+
+async function downloadBuffer(url: string): Promise<Buffer> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Audio download failed: ${res.status}`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+// Generate captions aligned to the voiceover and upload to Supabase
 export async function generateCaptions(video: any): Promise<string> {
+  const supabase = sbServer();
+
+  // Re-read the row: audio and scene timings may have landed after the caller loaded it
+  const { data: fresh } = await supabase.from('videos').select('*').eq('id', video.id).maybeSingle();
+  const current = fresh ?? video;
+
   // Get script text from video
-  const scriptText = video.script_text || video.script || '';
+  const scriptText = current.script_text || current.script || '';
   if (!scriptText) {
     throw new Error('No script text found for caption generation');
   }
 
-  console.log(`[captions] Generating captions for video ${video.id}, text length: ${scriptText.length}`);
+  console.log(`[captions] Generating captions for video ${current.id}, text length: ${scriptText.length}`);
 
-  // Estimate duration based on text length (rough estimate: 150 words per minute)
-  const wordCount = scriptText.split(/\s+/).length;
-  const estimatedDuration = Math.max(5.0, (wordCount / 150) * 60); // minimum 5 seconds
-  
-  console.log(`[captions] Estimated duration: ${estimatedDuration.toFixed(2)}s (${wordCount} words)`);
+  let words = wordsFromScenes(current.storyboard_json?.scenes);
+  if (words) {
+    console.log(`[captions] Using ${words.length} word timings recorded with the narration`);
+  } else {
+    if (!current.audio_url) {
+      throw new Error('Audio must be generated before captions');
+    }
+    // No recorded timings: align the script against the voiceover itself
+    const ext = /\.wav(\?|$)/i.test(current.audio_url) ? 'wav' : 'mp3';
+    const audio = await downloadBuffer(current.audio_url);
+    words = await alignWordsToAudio(audio, ext, toPlainNarration(parseScriptSections(scriptText)));
+    console.log(`[captions] Aligned ${words.length} words against the voiceover`);
+  }
 
-  // Build SRT captions
-  const srt = buildSrt(scriptText, estimatedDuration);
+  if (!words.length) {
+    throw new Error('No words to caption');
+  }
+
+  const srt = buildSrtFromWords(words);
   
-  console.log(`[captions] Generated SRT captions with ${splitIntoSentences(scriptText).length} segments`);
+  console.log(`[captions] Generated SRT captions ending at ${words[words.length - 1].end.toFixed(2)}s`);
 
   // Ensure bucket exists
   await ensureBucket('renders-captions');
   
   // Upload to Supabase
-  const supabase = sbServer();
-  const captionsPath = `videos/${video.id}/captions.srt`;
+  const captionsPath = `videos/${current.id}/captions.srt`;
   
   const { error: uploadError } = await supabase.storage
     .from('renders-captions')
@@ -128,6 +182,18 @@ export async function generateCaptions(video: any): Promise<string> {
     throw new Error(`Captions upload failed: ${uploadError.message}`);
   }
 
+  // Word timings sidecar (consumed by word-level caption styles)
+  const { error: wordsError } = await supabase.storage
+    .from('renders-captions')
+    .upload(captionWordsUrl(captionsPath), JSON.stringify({ words }), {
+      contentType: 'application/json',
+      upsert: true
+    });
+
+  if (wordsError) {
+    console.warn(`[captions] Word timings upload failed: ${wordsError.message}`);
+  }
+
   // Get public URL
   const { data: urlData } = supabase.storage
     .from('renders-captions')
@@ -139,4 +205,4 @@ export async function generateCaptions(video: any): Promise<string> {
 
   console.log(`[captions] Captions generated and uploaded successfully: ${urlData.publicUrl}`);
   return urlData.publicUrl;
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,229 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Durable job queue on the `jobs` table. Workers lease a job, keep the lease
+ * alive with heartbeats while it runs, and either complete it or hand it back
+ * for a retry with backoff. Jobs that run out of attempts are dead-lettered
+ * (status `dead`) and stay in the table until requeued.
+ *
+ * Functions take the Supabase client so the worker can run outside Next.
+ */
+
+export type JobType = 'generate-assets' | 'render';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export const JOB_TYPES: readonly JobType[] = ['generate-assets', 'render'];
+
+export interface JobRow {
+  id: string;
+  video_id: string;
+  type: JobType;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 10_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+
+export function isJobType(v: unknown): v is JobType {
+  return typeof v === 'string' && (JOB_TYPES as readonly string[]).includes(v);
+}
+
+// Delay before attempt `attempts + 1`: 10s, 20s, 40s... capped at 10 min, with jitter
+export function retryDelayMs(attempts: number): number {
+  const base = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  return base + Math.floor(Math.random() * base * 0.2);
+}
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running'];
+
+async function activeJob(db: SupabaseClient, videoId: string, type: JobType): Promise<JobRow | null> {
+  const { data, error } = await db
+    .from('jobs')
+    .select('*')
+    .eq('video_id', videoId)
+    .eq('type', type)
+    .in('status', ACTIVE_STATUSES)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as JobRow | null;
+}
+
+/**
+ * Queue a job, or return the one already queued/running for the same video
+ * and type (a partial unique index keeps there from being two).
+ */
+export async function enqueueJob(
+  db: SupabaseClient,
+  type: JobType,
+  videoId: string,
+  payload: Record<string, unknown> = {},
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS }: { maxAttempts?: number } = {}
+): Promise<{ job: JobRow; created: boolean }> {
+  const existing = await activeJob(db, videoId, type);
+  if (existing) return { job: existing, created: false };
+
+  const { data, error } = await db
+    .from('jobs')
+    .insert([{ video_id: videoId, type, payload, max_attempts: maxAttempts }])
+    .select('*')
+    .single();
+  if (error) {
+    // Lost the race against another enqueue
+    if (error.code === '23505') {
+      const raced = await activeJob(db, videoId, type);
+      if (raced) return { job: raced, created: false };
+    }
+    throw new Error(error.message);
+  }
+  return { job: data as JobRow, created: true };
+}
+
+export async function listJobs(db: SupabaseClient, videoId: string): Promise<JobRow[]> {
+  const { data, error } = await db
+    .from('jobs')
+    .select('*')
+    .eq('video_id', videoId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as JobRow[];
+}
+
+/**
+ * Lease the next runnable job: queued and due, or running with an expired
+ * lease (its worker died). Each claim counts as an attempt.
+ * Claims are compare-and-set on (status, attempts), so two workers can't
+ * take the same job.
+ *
+ * An expired job that has used all its attempts is dead-lettered instead and
+ * handed to `onDeadLetter`, so a job that keeps killing its worker stops.
+ */
+export async function claimJob(
+  db: SupabaseClient,
+  workerId: string,
+  types: readonly JobType[],
+  leaseMs: number,
+  onDeadLetter?: (job: JobRow) => Promise<void>
+): Promise<JobRow | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await db
+    .from('jobs')
+    .select('*')
+    .in('type', types)
+    .or(`and(status.eq.queued,run_at.lte."${now}"),and(status.eq.running,lease_expires_at.lt."${now}")`)
+    .order('run_at', { ascending: true })
+    .limit(5);
+  if (error) throw new Error(error.message);
+
+  for (const candidate of (data ?? []) as JobRow[]) {
+    if (candidate.status === 'running' && candidate.attempts >= candidate.max_attempts) {
+      const { data: dead, error: deadError } = await db
+        .from('jobs')
+        .update({
+          status: 'dead',
+          finished_at: new Date().toISOString(),
+          lease_owner: null,
+          lease_expires_at: null,
+          last_error: `Lease expired on the last attempt (${candidate.attempts}/${candidate.max_attempts}); worker ${candidate.lease_owner ?? 'unknown'} stopped`,
+        })
+        .eq('id', candidate.id)
+        .eq('status', 'running')
+        .eq('attempts', candidate.attempts)
+        .select('*');
+      if (deadError) throw new Error(deadError.message);
+      if (dead?.length) await onDeadLetter?.(dead[0] as JobRow);
+      continue;
+    }
+
+    const leasedAt = new Date();
+    const { data: claimed, error: claimError } = await db
+      .from('jobs')
+      .update({
+        status: 'running',
+        attempts: candidate.attempts + 1,
+        lease_owner: workerId,
+        lease_expires_at: new Date(leasedAt.getTime() + leaseMs).toISOString(),
+        heartbeat_at: leasedAt.toISOString(),
+      })
+      .eq('id', candidate.id)
+      .eq('status', candidate.status)
+      .eq('attempts', candidate.attempts)
+      .select('*');
+    if (claimError) throw new Error(claimError.message);
+    if (claimed?.length) return claimed[0] as JobRow;
+  }
+  return null;
+}
+
+// Extend the lease; false once another worker has taken the job over
+export async function heartbeatJob(db: SupabaseClient, job: JobRow, workerId: string, leaseMs: number): Promise<boolean> {
+  const now = new Date();
+  const { data, error } = await db
+    .from('jobs')
+    .update({ heartbeat_at: now.toISOString(), lease_expires_at: new Date(now.getTime() + leaseMs).toISOString() })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId)
+    .eq('status', 'running')
+    .select('id');
+  if (error) throw new Error(error.message);
+  return !!data?.length;
+}
+
+export async function completeJob(db: SupabaseClient, job: JobRow, workerId: string): Promise<void> {
+  const { error } = await db
+    .from('jobs')
+    .update({ status: 'succeeded', finished_at: new Date().toISOString(), lease_owner: null, lease_expires_at: null, last_error: null })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Hand a failed job back: queued again after a backoff, or dead-lettered when
+ * it is out of attempts or the failure is permanent. Returns the new status.
+ */
+export async function failJob(
+  db: SupabaseClient,
+  job: JobRow,
+  workerId: string,
+  message: string,
+  { permanent = false }: { permanent?: boolean } = {}
+): Promise<JobStatus> {
+  const dead = permanent || job.attempts >= job.max_attempts;
+  const patch = dead
+    ? { status: 'dead', finished_at: new Date().toISOString() }
+    : { status: 'queued', run_at: new Date(Date.now() + retryDelayMs(job.attempts)).toISOString() };
+  const { error } = await db
+    .from('jobs')
+    .update({ ...patch, lease_owner: null, lease_expires_at: null, last_error: message.slice(0, 2000) })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+  if (error) throw new Error(error.message);
+  return patch.status as JobStatus;
+}
+
+// Put a dead-lettered job back in the queue with a fresh set of attempts
+export async function requeueDeadJob(db: SupabaseClient, jobId: string): Promise<JobRow | null> {
+  const { data, error } = await db
+    .from('jobs')
+    .update({ status: 'queued', attempts: 0, run_at: new Date().toISOString(), finished_at: null })
+    .eq('id', jobId)
+    .eq('status', 'dead')
+    .select('*');
+  if (error) {
+    // Another job for the same video and type is already active
+    if (error.code === '23505') return null;
+    throw new Error(error.message);
+  }
+  return (data?.[0] as JobRow | undefined) ?? null;
+}
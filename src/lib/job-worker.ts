@@ -0,0 +1,256 @@
+import os from 'node:os';
+import http from 'node:http';
+import https from 'node:https';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import {
+  JOB_TYPES,
+  claimJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  type JobRow,
+  type JobType,
+} from '@/lib/job-queue';
+import { transitionVideoStatus } from '@/lib/video-transitions';
+import type { VideoStatus } from '@/types/video';
+
+/**
+ * Worker loop for the job queue. A job runs by POSTing to the app's own route
+ * for its type, so the worker and the UI share one implementation; the route
+ * records its outcome on the video row and the worker only tracks the job.
+ *
+ * Runs inside the Next server by default (started from instrumentation.ts)
+ * or as its own process with `npm run worker` (set JOB_WORKER=external for
+ * the app then).
+ */
+
+export interface JobWorkerOptions {
+  db: SupabaseClient;
+  // Where the app is served, e.g. http://localhost:4000
+  baseUrl: string;
+  workerId?: string;
+  types?: readonly JobType[];
+  // How long a claimed job stays leased without a heartbeat
+  leaseMs?: number;
+  // Wait between polls when the queue is empty
+  pollMs?: number;
+  signal?: AbortSignal;
+}
+
+const JOB_ROUTES: Record<JobType, string> = {
+  'generate-assets': '/api/generate-assets',
+  render: '/api/render',
+};
+
+// Status recorded on the video when its job is dead-lettered
+const DEAD_LETTER_STATUS: Record<JobType, VideoStatus> = {
+  'generate-assets': 'assets_failed',
+  render: 'render_failed',
+};
+
+const DEFAULT_LEASE_MS = 60_000;
+const DEFAULT_POLL_MS = 3000;
+// Wait between asks while the route reports another live run of the same render
+const DEDUPED_POLL_MS = 15_000;
+
+export function jobWorkerBaseUrl(): string {
+  return process.env.JOB_WORKER_BASE_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:4000';
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+/**
+ * POST JSON with node:http rather than fetch: renders can take longer than
+ * fetch's built-in five-minute header timeout.
+ */
+export function postJson(
+  url: string,
+  body: unknown,
+  signal: AbortSignal,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const payload = JSON.stringify(body);
+    const req = (target.protocol === 'https:' ? https : http).request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) },
+        signal,
+      },
+      res => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => { text += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text }));
+        res.on('error', reject);
+      }
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+function errorFromBody(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown; message?: unknown };
+    return String(parsed.message ?? parsed.error ?? body).slice(0, 500);
+  } catch {
+    return body.slice(0, 500);
+  }
+}
+
+// 202 `deduplicated`: the route is pointing at a run already in flight, not reporting an outcome
+function isDeduplicatedRun(res: { status: number; body: string }): boolean {
+  if (res.status !== 202) return false;
+  try {
+    return (JSON.parse(res.body) as { deduplicated?: unknown }).deduplicated === true;
+  } catch {
+    return false;
+  }
+}
+
+type JobOutcome =
+  | { ok: true }
+  // conflict: the video isn't in a state to run the job, which its row already shows
+  | { ok: false; message: string; permanent: boolean; conflict?: boolean };
+
+async function executeJob(job: JobRow, baseUrl: string, signal: AbortSignal): Promise<JobOutcome> {
+  let res: { status: number; body: string };
+  for (;;) {
+    try {
+      // Keyed by job, so a retry after a crash gets the result of a render that attempt finished
+      res = await postJson(
+        `${baseUrl}${JOB_ROUTES[job.type]}`,
+        { ...job.payload, videoId: job.video_id },
+        signal,
+        { 'Idempotency-Key': `job:${job.id}` }
+      );
+    } catch (e) {
+      // App restarting or unreachable: worth another try
+      return { ok: false, message: e instanceof Error ? e.message : String(e), permanent: false };
+    }
+    if (!isDeduplicatedRun(res)) break;
+
+    // Another run (possibly a crashed attempt whose heartbeat hasn't gone stale yet) holds the
+    // render. Keep the job leased and ask again: the route answers with that run's result once
+    // it finishes, or takes the render over once the run has stopped heartbeating.
+    await sleep(DEDUPED_POLL_MS, signal);
+    if (signal.aborted) return { ok: false, message: 'Aborted while waiting for the render in flight', permanent: false };
+  }
+
+  if (res.status >= 200 && res.status < 300) return { ok: true };
+  const message = `HTTP ${res.status}: ${errorFromBody(res.body)}`;
+  // A render cancelled by the user is finished, not failed
+  if (res.status === 409 && /cancelled_by_user/.test(res.body)) return { ok: true };
+  if (res.status === 409) return { ok: false, message, permanent: true, conflict: true };
+  return { ok: false, message, permanent: res.status >= 400 && res.status < 500 };
+}
+
+async function deadLetter(db: SupabaseClient, job: JobRow, message: string) {
+  console.error(`[jobs] ${job.type} job ${job.id} for ${job.video_id} dead after ${job.attempts} attempt(s): ${message}`);
+  try {
+    await transitionVideoStatus(
+      db,
+      job.video_id,
+      DEAD_LETTER_STATUS[job.type],
+      { error_message: `${job.type} failed after ${job.attempts} attempt(s): ${message}`.slice(0, 900) },
+      `${job.type} job dead-lettered`
+    );
+  } catch (e) {
+    console.warn(`[jobs] Could not mark ${job.video_id} as failed:`, e instanceof Error ? e.message : e);
+  }
+}
+
+async function runJob(db: SupabaseClient, job: JobRow, workerId: string, baseUrl: string, leaseMs: number) {
+  console.log(`[jobs] ${workerId} running ${job.type} job ${job.id} for ${job.video_id} (attempt ${job.attempts}/${job.max_attempts})`);
+  const controller = new AbortController();
+  let leaseLost = false;
+
+  const heartbeat = setInterval(async () => {
+    try {
+      if (!(await heartbeatJob(db, job, workerId, leaseMs))) {
+        leaseLost = true;
+        controller.abort();
+      }
+    } catch (e) {
+      console.warn(`[jobs] Heartbeat for ${job.id} failed:`, e instanceof Error ? e.message : e);
+    }
+  }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+  try {
+    const outcome = await executeJob(job, baseUrl, controller.signal);
+    if (leaseLost) {
+      console.warn(`[jobs] Lost the lease on ${job.id}; leaving it to its new owner`);
+      return;
+    }
+    if (outcome.ok) {
+      await completeJob(db, job, workerId);
+      console.log(`[jobs] ${job.type} job ${job.id} succeeded`);
+      return;
+    }
+    const status = await failJob(db, job, workerId, outcome.message, { permanent: outcome.permanent });
+    if (status === 'dead' && !outcome.conflict) await deadLetter(db, job, outcome.message);
+    else console.warn(`[jobs] ${job.type} job ${job.id} failed (${status}): ${outcome.message}`);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Claim and run jobs one at a time until `signal` aborts
+export async function runJobWorker({
+  db,
+  baseUrl,
+  workerId = `${os.hostname()}:${process.pid}`,
+  types = JOB_TYPES,
+  leaseMs = DEFAULT_LEASE_MS,
+  pollMs = DEFAULT_POLL_MS,
+  signal,
+}: JobWorkerOptions): Promise<void> {
+  console.log(`[jobs] Worker ${workerId} started (${types.join(', ')}) against ${baseUrl}`);
+  while (!signal?.aborted) {
+    let job: JobRow | null = null;
+    try {
+      job = await claimJob(db, workerId, types, leaseMs, dead => deadLetter(db, dead, dead.last_error ?? 'Lease expired'));
+    } catch (e) {
+      console.warn('[jobs] Failed to claim a job:', e instanceof Error ? e.message : e);
+    }
+    if (!job) {
+      await sleep(pollMs, signal);
+      continue;
+    }
+    try {
+      await runJob(db, job, workerId, baseUrl, leaseMs);
+    } catch (e) {
+      // Bookkeeping failed; the lease runs out and the job is picked up again
+      console.error(`[jobs] Error while running ${job.id}:`, e instanceof Error ? e.message : e);
+    }
+  }
+  console.log(`[jobs] Worker ${workerId} stopped`);
+}
+
+// Route modules can be instantiated more than once (dev reloads), so the started flag lives on globalThis
+const g = globalThis as typeof globalThis & { __storyshortInlineWorker?: boolean };
+
+/**
+ * Run a worker inside this process unless JOB_WORKER is `external` (a
+ * separate `npm run worker` process handles the queue) or `off`.
+ */
+export function startInlineJobWorker() {
+  const mode = process.env.JOB_WORKER || 'inline';
+  if (mode !== 'inline' || g.__storyshortInlineWorker) return;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    console.warn('[jobs] Supabase is not configured; inline job worker not started');
+    return;
+  }
+  g.__storyshortInlineWorker = true;
+  void runJobWorker({ db: createClient(url, key), baseUrl: jobWorkerBaseUrl(), workerId: `${os.hostname()}:${process.pid}:inline` });
+}
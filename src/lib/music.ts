@@ -0,0 +1,117 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { BackgroundMusic } from '@/types/video';
+
+/**
+ * Background music: a library of local tracks (MUSIC_LIBRARY_DIR, default
+ * ./music) or a per-video upload, mixed under the narration in the final
+ * render pass with fades and sidechain ducking.
+ */
+
+export const LIBRARY_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.ogg'];
+// Uploads land in the renders-audio bucket, which only accepts these
+export const UPLOAD_CONTENT_TYPES: Record<string, 'mp3' | 'wav'> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+};
+
+export const DEFAULT_MUSIC_SETTINGS = {
+  volume: 0.25,
+  fadeInSec: 1.5,
+  fadeOutSec: 2,
+  ducking: true,
+};
+
+const MAX_FADE_SEC = 10;
+
+function invalidMusic(message: string): Error {
+  return Object.assign(new Error(message), { code: 'invalid_music' });
+}
+
+export function musicLibraryDir(): string {
+  return process.env.MUSIC_LIBRARY_DIR || path.join(process.cwd(), 'music');
+}
+
+export async function listMusicLibrary(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(musicLibraryDir(), { withFileTypes: true });
+    return entries
+      .filter(e => e.isFile() && LIBRARY_EXTENSIONS.includes(path.extname(e.name).toLowerCase()))
+      .map(e => e.name)
+      .sort();
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw e;
+  }
+}
+
+// Absolute path of a library track; the name must be a bare file name
+export function libraryTrackPath(track: string): string {
+  if (!track || track !== path.basename(track) || !LIBRARY_EXTENSIONS.includes(path.extname(track).toLowerCase())) {
+    throw invalidMusic(`Invalid library track: ${track}`);
+  }
+  return path.join(musicLibraryDir(), track);
+}
+
+function numberIn(value: unknown, fallback: number, min: number, max: number, field: string): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) throw invalidMusic(`${field} must be between ${min} and ${max}`);
+  return n;
+}
+
+/**
+ * Validate mix settings from a request, filling gaps from `base` and then
+ * the defaults. Throws code `invalid_music` on out-of-range values.
+ */
+export function parseMusicSettings(
+  input: Record<string, unknown>,
+  base: Partial<BackgroundMusic> = {}
+): Omit<BackgroundMusic, 'source' | 'track'> {
+  const ducking = input.ducking ?? base.ducking ?? DEFAULT_MUSIC_SETTINGS.ducking;
+  return {
+    volume: numberIn(input.volume, base.volume ?? DEFAULT_MUSIC_SETTINGS.volume, 0, 1, 'volume'),
+    fadeInSec: numberIn(input.fadeInSec, base.fadeInSec ?? DEFAULT_MUSIC_SETTINGS.fadeInSec, 0, MAX_FADE_SEC, 'fadeInSec'),
+    fadeOutSec: numberIn(input.fadeOutSec, base.fadeOutSec ?? DEFAULT_MUSIC_SETTINGS.fadeOutSec, 0, MAX_FADE_SEC, 'fadeOutSec'),
+    // Form posts send booleans as strings
+    ducking: ducking === true || ducking === 'true' || ducking === '1',
+  };
+}
+
+/**
+ * Audio filter graph mixing the voiceover with a looped music input,
+ * trimmed to the narration length. Output label is [aout].
+ * @param voice - input label of the narration, e.g. `1:a`
+ * @param music - input label of the music (opened with -stream_loop -1)
+ */
+export function buildMusicMixGraph(voice: string, music: string, durationSec: number, settings: BackgroundMusic): string {
+  const d = Math.max(0, durationSec);
+  const fadeIn = Math.min(settings.fadeInSec, d / 2);
+  const fadeOut = Math.min(settings.fadeOutSec, d / 2);
+  const norm = 'aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo';
+
+  const musicChain = [
+    norm,
+    `atrim=0:${d.toFixed(3)}`,
+    'asetpts=PTS-STARTPTS',
+    `volume=${settings.volume}`,
+    fadeIn > 0 ? `afade=t=in:st=0:d=${fadeIn.toFixed(3)}` : null,
+    fadeOut > 0 ? `afade=t=out:st=${(d - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}` : null,
+  ].filter(Boolean).join(',');
+
+  const parts = [`[${music}]${musicChain}[music]`];
+  if (settings.ducking) {
+    // The voice keys a compressor on the music, pulling it down while someone is talking
+    parts.push(`[${voice}]${norm},asplit=2[voice][key]`);
+    parts.push('[music][key]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400[bed]');
+  } else {
+    parts.push(`[${voice}]${norm}[voice]`);
+    parts.push('[music]anull[bed]');
+  }
+  // normalize=0 keeps the voice at full level instead of halving both inputs
+  parts.push('[voice][bed]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[aout]');
+  return parts.join(';');
+}
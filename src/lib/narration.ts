@@ -0,0 +1,250 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { sbServer } from './supabase-server';
+import { parseScriptSections, toPlainNarration } from './script';
+import { getTtsProvider, type TtsResult } from './providers/tts';
+import { readWavChunks } from './providers/tts-local';
+import { alignWordsToAudio, offsetWords, type WordTiming } from './alignment';
+
+/**
+ * Per-scene narration: one TTS call per storyboard scene, stitched into a
+ * single voiceover with the scene boundaries recorded on the storyboard so
+ * the renderer can time each image to what is actually being said.
+ */
+
+export interface SceneTiming {
+  index: number;
+  narration: string;
+  audio_url: string;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  // Word timings on the combined voiceover timeline
+  words?: WordTiming[];
+}
+
+type StoryboardScene = Record<string, unknown> & {
+  narration?: string;
+  description?: string;
+  text?: string;
+  words?: WordTiming[];
+};
+
+type NarrationVideo = {
+  id: string;
+  script_text?: string | null;
+  script?: string | null;
+  storyboard_json?: { scenes?: StoryboardScene[] } | null;
+};
+
+type TimedStoryboard = Record<string, unknown> & { scenes: StoryboardScene[]; totalDuration: number };
+
+// Tolerance when checking that recorded boundaries line up back to back
+const TIMING_EPSILON_SEC = 0.05;
+
+function splitIntoSentences(text: string): string[] {
+  return text.replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+// Split units into `n` contiguous, roughly equal groups
+function chunk(units: string[], n: number): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < n; i++) {
+    const from = Math.round((i * units.length) / n);
+    const to = Math.round(((i + 1) * units.length) / n);
+    out.push(units.slice(from, to).join(' '));
+  }
+  return out;
+}
+
+/**
+ * Text spoken during each scene.
+ * Precedence: scene.narration → contiguous slice of the script → scene.description/text.
+ */
+export function sceneNarrations(scenes: StoryboardScene[], scriptText: string): string[] {
+  const narration = toPlainNarration(parseScriptSections(scriptText));
+  const sentences = splitIntoSentences(narration);
+  const units = sentences.length >= scenes.length ? sentences : narration.split(/\s+/).filter(Boolean);
+  const slices = units.length >= scenes.length ? chunk(units, scenes.length) : [];
+
+  return scenes.map((scene, i) => {
+    const own = typeof scene.narration === 'string' ? scene.narration.trim() : '';
+    if (own) return own;
+    if (slices[i]) return slices[i];
+    return String(scene.description || scene.text || '').trim();
+  });
+}
+
+async function probeDurationSec(buffer: Buffer, ext: string): Promise<number> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'narration-'));
+  const file = path.join(dir, `clip.${ext}`);
+  try {
+    await fs.writeFile(file, buffer);
+    return await new Promise<number>((resolve, reject) => {
+      const p = spawn('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=nw=1:nk=1', file]);
+      let out = '', err = '';
+      p.stdout.on('data', d => out += d.toString());
+      p.stderr.on('data', d => err += d.toString());
+      p.on('error', reject);
+      p.on('close', code => {
+        const n = parseFloat(out.trim());
+        if (code === 0 && isFinite(n)) resolve(n);
+        else reject(new Error(err || `ffprobe exited with ${code}`));
+      });
+    });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * MP3 clips joined through ffmpeg's concat demuxer. Appending the bytes would
+ * leave each clip's ID3/Xing header mid-stream, where players read it as a
+ * broken frame or the end of the file. The frames are copied, not re-encoded,
+ * so every clip starts where its probed duration put it on the timeline.
+ */
+async function concatMp3(parts: TtsResult[]): Promise<Buffer> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'narration-'));
+  try {
+    const files = await Promise.all(parts.map(async (part, i) => {
+      const file = path.join(dir, `clip-${i}.mp3`);
+      await fs.writeFile(file, part.buffer);
+      return file;
+    }));
+    const list = path.join(dir, 'clips.txt');
+    await fs.writeFile(list, files.map(f => `file '${f.replace(/\\/g, '/')}'`).join('\n') + '\n', 'utf8');
+
+    const out = path.join(dir, 'combined.mp3');
+    await new Promise<void>((resolve, reject) => {
+      const p = spawn('ffmpeg', ['-v', 'error', '-y', '-f', 'concat', '-safe', '0', '-i', list, '-c', 'copy', out]);
+      let err = '';
+      p.stderr.on('data', d => err += d.toString());
+      p.on('error', reject);
+      p.on('close', code => code === 0 ? resolve() : reject(new Error(err || `ffmpeg exited with ${code}`)));
+    });
+    return await fs.readFile(out);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Join clips from one provider into a single file.
+ * MP3 goes through ffmpeg (see concatMp3); WAV needs its header rebuilt.
+ */
+export async function concatAudio(parts: TtsResult[]): Promise<Buffer> {
+  if (parts[0]?.ext !== 'wav') return concatMp3(parts);
+
+  const chunks = parts.map(p => readWavChunks(p.buffer));
+  const fmt = chunks[0].fmt;
+  const data = Buffer.concat(chunks.map(c => c.data));
+  const header = Buffer.alloc(20);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(4 + 8 + fmt.length + 8 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(fmt.length, 16);
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write('data', 0, 'ascii');
+  dataHeader.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, fmt, dataHeader, data]);
+}
+
+async function uploadAudio(storagePath: string, buffer: Buffer, contentType: string): Promise<string> {
+  const supabase = sbServer();
+  const { error } = await supabase.storage
+    .from('renders-audio')
+    .upload(storagePath, buffer, { contentType, upsert: true });
+  if (error) throw new Error(`Audio upload failed: ${error.message}`);
+
+  const { data } = supabase.storage.from('renders-audio').getPublicUrl(storagePath);
+  if (!data?.publicUrl) throw new Error('Failed to get public URL for uploaded audio');
+  return data.publicUrl;
+}
+
+/**
+ * Generate narration for every storyboard scene and upload the per-scene
+ * clips plus the combined voiceover. Returns the storyboard with
+ * `narration`, `audio_url`, `startTime`, `endTime`, `duration` and `words`
+ * filled in.
+ */
+export async function generateSceneNarration(video: NarrationVideo): Promise<{ audioUrl: string; storyboard: TimedStoryboard; timings: SceneTiming[] }> {
+  const storyboard = video.storyboard_json;
+  const scenes: StoryboardScene[] = storyboard?.scenes ?? [];
+  if (!scenes.length) throw new Error('No storyboard scenes found for narration');
+
+  const provider = getTtsProvider();
+  const texts = sceneNarrations(scenes, video.script_text || video.script || '');
+  console.log(`[narration] Generating ${texts.length} scene clips via ${provider.name} for video ${video.id}`);
+
+  // Sequential keeps us well inside provider rate limits and preserves order
+  const clips: TtsResult[] = [];
+  const timings: SceneTiming[] = [];
+  let cursor = 0;
+  for (let i = 0; i < texts.length; i++) {
+    if (!texts[i]) throw new Error(`Scene ${i + 1} has no narration text`);
+    const clip = await provider.synthesize(texts[i]);
+    const duration = clip.durationSec ?? await probeDurationSec(clip.buffer, clip.ext);
+    const audioUrl = await uploadAudio(
+      `videos/${video.id}/scenes/scene-${String(i + 1).padStart(2, '0')}.${clip.ext}`,
+      clip.buffer,
+      clip.contentType
+    );
+
+    let words = clip.words;
+    if (!words) {
+      try {
+        words = await alignWordsToAudio(clip.buffer, clip.ext, texts[i]);
+      } catch (e) {
+        console.warn(`[narration] Scene ${i + 1} alignment failed, captions will align the full track:`, e);
+      }
+    }
+
+    clips.push(clip);
+    timings.push({
+      index: i,
+      narration: texts[i],
+      audio_url: audioUrl,
+      startTime: cursor,
+      endTime: cursor + duration,
+      duration,
+      words: words ? offsetWords(words, cursor) : undefined,
+    });
+    console.log(`[narration] Scene ${i + 1}: ${duration.toFixed(2)}s`);
+    cursor += duration;
+  }
+
+  const combined = await concatAudio(clips);
+  const audioUrl = await uploadAudio(`videos/${video.id}/audio.${clips[0].ext}`, combined, clips[0].contentType);
+  console.log(`[narration] Combined voiceover ${cursor.toFixed(2)}s uploaded: ${audioUrl}`);
+
+  const timedScenes = scenes.map((scene, i) => {
+    const { narration, audio_url, startTime, endTime, duration, words } = timings[i];
+    return { ...scene, narration, audio_url, startTime, endTime, duration, words };
+  });
+
+  return { audioUrl, storyboard: { ...storyboard, scenes: timedScenes, totalDuration: cursor }, timings };
+}
+
+/**
+ * Per-scene durations from recorded narration boundaries, or null when the
+ * scenes have no timings or they no longer line up (e.g. after a reorder).
+ */
+export function sceneDurationsFromTimings(scenes: unknown, count: number): number[] | null {
+  if (!Array.isArray(scenes) || scenes.length !== count || count === 0) return null;
+  const durations: number[] = [];
+  let expectedStart = 0;
+  for (const scene of scenes as Array<{ startTime?: unknown; endTime?: unknown }>) {
+    const { startTime, endTime } = scene ?? {};
+    if (typeof startTime !== 'number' || typeof endTime !== 'number' || endTime <= startTime) return null;
+    if (Math.abs(startTime - expectedStart) > TIMING_EPSILON_SEC) return null;
+    durations.push(endTime - startTime);
+    expectedStart = endTime;
+  }
+  return durations;
+}
@@ -0,0 +1,227 @@
+import { createHash } from 'node:crypto';
+import zlib from 'node:zlib';
+import { SAFE_PREFIX, SANITIZE_PREAMBLE } from '@/lib/safety';
+
+/**
+ * Deterministic offline image renderer used by the `local` image provider.
+ * Draws a two-colour gradient seeded from the prompt hash with the prompt
+ * text printed on top, encoded as PNG without any native dependencies.
+ */
+
+// 5x7 bitmap glyphs, one string per row ('#' = pixel on)
+const GLYPHS: Record<string, string[]> = {
+  A: ['.###.', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+  B: ['####.', '#...#', '#...#', '####.', '#...#', '#...#', '####.'],
+  C: ['.###.', '#...#', '#....', '#....', '#....', '#...#', '.###.'],
+  D: ['####.', '#...#', '#...#', '#...#', '#...#', '#...#', '####.'],
+  E: ['#####', '#....', '#....', '####.', '#....', '#....', '#####'],
+  F: ['#####', '#....', '#....', '####.', '#....', '#....', '#....'],
+  G: ['.###.', '#...#', '#....', '#.###', '#...#', '#...#', '.####'],
+  H: ['#...#', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+  I: ['.###.', '..#..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  J: ['..###', '...#.', '...#.', '...#.', '...#.', '#..#.', '.##..'],
+  K: ['#...#', '#..#.', '#.#..', '##...', '#.#..', '#..#.', '#...#'],
+  L: ['#....', '#....', '#....', '#....', '#....', '#....', '#####'],
+  M: ['#...#', '##.##', '#.#.#', '#.#.#', '#...#', '#...#', '#...#'],
+  N: ['#...#', '#...#', '##..#', '#.#.#', '#..##', '#...#', '#...#'],
+  O: ['.###.', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+  P: ['####.', '#...#', '#...#', '####.', '#....', '#....', '#....'],
+  Q: ['.###.', '#...#', '#...#', '#...#', '#.#.#', '#..#.', '.##.#'],
+  R: ['####.', '#...#', '#...#', '####.', '#.#..', '#..#.', '#...#'],
+  S: ['.####', '#....', '#....', '.###.', '....#', '....#', '####.'],
+  T: ['#####', '..#..', '..#..', '..#..', '..#..', '..#..', '..#..'],
+  U: ['#...#', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+  V: ['#...#', '#...#', '#...#', '#...#', '#...#', '.#.#.', '..#..'],
+  W: ['#...#', '#...#', '#...#', '#.#.#', '#.#.#', '#.#.#', '.#.#.'],
+  X: ['#...#', '#...#', '.#.#.', '..#..', '.#.#.', '#...#', '#...#'],
+  Y: ['#...#', '#...#', '.#.#.', '..#..', '..#..', '..#..', '..#..'],
+  Z: ['#####', '....#', '...#.', '..#..', '.#...', '#....', '#####'],
+  '0': ['.###.', '#...#', '#..##', '#.#.#', '##..#', '#...#', '.###.'],
+  '1': ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  '2': ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+  '3': ['####.', '....#', '....#', '.###.', '....#', '....#', '####.'],
+  '4': ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+  '5': ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+  '6': ['.###.', '#....', '#....', '####.', '#...#', '#...#', '.###.'],
+  '7': ['#####', '....#', '...#.', '..#..', '.#...', '.#...', '.#...'],
+  '8': ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+  '9': ['.###.', '#...#', '#...#', '.####', '....#', '....#', '.###.'],
+  '.': ['.....', '.....', '.....', '.....', '.....', '.##..', '.##..'],
+  ',': ['.....', '.....', '.....', '.....', '.##..', '..#..', '.#...'],
+  '!': ['..#..', '..#..', '..#..', '..#..', '..#..', '.....', '..#..'],
+  '?': ['.###.', '#...#', '....#', '...#.', '..#..', '.....', '..#..'],
+  "'": ['..#..', '..#..', '.#...', '.....', '.....', '.....', '.....'],
+  '-': ['.....', '.....', '.....', '#####', '.....', '.....', '.....'],
+  ':': ['.....', '.##..', '.##..', '.....', '.##..', '.##..', '.....'],
+  ' ': ['.....', '.....', '.....', '.....', '.....', '.....', '.....'],
+};
+
+const GLYPH_W = 5;
+const GLYPH_H = 7;
+
+type Rgb = [number, number, number];
+
+// --- PNG encoding ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([len, body, crc]);
+}
+
+// Encode packed RGB pixels (row-major, 3 bytes per pixel) as an 8-bit truecolor PNG
+export function encodePng(width: number, height: number, rgb: Uint8Array): Buffer {
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;  // bit depth
+  ihdr[9] = 2;  // colour type: truecolor
+  ihdr[10] = 0; // compression
+  ihdr[11] = 0; // filter
+  ihdr[12] = 0; // interlace
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// --- Card drawing ---
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+function fillRect(rgb: Uint8Array, width: number, x0: number, y0: number, w: number, h: number, color: Rgb) {
+  const height = rgb.length / 3 / width;
+  for (let y = Math.max(0, y0); y < Math.min(height, y0 + h); y++) {
+    for (let x = Math.max(0, x0); x < Math.min(width, x0 + w); x++) {
+      const o = (y * width + x) * 3;
+      rgb[o] = color[0];
+      rgb[o + 1] = color[1];
+      rgb[o + 2] = color[2];
+    }
+  }
+}
+
+function drawText(rgb: Uint8Array, width: number, text: string, x: number, y: number, scale: number, color: Rgb) {
+  let cx = x;
+  for (const ch of text) {
+    const glyph = GLYPHS[ch] ?? GLYPHS['?'];
+    for (let gy = 0; gy < GLYPH_H; gy++) {
+      for (let gx = 0; gx < GLYPH_W; gx++) {
+        if (glyph[gy][gx] === '#') fillRect(rgb, width, cx + gx * scale, y + gy * scale, scale, scale, color);
+      }
+    }
+    cx += (GLYPH_W + 1) * scale;
+  }
+}
+
+function wrapWords(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const w = word.length > maxChars ? word.slice(0, maxChars) : word;
+    if (!line) line = w;
+    else if (line.length + 1 + w.length <= maxChars) line += ' ' + w;
+    else {
+      lines.push(line);
+      line = w;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = kept[maxLines - 1].slice(0, maxChars - 3) + '...';
+    return kept;
+  }
+  return lines;
+}
+
+// Strip the safety boilerplate the routes prepend so the card shows the scene itself
+function cardLabel(prompt: string): string {
+  let out = prompt;
+  for (const phrase of [SAFE_PREFIX, ...SANITIZE_PREAMBLE]) out = out.split(phrase.trim()).join(' ');
+  return out
+    .toUpperCase()
+    .replace(/[^A-Z0-9.,!?'\-: ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Render a labelled gradient card for a prompt.
+ * The same prompt always yields byte-identical output.
+ */
+export function renderPromptCard(prompt: string, width = 1024, height = 1792): Buffer {
+  const digest = createHash('sha256').update(prompt).digest();
+  const hue = (digest[0] / 255) * 360;
+  const top = hslToRgb(hue, 0.55, 0.35);
+  const bottom = hslToRgb((hue + 40 + (digest[1] / 255) * 80) % 360, 0.6, 0.18);
+
+  const rgb = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    const t = y / Math.max(1, height - 1);
+    const row: Rgb = [
+      Math.round(top[0] + (bottom[0] - top[0]) * t),
+      Math.round(top[1] + (bottom[1] - top[1]) * t),
+      Math.round(top[2] + (bottom[2] - top[2]) * t),
+    ];
+    fillRect(rgb, width, 0, y, width, 1, row);
+  }
+
+  const margin = Math.round(width * 0.06);
+  const scale = Math.max(2, Math.floor(width / 170));
+  const cell = (GLYPH_W + 1) * scale;
+  const lineHeight = (GLYPH_H + 4) * scale;
+  const maxChars = Math.max(4, Math.floor((width - margin * 2) / cell));
+  const maxLines = Math.max(1, Math.floor((height - margin * 4) / lineHeight) - 2);
+
+  const white: Rgb = [255, 255, 255];
+  const shadow: Rgb = [0, 0, 0];
+  const tag = `LOCAL PREVIEW ${digest.toString('hex').slice(0, 6).toUpperCase()}`;
+  drawText(rgb, width, tag, margin, margin, Math.max(1, Math.floor(scale / 2)), white);
+
+  const lines = wrapWords(cardLabel(prompt) || 'UNTITLED SCENE', maxChars, maxLines);
+  let y = Math.round((height - lines.length * lineHeight) / 2);
+  for (const line of lines) {
+    drawText(rgb, width, line, margin + Math.ceil(scale / 2), y + Math.ceil(scale / 2), scale, shadow);
+    drawText(rgb, width, line, margin, y, scale, white);
+    y += lineHeight;
+  }
+
+  return encodePng(width, height, rgb);
+}
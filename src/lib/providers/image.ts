@@ -0,0 +1,166 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { sanitizePrompt } from '@/lib/safety';
+import { renderPromptCard } from './image-local';
+
+export type ImageProviderName = 'openai' | 'local';
+
+// Target frame the image will be cropped to (see render profiles)
+export interface ImageFormat {
+  width: number;
+  height: number;
+}
+
+export interface ImageProvider {
+  name: ImageProviderName;
+  // Primary generation: best quality, may hit billing/policy limits
+  generate(prompt: string, format?: ImageFormat): Promise<Buffer>;
+  // Cheaper / more permissive path tried when the primary hard-fails
+  generateFallback(prompt: string, format?: ImageFormat): Promise<Buffer>;
+}
+
+type ImageSize = {
+  size: '1024x1792' | '1024x1024' | '1792x1024';
+  width: number;
+  height: number;
+  composition: 'vertical' | 'square' | 'horizontal';
+};
+
+const IMAGE_SIZES: ImageSize[] = [
+  { size: '1024x1792', width: 1024, height: 1792, composition: 'vertical' },
+  { size: '1024x1024', width: 1024, height: 1024, composition: 'square' },
+  { size: '1792x1024', width: 1792, height: 1024, composition: 'horizontal' },
+];
+
+/**
+ * Generation size whose aspect is closest to the target frame, so the
+ * renderer crops as little as possible. Defaults to vertical.
+ */
+export function imageSizeFor(format?: ImageFormat): ImageSize {
+  if (!format) return IMAGE_SIZES[0];
+  const target = Math.log(format.width / format.height);
+  return IMAGE_SIZES.reduce((best, s) =>
+    Math.abs(Math.log(s.width / s.height) - target) < Math.abs(Math.log(best.width / best.height) - target) ? s : best
+  );
+}
+
+const PLACEHOLDER_PATH = path.join(process.cwd(), 'public', 'placeholder.png');
+
+// Provider errors that retrying the same request won't fix
+const HARD_FAIL_MARKERS = ['billing_hard_limit_reached', 'quota_exceeded', 'rate_limit_exceeded'];
+
+function providerError(message: string, raw: string): Error {
+  const code = raw.includes('content_policy_violation')
+    ? 'content_policy_violation'
+    : HARD_FAIL_MARKERS.some(m => raw.includes(m)) ? 'HARD_FAIL' : undefined;
+  return Object.assign(new Error(message), { code, raw });
+}
+
+// True when the error should skip straight to the fallback provider
+export function isHardImageFailure(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'HARD_FAIL' || code === 'content_policy_violation';
+}
+
+async function openaiImagesRequest(body: Record<string, unknown>): Promise<Buffer> {
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+  if (!openaiApiKey) throw new Error('OpenAI API key not configured');
+
+  const response = await fetch('https://api.openai.com/v1/images/generations', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${openaiApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, n: 1, response_format: 'b64_json' }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw providerError(`OpenAI API error: ${response.status} ${text}`, text);
+  }
+
+  const data = await response.json();
+  const base64Data = data?.data?.[0]?.b64_json;
+  if (!base64Data) throw new Error('No image data received from OpenAI');
+
+  return Buffer.from(base64Data, 'base64');
+}
+
+const openaiProvider: ImageProvider = {
+  name: 'openai',
+
+  async generate(prompt, format) {
+    const startTime = Date.now();
+    const { size, composition } = imageSizeFor(format);
+    console.log(`[image:openai] DALL-E 3 (${size}) prompt: ${prompt.substring(0, 50)}...`);
+    const target = format ? `${format.width}x${format.height}` : '1080x1920';
+    const buffer = await openaiImagesRequest({
+      model: 'dall-e-3',
+      prompt: `${prompt} Cinematic ${composition} composition, ${target}, high quality, detailed`,
+      size,
+      quality: 'standard',
+    });
+    console.log(`[image:openai] DALL-E 3 image generated in ${Date.now() - startTime}ms`);
+    return buffer;
+  },
+
+  async generateFallback(prompt) {
+    const startTime = Date.now();
+    console.log(`[image:openai] DALL-E 2 fallback prompt: ${prompt.substring(0, 50)}...`);
+    const buffer = await openaiImagesRequest({
+      model: 'dall-e-2', // more permissive than DALL-E 3
+      prompt: sanitizePrompt(prompt),
+      size: '1024x1024', // square format as fallback
+    });
+    console.log(`[image:openai] DALL-E 2 image generated in ${Date.now() - startTime}ms`);
+    return buffer;
+  },
+};
+
+// Offline provider: deterministic prompt cards, no network or API keys.
+// Cards are drawn at the target frame itself; only the OpenAI sizes are fixed.
+const localProvider: ImageProvider = {
+  name: 'local',
+  async generate(prompt, format) {
+    return renderPromptCard(prompt, format?.width ?? 1024, format?.height ?? 1792);
+  },
+  async generateFallback(prompt, format) {
+    return renderPromptCard(prompt, format?.width ?? 1024, format?.height ?? 1792);
+  },
+};
+
+const providers: Record<ImageProviderName, ImageProvider> = {
+  openai: openaiProvider,
+  local: localProvider,
+};
+
+/**
+ * Resolve the image provider for a video.
+ * Precedence: per-video `image_provider` → IMAGE_PROVIDER env → openai.
+ * When a format is given, every call on the returned provider uses it.
+ */
+export function getImageProvider(name?: string | null, format?: ImageFormat): ImageProvider {
+  const key = (name || process.env.IMAGE_PROVIDER || 'openai').trim().toLowerCase();
+  const provider = providers[key as ImageProviderName];
+  if (!provider) {
+    throw new Error(`Unknown image provider: ${key} (expected one of: ${Object.keys(providers).join(', ')})`);
+  }
+  if (!format) return provider;
+  return {
+    name: provider.name,
+    generate: (prompt) => provider.generate(prompt, format),
+    generateFallback: (prompt) => provider.generateFallback(prompt, format),
+  };
+}
+
+// Placeholder image that never crashes
+export async function placeholderImage(): Promise<Buffer> {
+  try {
+    await fs.access(PLACEHOLDER_PATH);
+    return await fs.readFile(PLACEHOLDER_PATH);
+  } catch {
+    // tiny 1x1 PNG if the placeholder file is missing
+    return Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVQImWNgYGBgAAAABQABJzQpGQAAAABJRU5ErkJggg==', 'base64');
+  }
+}
@@ -0,0 +1,71 @@
+import type { LlmRequest, LlmResponse } from './llm';
+
+/**
+ * Scripted stand-in for the LLM backend.
+ * Builds deterministic HOOK/BODY/CTA scripts and storyboard JSON from the
+ * prompt itself so the wizard can run end to end offline.
+ */
+
+function lastUserMessage(req: LlmRequest): string {
+  for (let i = req.messages.length - 1; i >= 0; i--) {
+    if (req.messages[i].role === 'user') return req.messages[i].content;
+  }
+  return '';
+}
+
+function sentences(text: string): string[] {
+  return text
+    .replace(/\b(HOOK|BODY|CTA):\s*/gi, '')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+function clip(s: string, max: number): string {
+  return s.length <= max ? s : s.slice(0, max).replace(/\s+\S*$/, '') + '…';
+}
+
+// Rough token estimate (~4 chars per token) so usage logging still has numbers
+function estimateTokens(s: string): number {
+  return Math.max(1, Math.ceil(s.length / 4));
+}
+
+function fakeScript(prompt: string): string {
+  const premise = (/"([\s\S]+?)"/.exec(prompt)?.[1] ?? prompt).replace(/\s+/g, ' ').trim() || 'a small idea';
+  const topic = clip(premise.replace(/[.!?]+$/, ''), 120);
+  return [
+    `HOOK: Nobody saw this coming: ${topic.charAt(0).toLowerCase()}${topic.slice(1)}.`,
+    `BODY: ${clip(premise, 150)} One choice leads to another, and the ending surprises everyone.`,
+    'CTA: Follow for more stories like this one.',
+  ].join('\n');
+}
+
+const FAKE_MOTIONS = ['zoom_in', 'pan_right', 'zoom_out', 'pan_left'];
+
+function fakeStoryboard(prompt: string): string {
+  const script = (/Script:\s*([\s\S]*?)(?:\n\s*Return only|$)/i.exec(prompt)?.[1] ?? prompt).trim();
+  const lines = sentences(script).slice(0, 8);
+  if (!lines.length) lines.push('A quiet moment before the story begins.');
+
+  const scenes = lines.map((line, i) => ({
+    scene_number: i + 1,
+    description: line,
+    narration: line,
+    duration: 6,
+    image_prompt: `Cinematic illustration: ${line.replace(/[.!?]+$/, '')}. Soft lighting, rich colours, vertical frame.`,
+    motion: FAKE_MOTIONS[i % FAKE_MOTIONS.length],
+  }));
+  return JSON.stringify({ scenes });
+}
+
+export function fakeComplete(req: LlmRequest): LlmResponse {
+  const prompt = lastUserMessage(req);
+  const text = req.task === 'storyboard' ? fakeStoryboard(prompt) : fakeScript(prompt);
+  const promptTokens = req.messages.reduce((n, m) => n + estimateTokens(m.content), 0);
+  const completionTokens = estimateTokens(text);
+  return {
+    text,
+    model: `fake/${req.task}`,
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+  };
+}
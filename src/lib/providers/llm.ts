@@ -0,0 +1,173 @@
+import { fetchWithTimeout } from '@/lib/fetchWithTimeout';
+import { withRetry } from '@/lib/withRetry';
+import { fakeComplete } from './llm-fake';
+
+export type LlmBackendName = 'openrouter' | 'fake';
+
+// Each pipeline step picks its own model
+export type LlmTask = 'script' | 'storyboard';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for a JSON object and parse it into `json`
+  json?: boolean;
+  timeoutMs?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  usage?: LlmUsage;
+  json?: unknown;
+}
+
+export interface LlmClient {
+  name: LlmBackendName;
+  complete(req: LlmRequest): Promise<LlmResponse>;
+}
+
+const DEFAULT_MODELS: Record<LlmTask, string> = {
+  script: 'openai/gpt-4',
+  storyboard: 'anthropic/claude-3.5-sonnet',
+};
+
+const MODEL_ENV: Record<LlmTask, string> = {
+  script: 'LLM_MODEL_SCRIPT',
+  storyboard: 'LLM_MODEL_STORYBOARD',
+};
+
+/**
+ * Model for a task.
+ * Precedence: LLM_MODEL_<TASK> env → built-in default.
+ */
+export function modelForTask(task: LlmTask): string {
+  return process.env[MODEL_ENV[task]] || DEFAULT_MODELS[task];
+}
+
+/**
+ * Pull a JSON object out of a model reply.
+ * Tolerates ```json fences and chatter around the object.
+ */
+export function extractJson(text: string): unknown {
+  const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '').trim();
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(unfenced.slice(start, end + 1));
+      } catch {
+        // fall through
+      }
+    }
+  }
+  throw Object.assign(new Error('LLM response is not valid JSON'), { code: 'invalid_json', raw: text });
+}
+
+function withJson(res: LlmResponse, req: LlmRequest): LlmResponse {
+  return req.json ? { ...res, json: extractJson(res.text) } : res;
+}
+
+function logUsage(name: LlmBackendName, req: LlmRequest, res: LlmResponse) {
+  const u = res.usage;
+  console.log(`[llm:${name}] ${req.task} via ${res.model}` + (u ? ` tokens=${u.totalTokens} (prompt ${u.promptTokens}, completion ${u.completionTokens})` : ''));
+}
+
+const openrouterClient: LlmClient = {
+  name: 'openrouter',
+
+  async complete(req) {
+    const apiKey = process.env.OPENROUTER_API_KEY;
+    if (!apiKey) throw new Error('OpenRouter API key not configured');
+
+    const model = modelForTask(req.task);
+    const payload: Record<string, unknown> = {
+      model,
+      messages: req.messages,
+      max_tokens: req.maxTokens ?? 1000,
+      temperature: req.temperature ?? 0.7,
+    };
+    // Native JSON mode where the upstream supports it; everything else relies on extractJson
+    if (req.json && model.startsWith('openai/')) {
+      payload.response_format = { type: 'json_object' };
+    }
+
+    const r = await withRetry(async () => {
+      const res = await fetchWithTimeout('https://openrouter.ai/api/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+          'HTTP-Referer': process.env.NEXT_PUBLIC_BASE_URL || 'https://storyshort.app',
+          'X-Title': 'StoryShort - AI Video Generation',
+        },
+        body: JSON.stringify(payload),
+      }, req.timeoutMs ?? 20000);
+      if (!res.ok) {
+        const text = await res.text().catch(() => '<no body>');
+        throw Object.assign(new Error(`OpenRouter ${res.status}: ${text}`), { status: res.status });
+      }
+      return res;
+    }, { label: `openrouter.${req.task}`, maxRetries: 3, baseDelayMs: 800 });
+
+    const data = await r.json();
+    const text: string = data?.choices?.[0]?.message?.content?.trim?.() || '';
+    const res: LlmResponse = {
+      text,
+      model: data?.model || model,
+      usage: data?.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens ?? 0,
+            completionTokens: data.usage.completion_tokens ?? 0,
+            totalTokens: data.usage.total_tokens ?? 0,
+          }
+        : undefined,
+    };
+    logUsage('openrouter', req, res);
+    return withJson(res, req);
+  },
+};
+
+// Offline backend: canned script/storyboard output, no network or API keys
+const fakeClient: LlmClient = {
+  name: 'fake',
+  async complete(req) {
+    const res = fakeComplete(req);
+    logUsage('fake', req, res);
+    return withJson(res, req);
+  },
+};
+
+const clients: Record<LlmBackendName, LlmClient> = {
+  openrouter: openrouterClient,
+  fake: fakeClient,
+};
+
+/**
+ * Resolve the LLM backend.
+ * Precedence: explicit name → LLM_PROVIDER env → openrouter.
+ */
+export function getLlmClient(name?: string | null): LlmClient {
+  const key = (name || process.env.LLM_PROVIDER || 'openrouter').trim().toLowerCase();
+  const client = clients[key as LlmBackendName];
+  if (!client) {
+    throw new Error(`Unknown LLM provider: ${key} (expected one of: ${Object.keys(clients).join(', ')})`);
+  }
+  return client;
+}
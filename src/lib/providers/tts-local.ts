@@ -0,0 +1,106 @@
+import { createHash } from 'node:crypto';
+import type { WordTiming } from '@/lib/alignment';
+
+/**
+ * Deterministic offline speech stand-in used by the `local` TTS provider.
+ * Each word becomes a short voiced tone and punctuation becomes silence, so
+ * the output has a realistic length (~150 wpm) for captions and rendering.
+ */
+
+export const LOCAL_TTS_SAMPLE_RATE = 22050;
+
+const WORD_BASE_SEC = 0.14;
+const WORD_PER_CHAR_SEC = 0.04;
+const WORD_GAP_SEC = 0.06;
+const COMMA_PAUSE_SEC = 0.2;
+const SENTENCE_PAUSE_SEC = 0.45;
+const EDGE_PAD_SEC = 0.25;
+
+// Encode mono 16-bit PCM samples as a WAV file
+export function encodeWav(samples: Int16Array, sampleRate = LOCAL_TTS_SAMPLE_RATE): Buffer {
+  const dataBytes = samples.length * 2;
+  const buf = Buffer.alloc(44 + dataBytes);
+  buf.write('RIFF', 0, 'ascii');
+  buf.writeUInt32LE(36 + dataBytes, 4);
+  buf.write('WAVE', 8, 'ascii');
+  buf.write('fmt ', 12, 'ascii');
+  buf.writeUInt32LE(16, 16);             // fmt chunk size
+  buf.writeUInt16LE(1, 20);              // PCM
+  buf.writeUInt16LE(1, 22);              // mono
+  buf.writeUInt32LE(sampleRate, 24);
+  buf.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  buf.writeUInt16LE(2, 32);              // block align
+  buf.writeUInt16LE(16, 34);             // bits per sample
+  buf.write('data', 36, 'ascii');
+  buf.writeUInt32LE(dataBytes, 40);
+  for (let i = 0; i < samples.length; i++) buf.writeInt16LE(samples[i], 44 + i * 2);
+  return buf;
+}
+
+// Split a WAV file into its format and sample data chunks
+export function readWavChunks(buf: Buffer): { fmt: Buffer; data: Buffer } {
+  let offset = 12;
+  let fmt: Buffer | null = null;
+  while (offset + 8 <= buf.length) {
+    const id = buf.toString('ascii', offset, offset + 4);
+    const size = buf.readUInt32LE(offset + 4);
+    const body = buf.subarray(offset + 8, offset + 8 + size);
+    if (id === 'fmt ') fmt = body;
+    if (id === 'data' && fmt) return { fmt, data: body };
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error('Invalid WAV: missing fmt/data chunk');
+}
+
+type Segment = { kind: 'tone'; sec: number; hz: number; word: string } | { kind: 'silence'; sec: number };
+
+function segmentsFor(text: string): Segment[] {
+  const segments: Segment[] = [{ kind: 'silence', sec: EDGE_PAD_SEC }];
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    const letters = token.replace(/[^\p{L}\p{N}]/gu, '');
+    if (letters) {
+      const seed = createHash('md5').update(letters.toLowerCase()).digest();
+      segments.push({
+        kind: 'tone',
+        sec: WORD_BASE_SEC + WORD_PER_CHAR_SEC * letters.length,
+        hz: 140 + (seed[0] / 255) * 80,
+        word: token,
+      });
+      segments.push({ kind: 'silence', sec: WORD_GAP_SEC });
+    }
+    if (/[.!?]["')\]]*$/.test(token)) segments.push({ kind: 'silence', sec: SENTENCE_PAUSE_SEC });
+    else if (/[,;:—-]["')\]]*$/.test(token)) segments.push({ kind: 'silence', sec: COMMA_PAUSE_SEC });
+  }
+  segments.push({ kind: 'silence', sec: EDGE_PAD_SEC });
+  return segments;
+}
+
+/**
+ * Synthesize a placeholder voice track for the given narration.
+ * The same text always yields byte-identical output.
+ */
+export function synthesizeToneSpeech(text: string, sampleRate = LOCAL_TTS_SAMPLE_RATE): { buffer: Buffer; durationSec: number; words: WordTiming[] } {
+  const segments = segmentsFor(text);
+  const total = segments.reduce((n, s) => n + Math.round(s.sec * sampleRate), 0);
+  const samples = new Int16Array(total);
+  const words: WordTiming[] = [];
+
+  let offset = 0;
+  for (const seg of segments) {
+    const count = Math.round(seg.sec * sampleRate);
+    if (seg.kind === 'tone') {
+      words.push({ word: seg.word, start: offset / sampleRate, end: (offset + count) / sampleRate });
+      const attack = Math.min(count / 4, sampleRate * 0.02);
+      for (let i = 0; i < count; i++) {
+        const t = i / sampleRate;
+        // Soft attack/release avoids clicks between words
+        const env = Math.min(1, i / attack, (count - i) / attack);
+        const v = Math.sin(2 * Math.PI * seg.hz * t) * 0.6 + Math.sin(4 * Math.PI * seg.hz * t) * 0.25;
+        samples[offset + i] = Math.round(v * env * 0.35 * 32767);
+      }
+    }
+    offset += count;
+  }
+
+  return { buffer: encodeWav(samples, sampleRate), durationSec: total / sampleRate, words };
+}
@@ -1,21 +1,114 @@
-export async function ttsGenerateBuffer({
-  text,
-  voiceId = process.env.VOICE_ID ?? 'EFbNMe9bCQ0gsl51ZIWn',
-}: { text: string; voiceId?: string }) {
-  const apiKey = process.env.ELEVENLABS_API_KEY!;
-  const res = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-    method: 'POST',
-    headers: {
-      'xi-api-key': apiKey,
-      'Content-Type': 'application/json',
-      'Accept': 'audio/mpeg',
-    },
-    body: JSON.stringify({
-      text,
-      model_id: 'eleven_multilingual_v2',
-      voice_settings: { stability: 0.4, similarity_boost: 0.75 },
-    }),
-  });
-  if (!res.ok) throw new Error(`TTS failed: ${res.status} ${await res.text()}`);
-  return Buffer.from(await res.arrayBuffer());
-} 
\ No newline at end of file
+import { synthesizeToneSpeech } from './tts-local';
+import { wordsFromCharacterAlignment, type WordTiming } from '@/lib/alignment';
+
+export type TtsProviderName = 'elevenlabs' | 'local';
+
+export interface TtsResult {
+  buffer: Buffer;
+  contentType: 'audio/mpeg' | 'audio/wav';
+  ext: 'mp3' | 'wav';
+  // Known when the provider can compute it without probing the audio
+  durationSec?: number;
+  // Word timestamps, when the provider reports them
+  words?: WordTiming[];
+}
+
+export interface TtsOptions {
+  voiceId?: string | null;
+}
+
+export interface TtsProvider {
+  name: TtsProviderName;
+  synthesize(text: string, opts?: TtsOptions): Promise<TtsResult>;
+}
+
+export const DEFAULT_VOICE_ID = 'EFbNMe9bCQ0gsl51ZIWn';
+
+// One set of voice settings for every call site
+const ELEVENLABS_VOICE_SETTINGS = { stability: 0.4, similarity_boost: 0.75 };
+
+/**
+ * Resolve the voice to use.
+ * Precedence: explicit voice → ELEVENLABS_VOICE_ID → VOICE_ID (legacy) → default.
+ */
+export function resolveVoiceId(voiceId?: string | null): string {
+  return voiceId || process.env.ELEVENLABS_VOICE_ID || process.env.VOICE_ID || DEFAULT_VOICE_ID;
+}
+
+const elevenlabsProvider: TtsProvider = {
+  name: 'elevenlabs',
+
+  async synthesize(text, opts) {
+    const apiKey = process.env.ELEVENLABS_API_KEY;
+    if (!apiKey) {
+      throw Object.assign(new Error('Missing ELEVENLABS_API_KEY environment variable'), { code: 'missing_api_key' });
+    }
+
+    const voiceId = resolveVoiceId(opts?.voiceId);
+    // The with-timestamps variant returns the same MP3 plus per-character timings
+    const res = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/with-timestamps`, {
+      method: 'POST',
+      headers: {
+        'xi-api-key': apiKey,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        text,
+        model_id: 'eleven_multilingual_v2',
+        voice_settings: ELEVENLABS_VOICE_SETTINGS,
+      }),
+    });
+
+    if (!res.ok) {
+      const raw = await res.text();
+      let details: unknown = raw;
+      try {
+        details = JSON.parse(raw);
+      } catch {
+        // keep raw text
+      }
+      throw Object.assign(new Error(`TTS API error: ${res.status} ${raw}`), { status: res.status, details });
+    }
+
+    const data = await res.json();
+    if (!data?.audio_base64) throw new Error('No audio data received from ElevenLabs');
+    const alignment = data.alignment;
+
+    return {
+      buffer: Buffer.from(data.audio_base64, 'base64'),
+      contentType: 'audio/mpeg',
+      ext: 'mp3',
+      words: alignment?.characters
+        ? wordsFromCharacterAlignment(alignment.characters, alignment.character_start_times_seconds, alignment.character_end_times_seconds)
+        : undefined,
+    };
+  },
+};
+
+// Offline provider: synthetic tone speech with realistic timing, no network or API keys
+const localProvider: TtsProvider = {
+  name: 'local',
+  async synthesize(text) {
+    const { buffer, durationSec, words } = synthesizeToneSpeech(text);
+    return { buffer, contentType: 'audio/wav', ext: 'wav', durationSec, words };
+  },
+};
+
+const providers: Record<TtsProviderName, TtsProvider> = {
+  elevenlabs: elevenlabsProvider,
+  local: localProvider,
+};
+
+/**
+ * Resolve the TTS provider.
+ * Precedence: explicit name → TTS_PROVIDER env → elevenlabs.
+ */
+export function getTtsProvider(name?: string | null): TtsProvider {
+  const key = (name || process.env.TTS_PROVIDER || 'elevenlabs').trim().toLowerCase();
+  const provider = providers[key as TtsProviderName];
+  if (!provider) {
+    throw new Error(`Unknown TTS provider: ${key} (expected one of: ${Object.keys(providers).join(', ')})`);
+  }
+  return provider;
+}
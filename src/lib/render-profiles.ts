@@ -0,0 +1,56 @@
+export type AspectRatio = '9:16' | '1:1' | '4:5' | '16:9';
+export type Resolution = '720p' | '1080p';
+
+export interface RenderProfile {
+  id: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  width: number;
+  height: number;
+  displayName: string;
+  description: string;
+  // Distance of bottom captions from the frame edge, as a fraction of the height
+  captionMargin: number;
+}
+
+const aspects: { ratio: AspectRatio; w: number; h: number; name: string; description: string; captionMargin: number }[] = [
+  { ratio: '9:16', w: 9, h: 16, name: 'Vertical', description: 'Shorts, Reels and TikTok', captionMargin: 0.28 },
+  { ratio: '4:5', w: 4, h: 5, name: 'Portrait', description: 'Instagram and Facebook feed posts', captionMargin: 0.16 },
+  { ratio: '1:1', w: 1, h: 1, name: 'Square', description: 'Square feed posts', captionMargin: 0.12 },
+  { ratio: '16:9', w: 16, h: 9, name: 'Landscape', description: 'YouTube and desktop players', captionMargin: 0.08 }
+];
+
+// Short side of the frame in pixels
+const resolutions: Record<Resolution, number> = {
+  '720p': 720,
+  '1080p': 1080
+};
+
+// x264 with yuv420p needs even dimensions
+const even = (n: number) => Math.round(n / 2) * 2;
+
+export const renderProfiles: RenderProfile[] = aspects.flatMap(aspect =>
+  (Object.keys(resolutions) as Resolution[]).map(resolution => {
+    const short = resolutions[resolution];
+    const portrait = aspect.h >= aspect.w;
+    const long = even((short * Math.max(aspect.w, aspect.h)) / Math.min(aspect.w, aspect.h));
+    return {
+      id: `${aspect.ratio}-${resolution}`,
+      aspectRatio: aspect.ratio,
+      resolution,
+      width: portrait ? short : long,
+      height: portrait ? long : short,
+      displayName: `${aspect.name} ${aspect.ratio} · ${resolution}`,
+      description: aspect.description,
+      captionMargin: aspect.captionMargin
+    };
+  })
+);
+
+export const getRenderProfileById = (id?: string | null): RenderProfile | undefined => {
+  return renderProfiles.find(profile => profile.id === id);
+};
+
+export const getDefaultRenderProfile = (): RenderProfile => {
+  return getRenderProfileById('9:16-1080p')!;
+};
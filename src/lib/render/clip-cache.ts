@@ -0,0 +1,97 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+
+/**
+ * Per-scene clip cache. Rendered Ken Burns / still clips are kept per video,
+ * keyed by what goes into them, so a re-render after editing one scene only
+ * re-encodes the clips whose inputs changed.
+ */
+
+// Bump when the clip ffmpeg arguments change so stale clips stop matching
+const CLIP_CACHE_VERSION = 3;
+
+export interface ClipKeyInput {
+  imageHash: string;
+  seconds: number;
+  // describeSceneMotion() of the scene's move, or 'still'
+  motion: string;
+  profileId: string;
+  width: number;
+  height: number;
+  fps: number;
+  // Ken Burns only
+  maxZoom?: number;
+}
+
+// Survives the per-run temp dirs, which are removed after each render
+export function clipCacheDir(videoId: string): string {
+  return path.join(process.cwd(), 'renders', videoId, 'clips');
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk as Buffer);
+  return hash.digest('hex');
+}
+
+export function clipCacheKey({ imageHash, seconds, motion, profileId, width, height, fps, maxZoom }: ClipKeyInput): string {
+  const parts = [
+    `v${CLIP_CACHE_VERSION}`,
+    imageHash,
+    // ms precision: float noise in the timings must not miss the cache
+    seconds.toFixed(3),
+    motion,
+    `${profileId}:${width}x${height}@${fps}`,
+    motion === 'still' ? '' : String(maxZoom ?? ''),
+  ];
+  return createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 32);
+}
+
+function clipPath(dir: string, key: string): string {
+  return path.join(dir, `${key}.mp4`);
+}
+
+// Path of the cached clip for `key`, or null when it hasn't been rendered
+export async function findCachedClip(dir: string, key: string): Promise<string | null> {
+  const p = clipPath(dir, key);
+  try {
+    const stat = await fs.promises.stat(p);
+    return stat.size > 0 ? p : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move a freshly rendered clip into the cache and return its cached path.
+ * Clips are rendered elsewhere and renamed in, so a killed ffmpeg never
+ * leaves a partial file under a valid key.
+ */
+export async function storeClip(dir: string, key: string, renderedPath: string): Promise<string> {
+  await fs.promises.mkdir(dir, { recursive: true });
+  const target = clipPath(dir, key);
+  try {
+    await fs.promises.rename(renderedPath, target);
+  } catch {
+    // Different filesystem: copy through a temp name instead
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.promises.copyFile(renderedPath, tmp);
+    await fs.promises.rename(tmp, target);
+  }
+  return target;
+}
+
+// Drop clips no longer used by the storyboard so the cache holds one render's worth per video
+export async function pruneClipCache(dir: string, keep: Iterable<string>): Promise<number> {
+  const keepFiles = new Set(Array.from(keep, key => `${key}.mp4`));
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(dir);
+  } catch {
+    return 0;
+  }
+  const stale = entries.filter(name => !keepFiles.has(name));
+  await Promise.all(stale.map(name => fs.promises.rm(path.join(dir, name), { force: true })));
+  return stale.length;
+}
@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { captionFontForStyle } from './fonts';
+
+test('the font matching the most descriptors wins', () => {
+  assert.equal(captionFontForStyle('sans-serif, thin, clean').id, 'light-sans');
+  assert.equal(captionFontForStyle('Rounded, Playful').id, 'rounded');
+  assert.equal(captionFontForStyle('handwritten').id, 'handwritten');
+});
+
+test('descriptors match whole, so sans-serif is not serif', () => {
+  assert.equal(captionFontForStyle('sans-serif').id, 'bold-sans');
+  assert.equal(captionFontForStyle('serif, elegant').id, 'serif');
+});
+
+test('no or unknown descriptors fall back to the default font', () => {
+  assert.equal(captionFontForStyle(null).id, 'bold-sans');
+  assert.equal(captionFontForStyle('gothic, blocky').id, 'bold-sans');
+});
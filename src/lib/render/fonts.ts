@@ -0,0 +1,134 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Caption fonts. The fonts are committed in ./fonts with their OFL licences
+ * (FONTS_DIR overrides), are handed to libass with `fontsdir`, and are picked
+ * from the theme's `fontStyle`, so captions look the same on Linux, macOS and Windows.
+ */
+
+export interface CaptionFont {
+  id: string;
+  // Family name libass matches against (the font's own name table)
+  family: string;
+  file: string;
+  bold: boolean;
+  // fontStyle descriptors that select this font
+  keywords: string[];
+  // Where the committed file comes from (the OFL release packaged on npm), used by `npm run fonts:fetch`
+  source: string;
+}
+
+const GOOGLE_FONTS = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+
+export const CAPTION_FONTS: CaptionFont[] = [
+  {
+    id: 'bold-sans',
+    family: 'Montserrat',
+    file: 'Montserrat-Bold.ttf',
+    bold: true,
+    keywords: ['sans-serif', 'bold'],
+    source: `${GOOGLE_FONTS}/montserrat@0.4.2/700Bold/Montserrat_700Bold.ttf`,
+  },
+  {
+    id: 'rounded',
+    family: 'Nunito',
+    file: 'Nunito-Bold.ttf',
+    bold: true,
+    keywords: ['rounded', 'playful'],
+    source: `${GOOGLE_FONTS}/nunito@0.4.2/700Bold/Nunito_700Bold.ttf`,
+  },
+  {
+    id: 'serif',
+    family: 'Lora',
+    file: 'Lora-Bold.ttf',
+    bold: true,
+    keywords: ['serif', 'elegant'],
+    source: `${GOOGLE_FONTS}/lora@0.4.2/700Bold/Lora_700Bold.ttf`,
+  },
+  {
+    id: 'light-sans',
+    family: 'Inter Light',
+    file: 'Inter-Light.ttf',
+    bold: false,
+    keywords: ['thin', 'light', 'clean'],
+    source: `${GOOGLE_FONTS}/inter@0.4.2/300Light/Inter_300Light.ttf`,
+  },
+  {
+    id: 'handwritten',
+    family: 'Patrick Hand',
+    file: 'PatrickHand-Regular.ttf',
+    bold: false,
+    keywords: ['handwritten', 'friendly'],
+    source: `${GOOGLE_FONTS}/patrick-hand@0.4.1/400Regular/PatrickHand_400Regular.ttf`,
+  },
+];
+
+// Not picked by style: libass falls back to it for glyphs the caption font lacks (Hebrew)
+export const FALLBACK_FONTS: Pick<CaptionFont, 'family' | 'file' | 'source'>[] = [
+  {
+    family: 'Noto Sans Hebrew',
+    file: 'NotoSansHebrew-Bold.ttf',
+    source: `${GOOGLE_FONTS}/noto-sans-hebrew@0.4.1/700Bold/NotoSansHebrew_700Bold.ttf`,
+  },
+];
+
+export function getCaptionFontById(id: string | null | undefined): CaptionFont | undefined {
+  return CAPTION_FONTS.find(f => f.id === id);
+}
+
+export function getDefaultCaptionFont(): CaptionFont {
+  return CAPTION_FONTS[0]; // bold sans
+}
+
+export function fontsDir(): string {
+  return process.env.FONTS_DIR || path.join(process.cwd(), 'fonts');
+}
+
+/**
+ * The font for a theme's fontStyle ("sans-serif, thin, clean"): the one whose
+ * keywords match the most descriptors, earlier fonts winning ties. Descriptors
+ * match whole, so "sans-serif" is never read as "serif".
+ */
+export function captionFontForStyle(fontStyle: string | null | undefined): CaptionFont {
+  const descriptors = (fontStyle ?? '').toLowerCase().split(',').map(d => d.trim()).filter(Boolean);
+  let best = getDefaultCaptionFont();
+  let bestScore = 0;
+  for (const font of CAPTION_FONTS) {
+    const score = descriptors.filter(d => font.keywords.includes(d)).length;
+    if (score > bestScore) [best, bestScore] = [font, score];
+  }
+  return best;
+}
+
+// Where the OS keeps its fonts, for renders on a checkout without the bundled files
+function systemFonts(platform: NodeJS.Platform): { dir: string; family: string } {
+  if (platform === 'win32') return { dir: path.win32.join(process.env.WINDIR || 'C:\\Windows', 'Fonts'), family: 'Arial' };
+  if (platform === 'darwin') return { dir: '/Library/Fonts', family: 'Arial' };
+  return { dir: '/usr/share/fonts', family: 'DejaVu Sans' };
+}
+
+export interface ResolvedCaptionFont {
+  family: string;
+  bold: boolean;
+  // Passed to the subtitles filter as fontsdir
+  dir: string;
+  bundled: boolean;
+}
+
+/**
+ * Concrete font for burning captions. Uses the bundled file when it is there;
+ * otherwise warns and falls back to a common system font so the render still runs.
+ */
+export async function resolveCaptionFont(fontStyle?: string | null, platform: NodeJS.Platform = process.platform): Promise<ResolvedCaptionFont> {
+  const font = captionFontForStyle(fontStyle);
+  const dir = fontsDir();
+  try {
+    await fs.access(path.join(dir, font.file));
+    return { family: font.family, bold: font.bold, dir, bundled: true };
+  } catch {
+    const system = systemFonts(platform);
+    console.warn(`[fonts] ${font.file} not found in ${dir} (run npm run fonts:fetch); using ${system.family} from ${system.dir}`);
+    return { family: system.family, bold: font.bold, dir: system.dir, bundled: false };
+  }
+}
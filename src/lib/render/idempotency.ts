@@ -0,0 +1,71 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+
+/**
+ * Render deduplication. Each render run gets its own id and temp directory;
+ * the row records the run id, a fingerprint of what is being rendered and the
+ * caller's idempotency key, so a repeated request can be answered with the run
+ * already in flight (or the one that finished) instead of starting another.
+ */
+
+// How often a running render refreshes render_heartbeat_at
+export const RENDER_HEARTBEAT_MS = 15_000;
+// A `rendering` row without a heartbeat for this long has lost its process
+export const RENDER_STALE_MS = 60_000;
+
+const MAX_KEY_LENGTH = 200;
+
+export interface RenderInputs {
+  storyboardVersion?: number | null;
+  storyboard?: unknown;
+  imageUrls: string[];
+  audioUrl: string;
+  captionsUrl: string;
+  captionStyle?: string | null;
+  profileId: string;
+  theme?: string | null;
+  music?: unknown;
+}
+
+// JSON with sorted object keys, so equal values always hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Identifies a render by the storyboard version, the asset set and the output settings
+export function renderFingerprint(inputs: RenderInputs): string {
+  return createHash('sha256').update(canonicalJson(inputs)).digest('hex');
+}
+
+/**
+ * The caller's idempotency key: the `Idempotency-Key` header, else
+ * `idempotencyKey` in the body. Null when none was sent; throws code
+ * `invalid_idempotency_key` for an empty, non-string or oversized key.
+ */
+export function idempotencyKeyFrom(headers: Headers, body: unknown): string | null {
+  const raw = headers.get('idempotency-key') ?? (body as { idempotencyKey?: unknown } | null)?.idempotencyKey;
+  if (raw === undefined || raw === null) return null;
+  const key = typeof raw === 'string' ? raw.trim() : '';
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    throw Object.assign(new Error(`Idempotency key must be 1-${MAX_KEY_LENGTH} characters`), { code: 'invalid_idempotency_key' });
+  }
+  return key;
+}
+
+export function isRenderStale(heartbeatAt: string | null | undefined, now = Date.now()): boolean {
+  if (!heartbeatAt) return true;
+  const t = Date.parse(heartbeatAt);
+  return !Number.isFinite(t) || now - t > RENDER_STALE_MS;
+}
+
+// Temp directory of one render run; runs of the same video never share one
+export function renderRunDir(videoId: string, renderId: string): string {
+  return path.join(process.cwd(), 'renders', videoId, renderId);
+}
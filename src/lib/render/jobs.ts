@@ -0,0 +1,109 @@
+import fs from 'node:fs/promises';
+import { spawn, type ChildProcess, type SpawnOptions } from 'node:child_process';
+
+/**
+ * In-process registry of running renders, keyed by videoId.
+ * Every ffmpeg child spawned for a render goes through its job so a cancel
+ * can kill them, and the render loop checks the job between stages.
+ */
+
+export interface RenderJob {
+  videoId: string;
+  tempDir: string;
+  signal: AbortSignal;
+  // spawn() whose child is killed when the job is cancelled
+  spawn(command: string, args: string[], options?: SpawnOptions): ChildProcess;
+  // Throws code `render_cancelled` once the job has been cancelled
+  throwIfCancelled(): void;
+}
+
+type JobEntry = {
+  job: RenderJob;
+  controller: AbortController;
+  children: Set<ChildProcess>;
+};
+
+// Grace period between SIGTERM and SIGKILL
+const KILL_GRACE_MS = 3000;
+
+// Route modules can be instantiated more than once (dev reloads), so the registry lives on globalThis
+const g = globalThis as typeof globalThis & { __storyshortRenderJobs?: Map<string, JobEntry> };
+const jobs = g.__storyshortRenderJobs ??= new Map<string, JobEntry>();
+
+export function renderCancelledError(videoId: string): Error {
+  return Object.assign(new Error('cancelled_by_user'), { code: 'render_cancelled', videoId });
+}
+
+export function isRenderCancelled(e: unknown): boolean {
+  return (e as { code?: string } | null)?.code === 'render_cancelled';
+}
+
+export function startRenderJob(videoId: string, tempDir: string): RenderJob {
+  const controller = new AbortController();
+  const children = new Set<ChildProcess>();
+
+  const job: RenderJob = {
+    videoId,
+    tempDir,
+    signal: controller.signal,
+    spawn(command, args, options = {}) {
+      if (controller.signal.aborted) throw renderCancelledError(videoId);
+      const child = spawn(command, args, options);
+      children.add(child);
+      child.once('close', () => children.delete(child));
+      child.once('error', () => children.delete(child));
+      return child;
+    },
+    throwIfCancelled() {
+      if (controller.signal.aborted) throw renderCancelledError(videoId);
+    },
+  };
+
+  jobs.set(videoId, { job, controller, children });
+  return job;
+}
+
+// Drop a finished job; a newer job for the same video is left alone
+export function finishRenderJob(job: RenderJob) {
+  if (jobs.get(job.videoId)?.job === job) jobs.delete(job.videoId);
+}
+
+export function getRenderJob(videoId: string): RenderJob | undefined {
+  return jobs.get(videoId)?.job;
+}
+
+function waitForExit(child: ChildProcess, ms: number): Promise<boolean> {
+  if (child.exitCode !== null || child.signalCode !== null) return Promise.resolve(true);
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(false), ms);
+    child.once('close', () => { clearTimeout(timer); resolve(true); });
+  });
+}
+
+/**
+ * Cancel a running render: abort the job, kill its children (SIGTERM, then
+ * SIGKILL after a grace period) and remove its temp directory.
+ * Returns false when no render for the video is running in this process.
+ */
+export async function cancelRenderJob(videoId: string): Promise<boolean> {
+  const entry = jobs.get(videoId);
+  if (!entry) return false;
+
+  entry.controller.abort();
+  const children = Array.from(entry.children);
+  console.log(`[render:jobs] Cancelling ${videoId}: stopping ${children.length} process(es)`);
+
+  children.forEach(child => child.kill('SIGTERM'));
+  const exited = await Promise.all(children.map(child => waitForExit(child, KILL_GRACE_MS)));
+  children.forEach((child, i) => { if (!exited[i]) child.kill('SIGKILL'); });
+  await Promise.all(children.filter((_, i) => !exited[i]).map(child => waitForExit(child, KILL_GRACE_MS)));
+
+  try {
+    await fs.rm(entry.job.tempDir, { recursive: true, force: true });
+  } catch (e) {
+    console.warn(`[render:jobs] Failed to clean ${entry.job.tempDir}:`, e);
+  }
+
+  finishRenderJob(entry.job);
+  return true;
+}
@@ -1,4 +1,7 @@
 import { spawn } from 'node:child_process';
+import type { RenderJob } from './jobs';
+import { FFMPEG_PROGRESS_ARGS, watchFfmpegProgress } from './progress';
+import type { SceneMotion } from '@/types/video';
 
 type KenBurnsOpts = {
   imagePath: string;           // absolute path to jpg/png
@@ -8,50 +11,109 @@ type KenBurnsOpts = {
   fps: number;                 // e.g. 30
   seconds: number;             // clip duration
   maxZoom?: number;            // e.g. 1.12
-  direction?: 'in'|'out'|'panL'|'panR'; // picked per scene
+  motion?: SceneMotion;        // picked per scene (default zoom in)
+  job?: RenderJob;             // registers ffmpeg so a cancel can kill it
+  onProgress?: (outTimeSec: number) => void; // encoded seconds so far
+};
+
+function runClipFfmpeg(args: string[], label: string, job?: RenderJob, onProgress?: (outTimeSec: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ff = (job?.spawn ?? spawn)(
+      'ffmpeg',
+      onProgress ? [...FFMPEG_PROGRESS_ARGS, ...args] : args,
+      { stdio: onProgress ? ['ignore', 'pipe', 'inherit'] : 'inherit', shell: false }
+    );
+    if (onProgress && ff.stdout) watchFfmpegProgress(ff.stdout, onProgress);
+    ff.on('error', reject);
+    ff.on('close', (code) => (code === 0 ? resolve() : reject(new Error(`ffmpeg ${label} exited ${code}`))));
+  });
+}
+
+export type KenBurnsMotion = {
+  width: number;
+  height: number;
+  fps: number;
+  seconds: number;
+  maxZoom?: number;
+  motion?: SceneMotion;
 };
 
 /**
- * Render a single image to an MP4 clip with a gentle Ken Burns move.
- * Windows-safe (no shell interpolation). Rejects on ffmpeg error.
+ * Filter chain for a camera move over one image frame: `seconds * fps`
+ * frames at `fps`, sized width x height. Shared by the per-clip renderer and
+ * the single-pass filtergraph.
  */
-export function renderKenBurnsClip(opts: KenBurnsOpts): Promise<void> {
-  const {
-    imagePath, outPath, width, height, fps, seconds,
-    maxZoom = 1.12, direction = 'in',
-  } = opts;
-
+export function kenBurnsFilter({ width, height, fps, seconds, maxZoom = 1.12, motion = { type: 'zoom_in' } }: KenBurnsMotion): string {
   // frames to render
   const frames = Math.max(1, Math.round(seconds * fps));
+  // 0 → 1 over the clip
+  const t = `(on/${frames})`;
 
-  // Build a subtle motion expression
-  // zoom: in → 1 → maxZoom,  out → maxZoom → 1
+  // zoom: in/focus → 1 → maxZoom, out → maxZoom → 1; pans hold maxZoom so there is room to move
   const zExpr =
-    direction === 'out'
-      ? `max(1.0, ${maxZoom} - (on/${frames})*(${maxZoom}-1.0))`
-      : `min(${maxZoom}, 1.0 + (on/${frames})*(${maxZoom}-1.0))`;
+    motion.type === 'zoom_out'
+      ? `max(1.0, ${maxZoom} - ${t}*(${maxZoom}-1.0))`
+      : motion.type === 'static'
+      ? '1.0'
+      : motion.type.startsWith('pan_')
+      ? `${maxZoom}`
+      : `min(${maxZoom}, 1.0 + ${t}*(${maxZoom}-1.0))`;
 
-  // tiny sideways pan (optional variety)
-  const panAmount = 0.06; // up to 6% width
+  // window position: the slack (iw - iw/zoom) is what a pan can travel
+  const slackX = '(iw - iw/zoom)';
+  const slackY = '(ih - ih/zoom)';
+  const fx = motion.x ?? 0.5;
+  const fy = motion.y ?? 0.5;
   const xExpr =
-    direction === 'panL'
-      ? `max(0, (iw*${panAmount})*(1 - on/${frames}))`
-      : direction === 'panR'
-      ? `min(iw*${panAmount}, (iw*${panAmount})*(on/${frames}))`
+    motion.type === 'pan_left'
+      ? `${slackX}*(1 - ${t})`
+      : motion.type === 'pan_right'
+      ? `${slackX}*${t}`
+      : motion.type === 'focus'
+      ? `${slackX}*${fx.toFixed(3)}` // keeps the focal point where it sits in the frame
       : `iw/2 - (iw/zoom/2)`; // center for zoom in/out
-  const yExpr = `ih/2 - (ih/zoom/2)`;
-
-  // Scale a bit larger, then zoom/pan and crop to target size
-  const vf = [
-    // upscale a bit to avoid black borders during motion
-    `scale=${Math.ceil(width*1.25)}:${-1}`,
-    // fit vertical if needed then pad/crop to target aspect
-    `scale='if(gte(a,${width}/${height}),-2,${width})':'if(gte(a,${width}/${height}),${height},-2)'`,
-    // zoom/pan with smooth motion
-    `zoompan=z='${zExpr}':x='${xExpr}':y='${yExpr}':d=${frames}:s=${width}x${height}`,
+  const yExpr =
+    motion.type === 'pan_up'
+      ? `${slackY}*(1 - ${t})`
+      : motion.type === 'pan_down'
+      ? `${slackY}*${t}`
+      : motion.type === 'focus'
+      ? `${slackY}*${fy.toFixed(3)}`
+      : `ih/2 - (ih/zoom/2)`;
+
+  // working canvas: 25% larger than the output, same aspect, even dimensions
+  const canvasW = Math.ceil(width * 1.25 / 2) * 2;
+  const canvasH = Math.ceil(height * 1.25 / 2) * 2;
+
+  // Cover-crop to the target aspect at canvas size, then zoom/pan down to target size
+  return [
+    // upscale to cover the canvas so motion never shows black borders
+    `scale=${canvasW}:${canvasH}:force_original_aspect_ratio=increase`,
+    // crop the overflow so zoompan sees the output aspect (no stretching)
+    `crop=${canvasW}:${canvasH}`,
+    // zoom/pan with smooth motion, emitted at the target rate so `frames` spans `seconds`
+    `zoompan=z='${zExpr}':x='${xExpr}':y='${yExpr}':d=${frames}:s=${width}x${height}:fps=${fps}`,
     // enforce target fps
     `fps=${fps}`
   ].join(',');
+}
+
+// Cover-crop an image to the output frame without motion
+export function stillFilter(width: number, height: number): string {
+  return `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`;
+}
+
+/**
+ * Render a single image to an MP4 clip with a gentle Ken Burns move.
+ * Windows-safe (no shell interpolation). Rejects on ffmpeg error.
+ */
+export function renderKenBurnsClip(opts: KenBurnsOpts): Promise<void> {
+  const {
+    imagePath, outPath, width, height, fps, seconds,
+    maxZoom = 1.12, motion, job, onProgress,
+  } = opts;
+
+  const vf = kenBurnsFilter({ width, height, fps, seconds, maxZoom, motion });
 
   const args = [
     '-y',
@@ -68,9 +130,30 @@ export function renderKenBurnsClip(opts: KenBurnsOpts): Promise<void> {
     outPath,
   ];
 
-  return new Promise((resolve, reject) => {
-    const ff = spawn('ffmpeg', args, { stdio: 'inherit', shell: false });
-    ff.on('error', reject);
-    ff.on('close', (code) => (code === 0 ? resolve() : reject(new Error(`ffmpeg kenburns exited ${code}`))));
-  });
-} 
\ No newline at end of file
+  return runClipFfmpeg(args, 'kenburns', job, onProgress);
+} 
+
+/**
+ * Render a single image to a motionless MP4 clip at the target size.
+ * Used for static scenes and when clips are needed for transitions but Ken Burns is off.
+ */
+export function renderStillClip(opts: Omit<KenBurnsOpts, 'maxZoom' | 'motion'>): Promise<void> {
+  const { imagePath, outPath, width, height, fps, seconds, job, onProgress } = opts;
+
+  const args = [
+    '-y',
+    '-loop','1',
+    '-i', imagePath,
+    '-t', String(seconds),
+    '-r', String(fps),
+    '-vf', stillFilter(width, height),
+    '-an',
+    '-c:v','libx264',
+    '-preset','fast',
+    '-crf','20',
+    '-pix_fmt','yuv420p',
+    outPath,
+  ];
+
+  return runClipFfmpeg(args, 'still clip', job, onProgress);
+}
@@ -0,0 +1,73 @@
+import type { CameraMotionType, SceneMotion } from '@/types/video';
+
+/**
+ * Camera moves for scene images. A scene's `motion` picks one; scenes without
+ * one rotate through zoom in, zoom out, pan left and pan right as before.
+ */
+
+export const CAMERA_MOTIONS: { id: CameraMotionType; label: string }[] = [
+  { id: 'zoom_in', label: 'Zoom in' },
+  { id: 'zoom_out', label: 'Zoom out' },
+  { id: 'pan_left', label: 'Pan left' },
+  { id: 'pan_right', label: 'Pan right' },
+  { id: 'pan_up', label: 'Pan up' },
+  { id: 'pan_down', label: 'Pan down' },
+  { id: 'static', label: 'Static' },
+  { id: 'focus', label: 'Push in on a point' },
+];
+
+const DEFAULT_ROTATION: CameraMotionType[] = ['zoom_in', 'zoom_out', 'pan_left', 'pan_right'];
+
+// Older names (the round-robin directions) and common spellings from LLM output
+const ALIASES: Record<string, CameraMotionType> = {
+  in: 'zoom_in',
+  out: 'zoom_out',
+  panl: 'pan_left',
+  panr: 'pan_right',
+  still: 'static',
+  none: 'static',
+};
+
+export function isCameraMotionType(v: unknown): v is CameraMotionType {
+  return typeof v === 'string' && CAMERA_MOTIONS.some(m => m.id === v);
+}
+
+function clamp01(n: number): number {
+  return Math.min(1, Math.max(0, n));
+}
+
+/**
+ * A motion from user or LLM input: a type name ("zoom_in", "zoom-in", "pan left")
+ * or { type, x?, y? }. Null when it isn't one.
+ * `focus` without a point focuses on the centre.
+ */
+export function normalizeSceneMotion(v: unknown): SceneMotion | null {
+  const raw = typeof v === 'string' ? { type: v } : v;
+  if (!raw || typeof raw !== 'object') return null;
+  const { type, x, y } = raw as { type?: unknown; x?: unknown; y?: unknown };
+  if (typeof type !== 'string') return null;
+
+  const name = type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  const resolved = isCameraMotionType(name) ? name : ALIASES[name.replace(/_/g, '')];
+  if (!resolved) return null;
+  if (resolved !== 'focus') return { type: resolved };
+
+  const fx = typeof x === 'number' && Number.isFinite(x) ? clamp01(x) : 0.5;
+  const fy = typeof y === 'number' && Number.isFinite(y) ? clamp01(y) : 0.5;
+  return { type: 'focus', x: fx, y: fy };
+}
+
+export function defaultSceneMotion(index: number): SceneMotion {
+  return { type: DEFAULT_ROTATION[index % DEFAULT_ROTATION.length] };
+}
+
+// Per-scene motions chosen in the storyboard, only when it still lines up with the images
+export function sceneMotionOverrides(scenes: unknown, count: number): (SceneMotion | null)[] | null {
+  if (!Array.isArray(scenes) || scenes.length !== count) return null;
+  return scenes.map(scene => normalizeSceneMotion((scene as { motion?: unknown } | null)?.motion));
+}
+
+// Stable text form, for cache keys and logs
+export function describeSceneMotion(m: SceneMotion): string {
+  return m.type === 'focus' ? `focus@${(m.x ?? 0.5).toFixed(3)},${(m.y ?? 0.5).toFixed(3)}` : m.type;
+}
@@ -0,0 +1,44 @@
+import os from 'node:os';
+
+/**
+ * Bounded worker pool for render steps that can run side by side (per-scene
+ * clips). Results come back in input order whatever order tasks finish in.
+ */
+
+// RENDER_CLIP_CONCURRENCY, else one ffmpeg per CPU
+export function clipConcurrency(): number {
+  const configured = Math.floor(Number(process.env.RENDER_CLIP_CONCURRENCY));
+  if (Number.isFinite(configured) && configured > 0) return configured;
+  return typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length || 1;
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight.
+ * After the first failure no new items are started; the in-flight ones are
+ * awaited (so no ffmpeg is left running unobserved) and the error rethrown.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const errors: unknown[] = [];
+
+  const worker = async () => {
+    while (!errors.length && next < items.length) {
+      const i = next++;
+      try {
+        results[i] = await fn(items[i], i);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  if (errors.length) throw errors[0];
+  return results;
+}
@@ -0,0 +1,121 @@
+import type { Readable } from 'node:stream';
+
+/**
+ * Render progress: ffmpeg `-progress` parsing plus a tracker that turns
+ * per-stage fractions into one smooth 0-1 value with an ETA.
+ */
+
+// Global options that make ffmpeg print key=value progress blocks on stdout
+export const FFMPEG_PROGRESS_ARGS = ['-progress', 'pipe:1', '-nostats'];
+
+/**
+ * Call back with the encoded position (seconds) from `-progress pipe:1` output.
+ * `done` is true on the final `progress=end` block.
+ */
+export function watchFfmpegProgress(stream: Readable, onTime: (outTimeSec: number, done: boolean) => void) {
+  let buffered = '';
+  let outTimeSec = 0;
+  stream.on('data', (chunk: Buffer) => {
+    buffered += chunk.toString();
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      const [key, value = ''] = line.trim().split('=', 2);
+      // out_time_us and (despite its name) out_time_ms are both microseconds
+      if (key === 'out_time_us' || key === 'out_time_ms') {
+        const us = Number(value);
+        if (Number.isFinite(us) && us >= 0) outTimeSec = us / 1e6;
+      } else if (key === 'progress') {
+        onTime(outTimeSec, value === 'end');
+      }
+    }
+  });
+}
+
+// `encode` is the single-pass strategy's one ffmpeg run, standing in for clips, join and final
+export type RenderStage = 'download' | 'clips' | 'join' | 'final' | 'encode' | 'upload';
+
+// Share of the whole render each stage covers, roughly by wall time
+const STAGE_RANGES: Record<RenderStage, [number, number]> = {
+  download: [0, 0.08],
+  clips: [0.08, 0.5],
+  join: [0.5, 0.62],
+  final: [0.62, 0.96],
+  encode: [0.08, 0.96],
+  upload: [0.96, 1],
+};
+
+export const STAGE_LABELS: Record<RenderStage, string> = {
+  download: 'Downloading assets',
+  clips: 'Rendering scenes',
+  join: 'Joining scenes',
+  final: 'Burning captions and mixing audio',
+  encode: 'Rendering video',
+  upload: 'Uploading video',
+};
+
+export interface RenderProgressUpdate {
+  stage: RenderStage;
+  // Whole render, 0-1
+  fraction: number;
+  // Seconds left, null until there is enough signal to estimate
+  etaSec: number | null;
+}
+
+export interface RenderProgress {
+  // Report progress within a stage; writes are throttled unless `force` is set
+  set(stage: RenderStage, stageFraction?: number, force?: boolean): Promise<void>;
+  // Wait for queued writes and stop reporting (call before the final status write)
+  close(): Promise<void>;
+}
+
+// Below this the ETA is mostly noise from setup work
+const MIN_FRACTION_FOR_ETA = 0.05;
+
+export function createRenderProgress(
+  write: (update: RenderProgressUpdate) => Promise<void>,
+  { minIntervalMs = 1000 }: { minIntervalMs?: number } = {}
+): RenderProgress {
+  const startedAt = Date.now();
+  let fraction = 0;
+  let lastWriteAt = 0;
+  let lastWritten = -1;
+  let closed = false;
+  // Writes run one at a time so a slow update can't land after a newer one
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    set(stage, stageFraction = 0, force = false) {
+      if (closed) return queue;
+      const [from, to] = STAGE_RANGES[stage];
+      const clamped = Math.min(1, Math.max(0, stageFraction));
+      // Never move backwards (stage fallbacks re-run work)
+      fraction = Math.max(fraction, from + (to - from) * clamped);
+
+      const now = Date.now();
+      const changed = Math.round(fraction * 100) !== Math.round(lastWritten * 100);
+      if (!force && (!changed || now - lastWriteAt < minIntervalMs)) return queue;
+      lastWriteAt = now;
+      lastWritten = fraction;
+
+      const elapsedSec = (now - startedAt) / 1000;
+      const etaSec = fraction >= MIN_FRACTION_FOR_ETA ? Math.round((elapsedSec * (1 - fraction)) / fraction) : null;
+      const update: RenderProgressUpdate = { stage, fraction, etaSec };
+      queue = queue.then(() => write(update)).catch(e => console.warn('[render:progress] update failed:', e));
+      return queue;
+    },
+
+    async close() {
+      closed = true;
+      await queue;
+    },
+  };
+}
+
+// Status line for polling clients, e.g. "Rendering scenes (about 45s left)"
+export function describeRenderProgress(stage: string | null | undefined, etaSec: number | null | undefined): string {
+  const label = STAGE_LABELS[stage as RenderStage] ?? 'Rendering video';
+  if (typeof etaSec !== 'number' || etaSec < 0) return `${label}...`;
+  const left = etaSec < 60 ? `${Math.max(1, Math.round(etaSec))}s` : `${Math.round(etaSec / 60)} min`;
+  return `${label} (about ${left} left)`;
+}
@@ -0,0 +1,89 @@
+import { kenBurnsFilter, stillFilter } from './kenburns';
+import { buildTransitionGraph, type SceneTransition } from './transitions';
+import type { RenderStage } from './progress';
+import type { SceneMotion } from '@/types/video';
+
+/**
+ * Render strategies.
+ * - `clips`: encode a clip per scene, join them into a slideshow, then burn
+ *   captions and mix audio (three encodes, but clips are cached and parallel).
+ * - `single-pass`: one ffmpeg run whose filter_complex does the motion,
+ *   transitions, captions and audio, encoding the video once.
+ */
+
+export type RenderStrategy = 'clips' | 'single-pass';
+
+export const RENDER_STRATEGIES: readonly RenderStrategy[] = ['clips', 'single-pass'];
+
+export function isRenderStrategy(v: unknown): v is RenderStrategy {
+  return typeof v === 'string' && (RENDER_STRATEGIES as readonly string[]).includes(v);
+}
+
+// RENDER_STRATEGY picks the default; requests can override it
+export function getDefaultRenderStrategy(): RenderStrategy {
+  const configured = process.env.RENDER_STRATEGY;
+  return isRenderStrategy(configured) ? configured : 'clips';
+}
+
+export interface RenderTimings {
+  strategy: RenderStrategy;
+  wallMs: number;
+  // Wall time per stage, in the order the stages ran
+  stageMs: Partial<Record<RenderStage, number>>;
+}
+
+// Wall time per stage, split at the first checkpoint of each stage
+export function createStageTimer(strategy: RenderStrategy) {
+  const startedAt = Date.now();
+  const marks: [RenderStage, number][] = [];
+  return {
+    mark(stage: RenderStage) {
+      if (!marks.some(([s]) => s === stage)) marks.push([stage, Date.now()]);
+    },
+    finish(): RenderTimings {
+      const end = Date.now();
+      const stageMs: Partial<Record<RenderStage, number>> = {};
+      marks.forEach(([stage, at], i) => { stageMs[stage] = (marks[i + 1]?.[1] ?? end) - at; });
+      return { strategy, wallMs: end - startedAt, stageMs };
+    },
+  };
+}
+
+type SinglePassScenes = {
+  // Forward-slash paths (see toFFPath in the render route)
+  images: string[];
+  // Per-scene length, already extended by outgoing transitions
+  clipSeconds: number[];
+  transitions: SceneTransition[];
+  width: number;
+  height: number;
+  fps: number;
+  // Camera move per scene; omit for stills
+  motion?: { maxZoom: number; motions: SceneMotion[] };
+};
+
+/**
+ * ffmpeg inputs and filter_complex for the scenes of a single-pass render:
+ * one input per image, each turned into its scene stream and chained with the
+ * transitions. Image inputs take indexes 0..n-1; the graph ends in [vout].
+ */
+export function buildSinglePassScenes({ images, clipSeconds, transitions, width, height, fps, motion }: SinglePassScenes) {
+  const inputs = images.flatMap((image, i) => motion
+    // zoompan turns the single decoded frame into the whole scene
+    ? ['-i', image]
+    // Stills loop the image for the scene's length
+    : ['-loop', '1', '-framerate', String(fps), '-t', clipSeconds[i].toFixed(3), '-i', image]);
+
+  const scenes = images.map((_, i) => {
+    const chain = motion
+      ? kenBurnsFilter({ width, height, fps, seconds: clipSeconds[i], maxZoom: motion.maxZoom, motion: motion.motions[i] })
+      : `${stillFilter(width, height)},fps=${fps}`;
+    return `[${i}:v]${chain}[s${i}]`;
+  });
+
+  const graph = [
+    ...scenes,
+    buildTransitionGraph(clipSeconds, transitions, fps, images.map((_, i) => `s${i}`)),
+  ].join(';');
+  return { inputs, graph };
+}
@@ -0,0 +1,86 @@
+export type TransitionStyle = 'fade' | 'slide' | 'dissolve' | 'cut' | 'zoom';
+
+// Transition between clip i and clip i + 1
+export type SceneTransition = {
+  style: TransitionStyle;
+  seconds: number;             // 0 for a hard cut
+};
+
+// ffmpeg xfade transition names (zoomin needs ffmpeg >= 5)
+const XFADE_NAMES: Record<Exclude<TransitionStyle, 'cut'>, string> = {
+  fade: 'fade',
+  dissolve: 'dissolve',
+  slide: 'slideleft',
+  zoom: 'zoomin',
+};
+
+const DEFAULT_TRANSITION_SEC = 0.5;
+// Never let a transition eat more than this share of either neighbouring scene
+const MAX_SHARE_OF_SCENE = 0.4;
+
+export function isTransitionStyle(v: unknown): v is TransitionStyle {
+  return typeof v === 'string' && (v === 'cut' || v in XFADE_NAMES);
+}
+
+/**
+ * Transitions between consecutive scenes.
+ * Precedence: scene.transition (transition *into* that scene) → theme transitionStyle → cut.
+ */
+export function resolveTransitions(
+  durations: number[],
+  themeStyle: string | undefined,
+  sceneOverrides: unknown[] = [],
+  seconds = DEFAULT_TRANSITION_SEC
+): SceneTransition[] {
+  const fallback: TransitionStyle = isTransitionStyle(themeStyle) ? themeStyle : 'cut';
+  const out: SceneTransition[] = [];
+  for (let i = 0; i < durations.length - 1; i++) {
+    const override = sceneOverrides[i + 1];
+    const style = isTransitionStyle(override) ? override : fallback;
+    const limit = Math.min(durations[i], durations[i + 1]) * MAX_SHARE_OF_SCENE;
+    out.push({ style, seconds: style === 'cut' ? 0 : Math.min(seconds, limit) });
+  }
+  return out;
+}
+
+/**
+ * Clip lengths to render so the crossfaded result keeps the original total:
+ * each clip is extended by the overlap of the transition out of it, which
+ * puts every transition start exactly on its scene boundary.
+ */
+export function clipSecondsWithTransitions(durations: number[], transitions: SceneTransition[]): number[] {
+  return durations.map((d, i) => d + (transitions[i]?.seconds ?? 0));
+}
+
+/**
+ * filter_complex chaining `count` video inputs with xfade (or concat for cuts).
+ * Inputs default to the file inputs 0:v, 1:v...; pass labels to chain streams
+ * produced earlier in the same graph. Output label is [vout].
+ */
+export function buildTransitionGraph(
+  clipSeconds: number[],
+  transitions: SceneTransition[],
+  fps: number,
+  inputs: string[] = clipSeconds.map((_, i) => `${i}:v`)
+): string {
+  // xfade needs identical timebase, pixel format and frame rate on both sides
+  const parts = clipSeconds.map((_, i) => `[${inputs[i]}]settb=AVTB,setpts=PTS-STARTPTS,fps=${fps},format=yuv420p[v${i}]`);
+
+  let acc = 'v0';
+  let accSeconds = clipSeconds[0];
+  for (let i = 1; i < clipSeconds.length; i++) {
+    const t = transitions[i - 1];
+    const out = i === clipSeconds.length - 1 ? 'vout' : `x${i}`;
+    if (t.style === 'cut' || t.seconds <= 0) {
+      parts.push(`[${acc}][v${i}]concat=n=2:v=1:a=0[${out}]`);
+      accSeconds += clipSeconds[i];
+    } else {
+      const offset = accSeconds - t.seconds;
+      parts.push(`[${acc}][v${i}]xfade=transition=${XFADE_NAMES[t.style]}:duration=${t.seconds.toFixed(3)}:offset=${offset.toFixed(3)}[${out}]`);
+      accSeconds += clipSeconds[i] - t.seconds;
+    }
+    acc = out;
+  }
+  if (clipSeconds.length === 1) parts.push('[v0]null[vout]');
+  return parts.join(';');
+}
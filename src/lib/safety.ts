@@ -31,6 +31,16 @@ export function addSafePrefix(prompt: string): string {
   return SAFE_PREFIX + prompt;
 }
 
+// Preamble prepended to prompts sent to the image providers
+export const SANITIZE_PREAMBLE = [
+  'Family-friendly, safe-for-work, no nudity, no violence, no sensitive content.',
+  'Uplifting, wholesome, suitable for all ages.',
+];
+
+export function sanitizePrompt(p: string): string {
+  return [...SANITIZE_PREAMBLE, p].join(' ');
+}
+
 export function isContentPolicyViolation(error: any): boolean {
   const msg = String(error?.message || error);
   return msg.includes('content_policy_violation') || 
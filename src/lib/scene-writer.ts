@@ -0,0 +1,57 @@
+import { getLlmClient } from './providers/llm';
+
+/**
+ * LLM-written storyboard scenes for inserts: a new scene that carries the
+ * story from the scene before it to the scene after, in the same style.
+ */
+
+type ContextScene = Record<string, unknown>;
+
+export interface WrittenScene {
+  description: string;
+  narration?: string;
+  image_prompt: string;
+}
+
+function sceneText(scene: ContextScene | null): string {
+  if (!scene) return '(none)';
+  const { description, narration, image_prompt } = scene;
+  return [description, narration && `Narration: ${narration}`, image_prompt && `Image: ${image_prompt}`]
+    .filter((part): part is string => typeof part === 'string' && !!part)
+    .join('\n  ');
+}
+
+function asText(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+}
+
+export async function writeSceneBetween(before: ContextScene | null, after: ContextScene | null, script?: string | null): Promise<WrittenScene> {
+  const prompt = `Write one new storyboard scene that goes between the two scenes below and carries the story from one to the other. Return a JSON object with a "scenes" array holding exactly that scene, with: description, narration (the words spoken during it), and image_prompt (detailed visual description for DALL-E, in the same visual style as its neighbours).
+
+Scene before:
+  ${sceneText(before)}
+Scene after:
+  ${sceneText(after)}
+
+Script:
+${script || [before?.narration, after?.narration].filter(Boolean).join(' ')}
+
+Return only valid JSON, no additional text.`;
+
+  const { json } = await getLlmClient().complete({
+    task: 'storyboard',
+    json: true,
+    maxTokens: 600,
+    temperature: 0.7,
+    timeoutMs: 30000,
+    messages: [{ role: 'user', content: prompt }]
+  });
+
+  const scene = (json as { scenes?: ContextScene[] } | null)?.scenes?.[0];
+  const description = asText(scene?.description);
+  const imagePrompt = asText(scene?.image_prompt);
+  if (!description || !imagePrompt) {
+    throw Object.assign(new Error('LLM did not return a usable scene'), { code: 'invalid_scene' });
+  }
+  return { description, narration: asText(scene?.narration), image_prompt: imagePrompt };
+}
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffStoryboards, historySteps, restoredStoryboard, type RevisionAction } from './storyboard-revisions';
+
+const rev = (version: number, action: RevisionAction, restored_from: number | null = null) => ({ version, action, restored_from });
+
+test('historySteps: nothing to undo without history', () => {
+  assert.deepEqual(historySteps([]), { undo: null, redo: null });
+  assert.deepEqual(historySteps([rev(1, 'baseline')]), { undo: null, redo: null });
+});
+
+test('historySteps: an edit can be undone but not redone', () => {
+  assert.deepEqual(historySteps([rev(1, 'baseline'), rev(2, 'edit'), rev(3, 'reorder')]), { undo: 2, redo: null });
+});
+
+test('historySteps: undo steps back from the version it restored', () => {
+  const history = [rev(1, 'baseline'), rev(2, 'edit'), rev(3, 'edit'), rev(4, 'undo', 2)];
+  assert.deepEqual(historySteps(history), { undo: 1, redo: 3 });
+  assert.deepEqual(historySteps([...history, rev(5, 'undo', 1)]), { undo: null, redo: 2 });
+});
+
+test('historySteps: redo steps forward up to the last edit', () => {
+  const history = [rev(1, 'baseline'), rev(2, 'edit'), rev(3, 'edit'), rev(4, 'undo', 2), rev(5, 'undo', 1), rev(6, 'redo', 2)];
+  assert.deepEqual(historySteps(history), { undo: 1, redo: 3 });
+  assert.deepEqual(historySteps([...history, rev(7, 'redo', 3)]), { undo: 2, redo: null });
+});
+
+test('historySteps: an edit after an undo clears redo', () => {
+  const history = [rev(1, 'baseline'), rev(2, 'edit'), rev(3, 'edit'), rev(4, 'undo', 2), rev(5, 'merge')];
+  assert.deepEqual(historySteps(history), { undo: 4, redo: null });
+});
+
+test('diffStoryboards reports added, removed, moved and edited scenes by id', () => {
+  const before = { scenes: [{ id: 'a', description: 'A' }, { id: 'b', description: 'B' }, { id: 'c', description: 'C' }] };
+  const after = { scenes: [{ id: 'c', description: 'C' }, { id: 'a', description: 'A2' }, { id: 'd', description: 'D' }] };
+  assert.deepEqual(diffStoryboards(before, after), [
+    { type: 'removed', scene_id: 'b', index: 1, scene: { id: 'b', description: 'B' } },
+    { type: 'moved', scene_id: 'a', from: 0, to: 1 },
+    { type: 'edited', scene_id: 'a', index: 1, fields: { description: { before: 'A', after: 'A2' } } },
+    { type: 'added', scene_id: 'd', index: 2, scene: { id: 'd', description: 'D' } },
+  ]);
+  assert.deepEqual(diffStoryboards(before, before), []);
+});
+
+test('restoredStoryboard keeps current images unless the prompt changed', () => {
+  const video = {
+    storyboard_json: { scenes: [{ id: 'a', image_prompt: 'fox' }, { id: 'b', image_prompt: 'owl, night' }] },
+    image_urls: ['a2.jpg', 'b2.jpg'],
+    dirty_scenes: [],
+  };
+  const revision = {
+    storyboard_json: { scenes: [{ id: 'b', image_prompt: 'owl' }, { id: 'gone', image_prompt: 'bear' }, { id: 'a', image_prompt: 'fox' }] },
+    image_urls: ['b1.jpg', 'gone1.jpg', 'a1.jpg'],
+  };
+  const restored = restoredStoryboard(video, revision);
+  assert.deepEqual(restored.storyboard_json.scenes, revision.storyboard_json.scenes);
+  assert.deepEqual(restored.image_urls, ['b2.jpg', 'gone1.jpg', 'a2.jpg']);
+  assert.deepEqual(restored.dirty_scenes, [0]);
+});
@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { layoutSceneAssets, withSceneIds, type SceneLayout, type SceneWithId } from './storyboard-scenes';
+
+/**
+ * Storyboard revision history on the `storyboard_revisions` table. Each
+ * storyboard version is saved as a snapshot with the scene changes that
+ * produced it, who made them and when. Undo, redo and restore write the old
+ * snapshot back as a new version, so history only ever grows.
+ *
+ * Functions take the Supabase client, like the job queue's.
+ */
+
+export type RevisionAction =
+  | 'baseline' | 'generate' | 'edit' | 'reorder' | 'delete' | 'insert'
+  | 'duplicate' | 'split' | 'merge' | 'restore' | 'undo' | 'redo';
+
+export type HistoryStep = 'undo' | 'redo';
+
+export type SceneChange =
+  | { type: 'added'; scene_id: string; index: number; scene: SceneWithId }
+  | { type: 'removed'; scene_id: string; index: number; scene: SceneWithId }
+  | { type: 'moved'; scene_id: string; from: number; to: number }
+  | { type: 'edited'; scene_id: string; index: number; fields: Record<string, { before: unknown; after: unknown }> };
+
+export interface StoryboardRevisionRow {
+  id: string;
+  video_id: string;
+  version: number;
+  action: RevisionAction;
+  author: string | null;
+  storyboard_json: unknown;
+  image_urls: string[] | null;
+  changes: SceneChange[];
+  restored_from: number | null;
+  created_at: string;
+}
+
+// History listings leave the snapshots out
+export type RevisionSummary = Omit<StoryboardRevisionRow, 'storyboard_json' | 'image_urls'>;
+
+const SUMMARY_COLUMNS = 'id, video_id, version, action, author, changes, restored_from, created_at';
+
+// The editor's user id as sent by the client, if any
+export function revisionAuthor(body: unknown): string | null {
+  const author = (body as { author?: unknown } | null)?.author;
+  return typeof author === 'string' && author.trim() ? author.trim().slice(0, 200) : null;
+}
+
+function scenesOf(storyboard: unknown): SceneWithId[] {
+  const scenes = (storyboard as { scenes?: unknown } | null)?.scenes;
+  return Array.isArray(scenes) ? withSceneIds(scenes) : [];
+}
+
+// Ids in the longest run both orders share; the other common scenes count as moved
+function keptInOrder(before: string[], after: string[]): Set<string> {
+  const lcs = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lcs.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const kept = new Set<string>();
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (before[i] === after[j]) { kept.add(before[i]); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) i++;
+    else j++;
+  }
+  return kept;
+}
+
+function changedFields(before: SceneWithId, after: SceneWithId): Record<string, { before: unknown; after: unknown }> {
+  const fields: Record<string, { before: unknown; after: unknown }> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (key === 'id' || JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+    fields[key] = { before: before[key] ?? null, after: after[key] ?? null };
+  }
+  return fields;
+}
+
+/** Scene-level changes from one storyboard to another, matched by scene id. */
+export function diffStoryboards(before: unknown, after: unknown): SceneChange[] {
+  const prev = scenesOf(before);
+  const next = scenesOf(after);
+  const prevIndex = new Map(prev.map((scene, i) => [scene.id, i]));
+  const nextIds = new Set(next.map(scene => scene.id));
+
+  const changes: SceneChange[] = prev
+    .map((scene, index): SceneChange | null => nextIds.has(scene.id) ? null : { type: 'removed', scene_id: scene.id, index, scene })
+    .filter((change): change is SceneChange => change !== null);
+
+  const kept = keptInOrder(prev.map(s => s.id).filter(id => nextIds.has(id)), next.map(s => s.id).filter(id => prevIndex.has(id)));
+  next.forEach((scene, index) => {
+    const from = prevIndex.get(scene.id);
+    if (from === undefined) {
+      changes.push({ type: 'added', scene_id: scene.id, index, scene });
+      return;
+    }
+    if (!kept.has(scene.id)) changes.push({ type: 'moved', scene_id: scene.id, from, to: index });
+    const fields = changedFields(prev[from], scene);
+    if (Object.keys(fields).length) changes.push({ type: 'edited', scene_id: scene.id, index, fields });
+  });
+  return changes;
+}
+
+/**
+ * Versions that undo and redo would bring back, given the history oldest
+ * first. Undo steps back from the version on screen (for an undo or redo
+ * revision, the one it restored); redo steps forward again, up to the last
+ * revision that wasn't an undo or redo. Any other edit clears redo.
+ */
+export function historySteps(revisions: Pick<RevisionSummary, 'version' | 'action' | 'restored_from'>[]): Record<HistoryStep, number | null> {
+  const head = revisions[revisions.length - 1];
+  if (!head) return { undo: null, redo: null };
+
+  const isStep = (r: Pick<RevisionSummary, 'action'>) => r.action === 'undo' || r.action === 'redo';
+  const current = isStep(head) && head.restored_from != null ? head.restored_from : head.version;
+  const top = [...revisions].reverse().find(r => !isStep(r))?.version ?? current;
+  const versions = revisions.map(r => r.version).filter(v => v <= top);
+
+  return {
+    undo: versions.filter(v => v < current).pop() ?? null,
+    redo: isStep(head) ? versions.find(v => v > current) ?? null : null,
+  };
+}
+
+type RestoringVideo = {
+  storyboard_json?: unknown;
+  image_urls?: string[] | null;
+  dirty_scenes?: number[] | null;
+  audio_url?: string | null;
+};
+
+/**
+ * The storyboard and asset columns that bring `revision` back. Scenes still on
+ * the storyboard keep their current image unless their image prompt differs
+ * (the image path is per scene, so the old image is gone); scenes deleted
+ * since come back with the image they had then.
+ */
+export function restoredStoryboard(video: RestoringVideo, revision: Pick<StoryboardRevisionRow, 'storyboard_json' | 'image_urls'>): { storyboard_json: Record<string, unknown> } & SceneLayout {
+  const current = scenesOf(video.storyboard_json);
+  const scenes = scenesOf(revision.storyboard_json);
+  const currentById = new Map(current.map(scene => [scene.id, scene]));
+  const currentUrls = Array.isArray(video.image_urls) ? video.image_urls : [];
+  const revisionUrls = Array.isArray(revision.image_urls) ? revision.image_urls : [];
+
+  const returning = scenes.flatMap((scene, i) => currentById.has(scene.id) ? [] : [{ scene, imageUrl: revisionUrls[i] || '' }]);
+  const urls = [...current.map((_, i) => currentUrls[i] || ''), ...returning.map(r => r.imageUrl)];
+  const source = {
+    image_urls: urls.some(Boolean) ? urls : [],
+    dirty_scenes: video.dirty_scenes ?? [],
+    audio_url: video.audio_url,
+  };
+  const promptChanged = scenes.filter(scene => {
+    const now = currentById.get(scene.id);
+    return now && now.image_prompt !== scene.image_prompt;
+  }).map(scene => scene.id);
+
+  const base = revision.storyboard_json && typeof revision.storyboard_json === 'object' ? revision.storyboard_json as Record<string, unknown> : {};
+  return {
+    storyboard_json: { ...base, scenes },
+    ...layoutSceneAssets(source, [...current, ...returning.map(r => r.scene)], scenes, promptChanged),
+  };
+}
+
+export async function recordRevision(
+  db: SupabaseClient,
+  revision: Omit<StoryboardRevisionRow, 'id' | 'created_at' | 'restored_from'> & { restored_from?: number | null }
+): Promise<void> {
+  const { error } = await db.from('storyboard_revisions').insert([{ restored_from: null, ...revision }]);
+  if (error) throw new Error(error.message);
+}
+
+export async function listRevisions(db: SupabaseClient, videoId: string): Promise<RevisionSummary[]> {
+  const { data, error } = await db
+    .from('storyboard_revisions')
+    .select(SUMMARY_COLUMNS)
+    .eq('video_id', videoId)
+    .order('version', { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as RevisionSummary[];
+}
+
+export async function getRevision(db: SupabaseClient, videoId: string, version: number): Promise<StoryboardRevisionRow | null> {
+  const { data, error } = await db
+    .from('storyboard_revisions')
+    .select('*')
+    .eq('video_id', videoId)
+    .eq('version', version)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as StoryboardRevisionRow | null;
+}
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { layoutSceneAssets, splitImagePrompts, splitSceneText, withSceneIds, type SceneWithId } from './storyboard-scenes';
+
+const scenes = (...ids: string[]): SceneWithId[] => ids.map(id => ({ id }));
+
+test('withSceneIds keeps ids and replaces missing and repeated ones', () => {
+  const [a, b, c] = withSceneIds([{ id: 'a' }, { text: 'legacy' }, { id: 'a' }]);
+  assert.equal(a.id, 'a');
+  assert.match(b.id, /^scn_/);
+  assert.notEqual(c.id, 'a');
+  assert.equal(b.text, 'legacy');
+});
+
+test('reorder moves each image and dirty flag with its scene', () => {
+  const video = { image_urls: ['a.jpg', 'b.jpg', 'c.jpg'], dirty_scenes: [1], audio_url: 'voice.mp3' };
+  const layout = layoutSceneAssets(video, scenes('a', 'b', 'c'), scenes('c', 'a', 'b'));
+  assert.deepEqual(layout.image_urls, ['c.jpg', 'a.jpg', 'b.jpg']);
+  assert.deepEqual(layout.dirty_scenes, [2]);
+  // The voiceover was read in the old order
+  assert.equal(layout.audio_url, null);
+  assert.equal(layout.captions_url, null);
+});
+
+test('merge drops the second scene and keeps the first one clean', () => {
+  const video = { image_urls: ['a.jpg', 'b.jpg', 'c.jpg'], dirty_scenes: [], audio_url: 'voice.mp3' };
+  const layout = layoutSceneAssets(video, scenes('a', 'b', 'c'), scenes('a', 'c'));
+  assert.deepEqual(layout.image_urls, ['a.jpg', 'c.jpg']);
+  assert.deepEqual(layout.dirty_scenes, []);
+  assert.equal(layout.audio_url, null);
+});
+
+test('new scenes, scenes without an image and dirtyIds are marked dirty', () => {
+  const video = { image_urls: ['a.jpg', '', 'c.jpg'], dirty_scenes: [] };
+  const layout = layoutSceneAssets(video, scenes('a', 'b', 'c'), scenes('a', 'new', 'b', 'c'), ['c']);
+  assert.deepEqual(layout.image_urls, ['a.jpg', '', '', 'c.jpg']);
+  assert.deepEqual(layout.dirty_scenes, [1, 2, 3]);
+});
+
+test('an unchanged order keeps the voiceover', () => {
+  const video = { image_urls: ['a.jpg', 'b.jpg'], audio_url: 'voice.mp3' };
+  const layout = layoutSceneAssets(video, scenes('a', 'b'), scenes('a', 'b'), ['b']);
+  assert.equal('audio_url' in layout, false);
+  assert.deepEqual(layout.dirty_scenes, [1]);
+});
+
+test('before the first asset pass there are no images to lay out', () => {
+  const layout = layoutSceneAssets({ image_urls: null }, scenes('a', 'b'), scenes('b', 'a'));
+  assert.deepEqual(layout.image_urls, []);
+  assert.deepEqual(layout.dirty_scenes, []);
+});
+
+test('splitSceneText breaks at the sentence nearest the middle, else mid-sentence', () => {
+  assert.deepEqual(splitSceneText('One. Two words here. Three.'), ['One. Two words here.', 'Three.']);
+  assert.deepEqual(splitSceneText('a quiet morning sky'), ['a quiet', 'morning sky']);
+  assert.equal(splitSceneText('single'), null);
+});
+
+test('splitImagePrompts leads each prompt with its half', () => {
+  assert.deepEqual(splitImagePrompts('watercolor, soft light', ['A fox wakes', 'It runs.']), [
+    'A fox wakes. watercolor, soft light',
+    'It runs. watercolor, soft light',
+  ]);
+  assert.deepEqual(splitImagePrompts('  ', ['a', 'b']), ['a', 'b']);
+});
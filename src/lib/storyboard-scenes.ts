@@ -0,0 +1,137 @@
+/**
+ * Stable scene IDs. Every storyboard scene carries an `id` that survives
+ * reorders, inserts and deletes. Per-scene assets are matched to scenes by
+ * that id rather than by array position, so `image_urls` and `dirty_scenes`
+ * (which stay index-aligned for the renderer and the UI) are rebuilt from it
+ * whenever the scene list changes shape.
+ */
+
+export type SceneWithId = Record<string, unknown> & { id: string };
+
+type SceneLayoutVideo = {
+  image_urls?: string[] | null;
+  dirty_scenes?: number[] | null;
+  audio_url?: string | null;
+};
+
+export interface SceneLayout {
+  image_urls: string[];
+  dirty_scenes: number[];
+  // Voiceover and captions follow the scene order; null them when it changed
+  audio_url?: null;
+  captions_url?: null;
+}
+
+export function newSceneId(): string {
+  return `scn_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
+}
+
+function sceneIdOf(scene: unknown): string | null {
+  const id = (scene as { id?: unknown } | null)?.id;
+  return typeof id === 'string' && id ? id : null;
+}
+
+/**
+ * The scenes with an id each. Existing ids are kept; scenes from before ids
+ * existed, and copies that share another scene's id, get a fresh one.
+ */
+export function withSceneIds(scenes: unknown[]): SceneWithId[] {
+  const seen = new Set<string>();
+  return scenes.map(scene => {
+    const base = scene && typeof scene === 'object' ? scene as Record<string, unknown> : {};
+    let id = sceneIdOf(base);
+    if (!id || seen.has(id)) id = newSceneId();
+    seen.add(id);
+    return { ...base, id };
+  });
+}
+
+// Position of a scene given either its id or (legacy clients) its index
+export function findSceneIndex(scenes: SceneWithId[], ref: { scene_id?: unknown; index?: unknown }): number {
+  if (typeof ref.scene_id === 'string') return scenes.findIndex(s => s.id === ref.scene_id);
+  if (typeof ref.index === 'number' && Number.isInteger(ref.index) && ref.index >= 0 && ref.index < scenes.length) return ref.index;
+  return -1;
+}
+
+/**
+ * Asset columns for `nextScenes`, given the scenes they were laid out for
+ * (`prevScenes`, same ids). Each scene keeps its own image and dirty flag
+ * whatever its new position; scenes without an image yet, and those in
+ * `dirtyIds` (content changed), are marked dirty so asset generation redoes them.
+ */
+export function layoutSceneAssets(video: SceneLayoutVideo, prevScenes: SceneWithId[], nextScenes: SceneWithId[], dirtyIds: string[] = []): SceneLayout {
+  const urls = Array.isArray(video.image_urls) ? video.image_urls : [];
+  const dirty = new Set(Array.isArray(video.dirty_scenes) ? video.dirty_scenes : []);
+  const assets = new Map(prevScenes.map((scene, i) => [scene.id, { imageUrl: urls[i] || '', dirty: dirty.has(i) }]));
+
+  const layout: SceneLayout = { image_urls: [], dirty_scenes: [] };
+  nextScenes.forEach((scene, i) => {
+    const asset = assets.get(scene.id);
+    layout.image_urls.push(asset?.imageUrl ?? '');
+    if (!asset || asset.dirty || dirtyIds.includes(scene.id) || (urls.length && !asset.imageUrl)) layout.dirty_scenes.push(i);
+  });
+  // Before the first asset pass there are no images to keep aligned
+  if (!urls.length) layout.image_urls = [];
+
+  const narratedOrderChanged = prevScenes.length !== nextScenes.length || prevScenes.some((s, i) => s.id !== nextScenes[i].id);
+  if (video.audio_url && narratedOrderChanged) {
+    layout.audio_url = null;
+    layout.captions_url = null;
+  }
+  return layout;
+}
+
+// Per-scene narration clip and timings; stale once a scene's text is split, merged or copied
+const NARRATION_FIELDS = ['audio_url', 'startTime', 'endTime', 'words'];
+
+export function withoutNarration(scene: SceneWithId): SceneWithId {
+  const copy: SceneWithId = { ...scene };
+  for (const field of NARRATION_FIELDS) delete copy[field];
+  return copy;
+}
+
+function sentencesOf(text: string): string[] {
+  return text.replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s+/).filter(Boolean);
+}
+
+/**
+ * Two halves of a scene's text: at the sentence break nearest the middle, or
+ * mid-way through the words for a single sentence. Null when there is only one word.
+ */
+export function splitSceneText(text: string): [string, string] | null {
+  const sentences = sentencesOf(text);
+  const units = sentences.length > 1 ? sentences : text.trim().split(/\s+/).filter(Boolean);
+  if (units.length < 2) return null;
+
+  // Break where the first half's length comes closest to half the total
+  const total = units.join(' ').length;
+  let best = 1;
+  let bestGap = Infinity;
+  let firstHalf = -1;
+  for (let i = 1; i < units.length; i++) {
+    firstHalf += units[i - 1].length + 1;
+    const gap = Math.abs(firstHalf - total / 2);
+    if (gap < bestGap) [best, bestGap] = [i, gap];
+  }
+  return [units.slice(0, best).join(' '), units.slice(best).join(' ')];
+}
+
+/**
+ * Image prompts for the two halves of a split scene: each half's text leads,
+ * followed by the original prompt for the style, setting and detail it carries.
+ */
+export function splitImagePrompts(imagePrompt: string, halves: [string, string]): [string, string] {
+  const prompt = imagePrompt.trim();
+  if (!prompt) return halves;
+  const [first, second] = halves.map(half => {
+    const text = half.trim();
+    return `${/[.!?]$/.test(text) ? text : `${text}.`} ${prompt}`;
+  });
+  return [first, second];
+}
+
+// Storage path of a scene's image; keyed by scene id so a moved scene never shares a file
+export function sceneImagePath(videoId: string, scene: unknown, index: number): string {
+  const id = sceneIdOf(scene);
+  return `videos/${videoId}/images/${id ?? `scene-${index + 1}`}.jpg`;
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeStoryboard, parseStoryboard } from './storyboard-schema';
+
+test('legacy field names, numeric strings and JSON strings are migrated', () => {
+  const storyboard = normalizeStoryboard(JSON.stringify({
+    totalDuration: '12',
+    scenes: [{ id: 's1', text: ' A fox wakes. ', prompt: 'fox, dawn', duration: '4' }],
+  }));
+  assert.ok(storyboard);
+  assert.equal(storyboard.totalDuration, 12);
+  assert.deepEqual(storyboard.scenes[0], { id: 's1', description: 'A fox wakes.', image_prompt: 'fox, dawn', duration: 4 });
+});
+
+test('a bare scenes array gets ids; unknown transitions are dropped', () => {
+  const storyboard = normalizeStoryboard([{ description: 'a', image_prompt: 'b', transition: 'spin' }]);
+  assert.ok(storyboard);
+  assert.match(storyboard.scenes[0].id, /^scn_/);
+  assert.equal('transition' in storyboard.scenes[0], false);
+});
+
+test('input without scenes is not a storyboard', () => {
+  assert.equal(normalizeStoryboard('not json'), null);
+  assert.equal(normalizeStoryboard({ scenes: 'none' }), null);
+  assert.equal(normalizeStoryboard(null), null);
+});
+
+test('parseStoryboard lists every problem', () => {
+  const result = parseStoryboard({ scenes: [{ description: 'a' }, { image_prompt: 'b', duration: -1 }] });
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.deepEqual(result.errors, [
+    'scenes[0].image_prompt must be a non-empty string',
+    'scenes[1].description must be a non-empty string',
+    'scenes[1].duration must be a number of seconds above 0',
+  ]);
+  assert.equal(parseStoryboard({ scenes: [{ description: 'a', image_prompt: 'b' }] }).ok, true);
+});
@@ -0,0 +1,137 @@
+import type { Scene, Storyboard } from '@/types/video';
+import { normalizeSceneMotion } from './render/motion';
+import { isTransitionStyle } from './render/transitions';
+import { withSceneIds } from './storyboard-scenes';
+
+/**
+ * The one storyboard shape (`Storyboard` / `Scene` in types/video): scenes with
+ * an `id`, `description` and `image_prompt`, plus optional timing, narration,
+ * transition and motion. Older rows and model output come in other shapes
+ * (`text` for the description, `prompt` for the image prompt, numeric ids, a
+ * bare scenes array, JSON as a string), so reads go through
+ * `normalizeStoryboard` first and anything that must be well-formed through
+ * `parseStoryboard`, which also lists what is wrong.
+ */
+
+// A migrated scene that has not been validated yet
+export type LooseScene = Record<string, unknown> & Partial<Scene> & { id: string };
+
+export type StoryboardValidation =
+  | { ok: true; storyboard: Storyboard }
+  | { ok: false; errors: string[] };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function asNumber(v: unknown): unknown {
+  return typeof v === 'string' && v.trim() && Number.isFinite(Number(v)) ? Number(v) : v;
+}
+
+function migrateScene(scene: unknown): Record<string, unknown> {
+  if (!isRecord(scene)) return {};
+  const { text, prompt, ...rest } = scene;
+  const migrated: Record<string, unknown> = { ...rest };
+
+  // Legacy field names
+  if (migrated.description === undefined && text !== undefined) migrated.description = text;
+  if (migrated.image_prompt === undefined && prompt !== undefined) migrated.image_prompt = prompt;
+
+  for (const key of ['description', 'image_prompt', 'narration']) {
+    if (typeof migrated[key] === 'string') migrated[key] = (migrated[key] as string).trim();
+  }
+  for (const key of ['scene_number', 'duration', 'startTime', 'endTime']) {
+    if (migrated[key] !== undefined) migrated[key] = asNumber(migrated[key]);
+  }
+
+  // Optional extras that aren't understood are dropped rather than failed on
+  if (migrated.motion !== undefined) {
+    const motion = normalizeSceneMotion(migrated.motion);
+    if (motion) migrated.motion = motion;
+    else delete migrated.motion;
+  }
+  if (migrated.transition !== undefined && !isTransitionStyle(migrated.transition)) delete migrated.transition;
+  return migrated;
+}
+
+/**
+ * A storyboard in the canonical shape as far as it can be migrated, or null
+ * when there are no scenes to speak of. Not validated: required fields may
+ * still be missing.
+ */
+export function normalizeStoryboard(input: unknown): (Record<string, unknown> & { scenes: LooseScene[] }) | null {
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (Array.isArray(value)) value = { scenes: value };
+  if (!isRecord(value) || !Array.isArray(value.scenes)) return null;
+
+  const storyboard: Record<string, unknown> & { scenes: LooseScene[] } = {
+    ...value,
+    scenes: withSceneIds(value.scenes.map(migrateScene)) as LooseScene[],
+  };
+  if (storyboard.totalDuration !== undefined) storyboard.totalDuration = asNumber(storyboard.totalDuration);
+  return storyboard;
+}
+
+function sceneErrors(scene: LooseScene, at: string): string[] {
+  const errors: string[] = [];
+  const text = (key: string, required: boolean) => {
+    const v = scene[key];
+    if (v === undefined && !required) return;
+    if (typeof v !== 'string' || !v) errors.push(`${at}.${key} must be a non-empty string`);
+  };
+  const number = (key: string, check: (n: number) => boolean, rule: string) => {
+    const v = scene[key];
+    if (v !== undefined && (typeof v !== 'number' || !Number.isFinite(v) || !check(v))) errors.push(`${at}.${key} must be ${rule}`);
+  };
+
+  text('description', true);
+  text('image_prompt', true);
+  text('narration', false);
+  number('scene_number', n => Number.isInteger(n) && n >= 1, 'a whole number from 1');
+  number('duration', n => n > 0, 'a number of seconds above 0');
+  number('startTime', n => n >= 0, 'a number of seconds from 0');
+  number('endTime', n => n >= 0, 'a number of seconds from 0');
+  if (scene.audio_url !== undefined && scene.audio_url !== null && typeof scene.audio_url !== 'string') {
+    errors.push(`${at}.audio_url must be a URL string`);
+  }
+  if (scene.words !== undefined && !Array.isArray(scene.words)) errors.push(`${at}.words must be an array`);
+  return errors;
+}
+
+/** Checks a storyboard already in the canonical shape; every problem is listed, not just the first. */
+export function validateStoryboard(input: unknown): StoryboardValidation {
+  if (!isRecord(input)) return { ok: false, errors: ['storyboard must be a JSON object with a "scenes" array'] };
+  if (!Array.isArray(input.scenes)) return { ok: false, errors: ['"scenes" must be an array'] };
+  if (!input.scenes.length) return { ok: false, errors: ['"scenes" must have at least one scene'] };
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  input.scenes.forEach((scene: unknown, i) => {
+    const at = `scenes[${i}]`;
+    if (!isRecord(scene)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (typeof scene.id !== 'string' || !scene.id) errors.push(`${at}.id must be a non-empty string`);
+    else if (ids.has(scene.id)) errors.push(`${at}.id repeats another scene's id`);
+    else ids.add(scene.id);
+    errors.push(...sceneErrors(scene as LooseScene, at));
+  });
+  if (input.totalDuration !== undefined && (typeof input.totalDuration !== 'number' || !(input.totalDuration >= 0))) {
+    errors.push('totalDuration must be a number of seconds from 0');
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, storyboard: input as unknown as Storyboard };
+}
+
+/** Migrates legacy shapes, then validates. */
+export function parseStoryboard(input: unknown): StoryboardValidation {
+  return validateStoryboard(normalizeStoryboard(input) ?? input);
+}
@@ -0,0 +1,75 @@
+/**
+ * Optimistic concurrency for storyboard edits. Every edit names the
+ * `storyboard_version` it was made against; an edit against an older version
+ * is rejected with a 409 carrying the current storyboard, so the editor can
+ * reload or re-apply its change instead of overwriting someone else's.
+ * Edit routes check the version they were sent with `staleEditResponse` and
+ * save with `saveStoryboardEdit`.
+ */
+
+import { NextResponse } from 'next/server';
+import { VideoService } from './supabase-server';
+import type { RevisionAction } from './storyboard-revisions';
+
+type VersionedVideo = {
+  storyboard_version?: number | null;
+  storyboard_json?: unknown;
+  image_urls?: string[] | null;
+  dirty_scenes?: number[] | null;
+};
+
+// Rows from before versioning count as version 1
+export function storyboardVersionOf(video: VersionedVideo): number {
+  return video.storyboard_version || 1;
+}
+
+// The client's `storyboard_version`, or null when it is missing or not a version
+export function expectedStoryboardVersion(body: unknown): number | null {
+  const v = (body as { storyboard_version?: unknown } | null)?.storyboard_version;
+  return typeof v === 'number' && Number.isInteger(v) && v >= 1 ? v : null;
+}
+
+export function storyboardConflictError(videoId: string, fromVersion: number): Error {
+  return Object.assign(new Error(`Storyboard of ${videoId} changed since version ${fromVersion}`), { code: 'storyboard_conflict' });
+}
+
+export function isStoryboardConflict(e: unknown): boolean {
+  return (e as { code?: unknown } | null)?.code === 'storyboard_conflict';
+}
+
+// 409 body: the storyboard as it is now, for the editor to reload or merge against
+export function storyboardConflict(video: VersionedVideo) {
+  return {
+    error: 'This storyboard was changed elsewhere. Reload it or apply your change again.',
+    code: 'storyboard_conflict',
+    storyboard_version: storyboardVersionOf(video),
+    storyboard_json: video.storyboard_json ?? null,
+    image_urls: video.image_urls ?? [],
+    dirty_scenes: video.dirty_scenes ?? [],
+  };
+}
+
+// The 409 for an edit made against an older storyboard than the row's, or null when it is current
+export function staleEditResponse(video: VersionedVideo, expectedVersion: number): NextResponse | null {
+  return storyboardVersionOf(video) === expectedVersion ? null : NextResponse.json(storyboardConflict(video), { status: 409 });
+}
+
+/**
+ * Save an edit made against `video` (the row as read) as the next version,
+ * with its revision. When another edit was saved in between, returns the 409
+ * to send back, with the storyboard as it is now; other errors throw.
+ */
+export async function saveStoryboardEdit(
+  id: string,
+  video: VersionedVideo,
+  updates: Record<string, unknown>,
+  meta: { action: RevisionAction; author: string | null; restoredFrom?: number }
+): Promise<{ version: number; conflict?: undefined } | { conflict: NextResponse }> {
+  try {
+    return { version: await VideoService.updateStoryboard(id, video.storyboard_version, updates, { ...meta, before: video }) };
+  } catch (e) {
+    if (!isStoryboardConflict(e)) throw e;
+    const current = await VideoService.getById(id);
+    return { conflict: NextResponse.json(storyboardConflict(current ?? video), { status: 409 }) };
+  }
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildKaraokeAss } from './subtitle-converter';
+
+const dialogues = (ass: string) => ass.split('\n').filter(line => line.startsWith('Dialogue:'));
+
+test('\\k durations add up to the cue length without rounding drift', () => {
+  const cue = [
+    { word: 'one', start: 1.004, end: 1.333 },
+    { word: 'two', start: 1.333, end: 1.667 },
+    { word: 'three', start: 1.667, end: 2.006 },
+  ];
+  const [line] = dialogues(buildKaraokeAss([cue], 'highlight'));
+  const ks = [...line.matchAll(/\\k(\d+)/g)].map(m => Number(m[1]));
+  assert.deepEqual(ks, [33, 33, 34]);
+  assert.equal(ks.reduce((a, b) => a + b, 0), Math.round((2.006 - 1.004) * 100));
+});
+
+test('each word stays active until the next one starts', () => {
+  const cue = [
+    { word: 'a', start: 0, end: 0.2 },
+    { word: 'b', start: 0.5, end: 0.8 },
+  ];
+  const [first, second] = dialogues(buildKaraokeAss([cue], 'pop'));
+  assert.match(first, /^Dialogue: 0,0:00:00\.00,0:00:00\.50,Pop,/);
+  assert.match(second, /^Dialogue: 0,0:00:00\.50,0:00:00\.80,Pop,/);
+});
+
+test('override characters in words are escaped and empty cues skipped', () => {
+  const ass = buildKaraokeAss([[], [{ word: '{x}\\y', start: 0, end: 1 }]], 'bounce');
+  const lines = dialogues(ass);
+  assert.equal(lines.length, 1);
+  assert.ok(lines[0].endsWith('}x/y'));
+});
@@ -1,6 +1,7 @@
 /**
  * Subtitle format converter utilities
  * Converts VTT (WebVTT) format to SRT format for better FFmpeg compatibility
+ * and builds word-by-word animated ASS captions from word timings
  */
 
 export interface SubtitleEntry {
@@ -153,4 +154,94 @@ function formatAssTimestamp(seconds: number): string {
   const centiseconds = Math.floor((seconds % 1) * 100);
   
   return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
-} 
\ No newline at end of file
+} 
+export interface KaraokeAssOptions {
+  width?: number;
+  height?: number;
+  fontName?: string;
+  bold?: boolean;
+  // Bottom margin in script pixels (defaults to 12% of the height)
+  marginV?: number;
+}
+
+// ASS colours are &HAABBGGRR
+const ASS_WHITE = '&H00FFFFFF';
+const ASS_YELLOW = '&H0000FFFF';
+const ASS_BLACK = '&H00000000';
+const ASS_SHADOW = '&H80000000';
+
+// Braces and backslashes would be read as override tags
+function escapeAssText(text: string): string {
+  return text.replace(/\\/g, '/').replace(/[{}]/g, '');
+}
+
+function assStyleLine(name: string, font: string, size: number, primary: string, secondary: string, alignment: number, marginV: number, bold = true): string {
+  return `Style: ${name},${font},${size},${primary},${secondary},${ASS_BLACK},${ASS_SHADOW},${bold ? 1 : 0},0,0,0,100,100,0,0,1,4,2,${alignment},60,60,${marginV},1`;
+}
+
+/**
+ * Build an ASS script with word-by-word animated captions.
+ * @param cues - Caption cues, each a run of timed words
+ * @param style - highlight (\k karaoke fill), pop (active word recoloured and scaled)
+ *                or bounce (one word at a time with a scale bounce)
+ * @returns ASS formatted string
+ */
+export function buildKaraokeAss(
+  cues: { word: string; start: number; end: number }[][],
+  style: 'highlight' | 'pop' | 'bounce',
+  { width = 1080, height = 1920, fontName = 'Arial', bold = true, marginV = Math.round(height * 0.12) }: KaraokeAssOptions = {}
+): string {
+  const size = Math.round(height / 26);
+
+  const assHeader = `[Script Info]
+Title: StoryShort Video Subtitles
+ScriptType: v4.00+
+PlayResX: ${width}
+PlayResY: ${height}
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+YCbCr Matrix: None
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+${assStyleLine('Karaoke', fontName, size, ASS_YELLOW, ASS_WHITE, 2, marginV, bold)}
+${assStyleLine('Pop', fontName, size, ASS_WHITE, ASS_WHITE, 2, marginV, bold)}
+${assStyleLine('Bounce', fontName, Math.round(size * 1.6), ASS_WHITE, ASS_WHITE, 5, 0, bold)}
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text`;
+
+  const dialogue = (start: number, end: number, styleName: string, text: string) =>
+    `Dialogue: 0,${formatAssTimestamp(start)},${formatAssTimestamp(end)},${styleName},,0,0,0,,${text}`;
+
+  const events: string[] = [];
+  for (const cue of cues) {
+    if (!cue.length) continue;
+    const cueStart = cue[0].start;
+    const cueEnd = cue[cue.length - 1].end;
+    // Each word is "active" until the next one starts
+    const activeEnd = (i: number) => (i + 1 < cue.length ? cue[i + 1].start : cueEnd);
+
+    if (style === 'highlight') {
+      // \k durations in centiseconds, rounded on absolute times so they don't drift
+      const cs = (t: number) => Math.round((t - cueStart) * 100);
+      const text = cue.map((w, i) => `{\\k${cs(activeEnd(i)) - cs(w.start)}}${escapeAssText(w.word)}`).join(' ');
+      events.push(dialogue(cueStart, cueEnd, 'Karaoke', text));
+    } else if (style === 'pop') {
+      cue.forEach((w, i) => {
+        const text = cue.map((other, j) => j === i
+          ? `{\\c&H00FFFF&\\t(0,80,\\fscx118\\fscy118)\\t(80,160,\\fscx110\\fscy110)}${escapeAssText(other.word)}{\\r}`
+          : escapeAssText(other.word)
+        ).join(' ');
+        events.push(dialogue(w.start, activeEnd(i), 'Pop', text));
+      });
+    } else {
+      cue.forEach((w, i) => {
+        const text = `{\\fscx60\\fscy60\\t(0,90,\\fscx115\\fscy115)\\t(90,170,\\fscx100\\fscy100)}${escapeAssText(w.word)}`;
+        events.push(dialogue(w.start, activeEnd(i), 'Bounce', text));
+      });
+    }
+  }
+
+  return assHeader + '\n' + events.join('\n') + '\n';
+}
@@ -1,6 +1,12 @@
 import 'server-only';
 import { createClient } from '@supabase/supabase-js';
 import { assertEnv } from './assert-env';
+import { notifyVideoChanged } from './video-events';
+import { isIllegalTransition, transitionVideoStatus } from './video-transitions';
+import { storyboardConflictError } from './storyboard-version';
+import { diffStoryboards, recordRevision, type RevisionAction } from './storyboard-revisions';
+import { normalizeStoryboard } from './storyboard-schema';
+import type { VideoData } from '@/types/video';
 
 // Validate environment variables on module load
 assertEnv();
@@ -20,6 +26,7 @@ async function writeOrThrow(patch: Record<string, any>, videoId: string) {
     } catch {}
     throw new Error(error.message);
   }
+  notifyVideoChanged(videoId);
 }
 
 export const VideoService = {
@@ -40,26 +47,127 @@ export const VideoService = {
   },
 
   async markScript(videoId: string, script: string) {
-    await writeOrThrow(
-      { script, status: 'script_generated', script_done_at: new Date().toISOString(), error_message: null },
-      videoId
+    await this.setStatus(
+      videoId,
+      'script_generated',
+      { script, script_done_at: new Date().toISOString(), error_message: null },
+      'script generated'
     );
   },
 
   async saveStoryboard(videoId: string, storyboard: any) {
     // IMPORTANT: write JSON OBJECT, not string
-    await writeOrThrow(
-      { storyboard_json: storyboard, storyboard_done_at: new Date().toISOString(), status: 'storyboard_generated' },
-      videoId
+    await this.setStatus(
+      videoId,
+      'storyboard_generated',
+      { storyboard_json: storyboard, storyboard_done_at: new Date().toISOString() },
+      'storyboard generated'
     );
   },
 
   async markError(videoId: string, msg: string, status: string = 'storyboard_failed') {
-    await writeOrThrow({ status, error_message: msg }, videoId);
+    await this.setStatus(videoId, status, { error_message: msg }, msg);
   },
 
-  async setStatus(videoId: string, status: string, extra?: Record<string, any>) {
-    await writeOrThrow({ status, ...(extra || {}) }, videoId);
+  /**
+   * Move a video to `status` (see transitionVideoStatus); throws code `illegal_transition`
+   * for moves the transition table doesn't allow and `status_conflict` on a concurrent change.
+   */
+  async setStatus(videoId: string, status: string, extra?: Record<string, any>, reason?: string) {
+    await transitionVideoStatus(sbServer(), videoId, status, extra, reason);
+    notifyVideoChanged(videoId);
+  },
+
+  /**
+   * Write a storyboard edit made against `fromVersion` (the row's storyboard_version
+   * as read) and bump the version. Throws code `storyboard_conflict` when another
+   * edit was written in between. Returns the new version.
+   *
+   * The new version is saved to the revision history along with its scene
+   * changes from `revision.before` (the row as read).
+   */
+  async updateStoryboard(
+    videoId: string,
+    fromVersion: number | null | undefined,
+    updates: Record<string, unknown>,
+    revision: { action: RevisionAction; author: string | null; before: { storyboard_json?: unknown; image_urls?: string[] | null }; restoredFrom?: number }
+  ): Promise<number> {
+    const nextVersion = (fromVersion || 1) + 1;
+    const update = sbServer().from('videos').update({ ...updates, storyboard_version: nextVersion }).eq('id', videoId);
+    const { data, error } = await (fromVersion == null ? update.is('storyboard_version', null) : update.eq('storyboard_version', fromVersion)).select('id');
+    if (error) throw new Error(error.message);
+    if (!data?.length) throw storyboardConflictError(videoId, fromVersion || 1);
+
+    // The edit is already saved; a missing revision only leaves a gap in undo history
+    const storyboard = updates.storyboard_json ?? revision.before.storyboard_json;
+    try {
+      await recordRevision(sbServer(), {
+        video_id: videoId,
+        version: nextVersion,
+        action: revision.action,
+        author: revision.author,
+        storyboard_json: storyboard,
+        image_urls: (updates.image_urls as string[] | undefined) ?? revision.before.image_urls ?? null,
+        changes: diffStoryboards(revision.before.storyboard_json, storyboard),
+        restored_from: revision.restoredFrom ?? null,
+      });
+    } catch (err) {
+      console.warn(`Failed to save storyboard revision ${nextVersion} of ${videoId}:`, err);
+    }
+
+    notifyVideoChanged(videoId);
+    return nextVersion;
+  },
+
+  /**
+   * The row, with its storyboard saved in the normalised shape first if any
+   * scene has no id yet. Normalising assigns missing ids afresh on every read,
+   * so steps that key files or results by scene id need them saved to find the
+   * same scenes again. Not an edit: the version stays, and the write is skipped
+   * if an edit landed since the read (that edit already saved ids).
+   */
+  async getWithSceneIds(videoId: string) {
+    const video = await this.getById(videoId);
+    const raw = video?.storyboard_json ?? video?.storyboard;
+    const storyboard = normalizeStoryboard(raw);
+    const saved = video?.storyboard_json && Array.isArray(raw?.scenes) && raw.scenes.every((scene: { id?: unknown } | null, i: number) => scene?.id === storyboard?.scenes[i].id);
+    if (!video || !storyboard || saved) return video;
+
+    const version = video.storyboard_version ?? null;
+    const update = sbServer().from('videos').update({ storyboard_json: storyboard }).eq('id', videoId);
+    const { data, error } = await (version == null ? update.is('storyboard_version', null) : update.eq('storyboard_version', version)).select('id');
+    if (error) throw new Error(error.message);
+    return data?.length ? { ...video, storyboard_json: storyboard } : this.getById(videoId);
+  },
+
+  /**
+   * Write what a background step derived from the storyboard (scene images,
+   * placeholder flags, narration timings) without making it an edit: no new
+   * version, no revision. `merge` builds the update from the row as it is now,
+   * and the write only lands if no edit was saved since that read; otherwise
+   * it is merged again into the newer storyboard. `merge` returns null when the
+   * result no longer fits the storyboard, e.g. its scene was deleted, and
+   * nothing is written. Returns whether the update was written; throws code
+   * `storyboard_conflict` if edits keep landing in between.
+   */
+  async patchStoryboard(videoId: string, merge: (video: VideoData) => Record<string, unknown> | null): Promise<boolean> {
+    let version: number | null = null;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const video = await this.getById(videoId);
+      if (!video) throw new Error(`Video ${videoId} not found`);
+      const updates = merge(video);
+      if (!updates) return false;
+
+      version = video.storyboard_version ?? null;
+      const update = sbServer().from('videos').update(updates).eq('id', videoId);
+      const { data, error } = await (version == null ? update.is('storyboard_version', null) : update.eq('storyboard_version', version)).select('id');
+      if (error) throw new Error(error.message);
+      if (data?.length) {
+        notifyVideoChanged(videoId);
+        return true;
+      }
+    }
+    throw storyboardConflictError(videoId, version || 1);
   },
 
   // Backward compatibility methods
@@ -81,11 +189,24 @@ export const VideoService = {
     }
   },
 
+  /**
+   * A status in `updates` goes through setStatus after the other columns are
+   * written, so they are never dropped along with a rejected move. Illegal moves
+   * (`illegal_transition`) and concurrent status changes (`status_conflict`)
+   * throw; other write errors come back as `{ success: false }`.
+   */
   async updateVideo(videoId: string, updates: Record<string, any>) {
     try {
-      await writeOrThrow(updates, videoId);
+      if (typeof updates.status === 'string') {
+        const { status, ...rest } = updates;
+        if (Object.keys(rest).length) await writeOrThrow(rest, videoId);
+        await this.setStatus(videoId, status);
+      } else {
+        await writeOrThrow(updates, videoId);
+      }
       return { success: true, error: null };
     } catch (error) {
+      if (isIllegalTransition(error) || (error as { code?: unknown } | null)?.code === 'status_conflict') throw error;
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   },
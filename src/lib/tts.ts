@@ -1,34 +1,77 @@
-import { sbServer } from './supabase-server';
+import { sbServer, VideoService } from './supabase-server';
+import { getTtsProvider } from './providers/tts';
+import { generateSceneNarration } from './narration';
+import { parseScriptSections, toPlainNarration } from './script';
+import { storyboardConflictError, storyboardVersionOf } from './storyboard-version';
+import type { Scene } from '@/types/video';
 
-// Ensure bucket exists (idempotent)
+// Ensure bucket exists and accepts the types we upload (idempotent)
 export async function ensureBucket(name: string): Promise<void> {
   const supabase = sbServer();
+  const allowedMimeTypes = name === 'renders-audio' ? ['audio/mpeg', 'audio/wav'] : ['application/x-subrip', 'text/plain', 'application/json'];
   
   // Check if bucket exists
   const { data: buckets } = await supabase.storage.listBuckets();
-  const bucketExists = buckets?.some(b => b.name === name);
+  const bucket = buckets?.find(b => b.name === name);
   
-  if (!bucketExists) {
+  if (!bucket) {
     // Create bucket if it doesn't exist
     const { error } = await supabase.storage.createBucket(name, {
       public: true,
-      allowedMimeTypes: name === 'renders-audio' ? ['audio/mpeg', 'audio/wav'] : ['application/x-subrip', 'text/plain']
+      allowedMimeTypes
     });
     
     if (error) {
       console.warn(`[tts] Bucket creation warning (may already exist): ${error.message}`);
     }
+    return;
+  }
+
+  // Buckets created before a type was added (the captions' .words.json) would reject those uploads
+  const current = bucket.allowed_mime_types ?? [];
+  const missing = allowedMimeTypes.filter(type => !current.includes(type));
+  if (current.length && missing.length) {
+    const { error } = await supabase.storage.updateBucket(name, {
+      public: bucket.public,
+      allowedMimeTypes: [...current, ...missing],
+      fileSizeLimit: bucket.file_size_limit ?? undefined
+    });
+    if (error) {
+      console.warn(`[tts] Could not allow ${missing.join(', ')} in bucket ${name}: ${error.message}`);
+    }
   }
 }
 
 // Generate TTS and upload to Supabase
 export async function generateTTS(video: any): Promise<string> {
-  const apiKey = process.env.ELEVENLABS_API_KEY;
-  if (!apiKey) {
-    throw new Error('Missing ELEVENLABS_API_KEY environment variable');
+  // With a storyboard, narrate scene by scene so image timing follows the voiceover
+  if (video.storyboard_json?.scenes?.length) {
+    const { audioUrl, storyboard, timings } = await generateSceneNarration(video);
+
+    // Timings only fit scenes still in the narrated order with the narrated text
+    const narrated: Scene[] = video.storyboard_json.scenes;
+    const saved = await VideoService.patchStoryboard(video.id, current => {
+      const scenes = current.storyboard_json?.scenes ?? [];
+      const unchanged = scenes.length === narrated.length && scenes.every((scene, i) =>
+        scene.id === narrated[i].id && scene.description === narrated[i].description && scene.narration === narrated[i].narration
+      );
+      if (!unchanged) return null;
+      return {
+        storyboard_json: {
+          ...current.storyboard_json,
+          scenes: scenes.map((scene, i) => {
+            const { narration, audio_url, startTime, endTime, duration, words } = timings[i];
+            return { ...scene, narration, audio_url, startTime, endTime, duration, words };
+          }),
+          totalDuration: storyboard.totalDuration,
+        },
+      };
+    });
+    if (!saved) throw storyboardConflictError(video.id, storyboardVersionOf(video));
+    return audioUrl;
   }
 
-  const voiceId = process.env.ELEVENLABS_VOICE_ID || 'EFbNMe9bCQ0gsl51ZIWn';
+  const provider = getTtsProvider();
   
   // Get script text from video
   const scriptText = video.script_text || video.script || '';
@@ -36,41 +79,22 @@ export async function generateTTS(video: any): Promise<string> {
     throw new Error('No script text found for TTS generation');
   }
 
-  console.log(`[tts] Generating TTS for video ${video.id}, text length: ${scriptText.length}`);
-
-  // Generate TTS using ElevenLabs
-  const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-    method: 'POST',
-    headers: {
-      'xi-api-key': apiKey,
-      'Content-Type': 'application/json',
-      'Accept': 'audio/mpeg',
-    },
-    body: JSON.stringify({
-      text: scriptText,
-      model_id: 'eleven_multilingual_v2',
-      voice_settings: { stability: 0.4, similarity_boost: 0.75 },
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`TTS API error: ${response.status} ${errorText}`);
-  }
+  console.log(`[tts] Generating TTS via ${provider.name} for video ${video.id}, text length: ${scriptText.length}`);
 
-  const audioBuffer = await response.arrayBuffer();
+  // Speak the narration without HOOK/BODY/CTA labels so captions can align to it
+  const { buffer, contentType, ext } = await provider.synthesize(toPlainNarration(parseScriptSections(scriptText)));
   
   // Ensure bucket exists
   await ensureBucket('renders-audio');
   
   // Upload to Supabase
   const supabase = sbServer();
-  const audioPath = `videos/${video.id}/audio.mp3`;
+  const audioPath = `videos/${video.id}/audio.${ext}`;
   
   const { error: uploadError } = await supabase.storage
     .from('renders-audio')
-    .upload(audioPath, audioBuffer, { 
-      contentType: 'audio/mpeg', 
+    .upload(audioPath, buffer, { 
+      contentType, 
       upsert: true 
     });
 
@@ -0,0 +1,26 @@
+import { EventEmitter } from 'node:events';
+
+/**
+ * In-process change notifications for video rows. Writers call
+ * notifyVideoChanged after updating a row so open progress streams re-read it
+ * right away; writes made by another server instance are picked up by the
+ * streams' own periodic re-read instead.
+ */
+
+// Route modules can be instantiated more than once (dev reloads), so the emitter lives on globalThis
+const g = globalThis as typeof globalThis & { __storyshortVideoEvents?: EventEmitter };
+const emitter = g.__storyshortVideoEvents ??= new EventEmitter();
+// Every open stream adds a listener; the default warning at 10 is just noise here
+emitter.setMaxListeners(0);
+
+export function notifyVideoChanged(videoId: string) {
+  emitter.emit(videoId);
+}
+
+// Returns an unsubscribe function
+export function subscribeVideoChanges(videoId: string, onChange: () => void): () => void {
+  emitter.on(videoId, onChange);
+  return () => {
+    emitter.off(videoId, onChange);
+  };
+}
@@ -0,0 +1,88 @@
+import type { VideoStatusPayload } from '@/lib/video-status';
+
+/**
+ * Browser side of /api/progress/[videoId]/stream. Delivers the same payload as
+ * GET /api/video-status, pushed as the pipeline writes it, and falls back to
+ * polling /api/video-status when EventSource is unavailable or the stream
+ * keeps failing.
+ */
+
+// T lets pages keep their own view of the payload
+export interface VideoStatusHandlers<T = VideoStatusPayload> {
+  onStatus: (data: T) => void;
+  // Failed state or recorded error, as sent by the stream's `error` event
+  onError?: (error: { status?: string; error_message?: string | null; error?: string }) => void;
+}
+
+export interface VideoStatusSubscribeOptions {
+  // Interval for the polling fallback
+  pollMs?: number;
+}
+
+// Connection errors in a row (without a message in between) before giving up on the stream
+const MAX_STREAM_FAILURES = 3;
+
+// Returns an unsubscribe function
+export function subscribeVideoStatus<T = VideoStatusPayload>(
+  videoId: string,
+  handlers: VideoStatusHandlers<T>,
+  { pollMs = 2000 }: VideoStatusSubscribeOptions = {}
+): () => void {
+  let stopped = false;
+  let source: EventSource | null = null;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const poll = async () => {
+    if (stopped) return;
+    try {
+      const res = await fetch(`/api/video-status?id=${videoId}`, { cache: 'no-store' });
+      if (res.ok) {
+        const result = await res.json();
+        if (!stopped && result?.data) {
+          handlers.onStatus(result.data);
+          if (result.data.error_message) handlers.onError?.({ status: result.data.status, error_message: result.data.error_message });
+        }
+      }
+    } catch (e) {
+      console.warn('[video-status] Poll failed:', e);
+    }
+    if (!stopped) pollTimer = setTimeout(poll, pollMs);
+  };
+
+  const fallBackToPolling = () => {
+    source?.close();
+    source = null;
+    if (!stopped && !pollTimer) void poll();
+  };
+
+  if (typeof EventSource === 'undefined') {
+    fallBackToPolling();
+  } else {
+    let failures = 0;
+    source = new EventSource(`/api/progress/${videoId}/stream`);
+
+    source.addEventListener('status', (e) => {
+      failures = 0;
+      handlers.onStatus(JSON.parse((e as MessageEvent).data));
+    });
+    source.addEventListener('error', (e) => {
+      // The server's `error` event carries data; a bare Event is a connection failure
+      if (e instanceof MessageEvent && e.data) {
+        handlers.onError?.(JSON.parse(e.data));
+        return;
+      }
+      // EventSource reconnects by itself, but not after a non-2xx response
+      failures++;
+      if (source?.readyState === EventSource.CLOSED || failures >= MAX_STREAM_FAILURES) {
+        console.warn('[video-status] Stream unavailable, falling back to polling');
+        fallBackToPolling();
+      }
+    });
+  }
+
+  return () => {
+    stopped = true;
+    source?.close();
+    if (pollTimer) clearTimeout(pollTimer);
+  };
+}
@@ -0,0 +1,197 @@
+import { describeRenderProgress } from '@/lib/render/progress';
+import type { Scene, Storyboard } from '@/types/video';
+
+// The columns of a `videos` row the payload is built from
+type VideoStatusRow = {
+  id: string;
+  status: string;
+  input_text?: string | null;
+  script?: string | null;
+  storyboard_json?: Storyboard | null;
+  storyboard_version?: number | null;
+  dirty_scenes?: number[] | null;
+  audio_url?: string | null;
+  captions_url?: string | null;
+  image_urls?: string[] | null;
+  total_duration?: number | null;
+  final_video_url?: string | null;
+  error_message?: string | null;
+  image_upload_progress?: number | null;
+  created_at?: string;
+  updated_at?: string;
+  progress?: number | null;
+  render_progress?: number | null;
+  render_stage?: string | null;
+  render_eta_sec?: number | null;
+};
+
+/**
+ * Client-facing status payload for a video row: the `data` of
+ * GET /api/video-status and the `status` event of its SSE stream.
+ */
+export function buildVideoStatus(video: VideoStatusRow) {
+  // Check composite readiness for assets - SINGLE SOURCE OF TRUTH
+  const imageUrls = Array.isArray(video.image_urls) ? video.image_urls : [];
+  const hasImages = imageUrls.length > 0;
+  const hasAudio = !!video.audio_url;
+  const hasCaptions = !!video.captions_url;
+  const isRenderReady = hasImages && hasAudio && hasCaptions;
+
+  // Derive actual status from DB fields, not just the status field
+  let actualStatus: string = video.status;
+  let actualProgress = 0;
+  let actualStage = 'Unknown';
+
+  // Override status if it's inconsistent with actual DB state
+  if (video.status === 'assets_generated' && !isRenderReady) {
+    console.log(`[video-status] Inconsistent status detected: status=assets_generated but assets not ready. Correcting to assets_generating`);
+    actualStatus = 'assets_generating';
+  }
+
+  // Analyze placeholder usage from storyboard scenes
+  let placeholdersCount = 0;
+  const scenesWithPlaceholder: number[] = [];
+
+  if (video.storyboard_json?.scenes && Array.isArray(video.storyboard_json.scenes)) {
+    video.storyboard_json.scenes.forEach((scene: Scene & { placeholder_used?: boolean }, index) => {
+      if (scene.placeholder_used) {
+        placeholdersCount++;
+        scenesWithPlaceholder.push(index);
+      }
+    });
+  }
+
+  switch (actualStatus) {
+    case 'created':
+      actualProgress = 5;
+      actualStage = 'Writing script...';
+      break;
+    case 'pending':
+      actualProgress = 10;
+      actualStage = 'Initializing...';
+      break;
+    case 'script_generated':
+      actualProgress = 20;
+      actualStage = 'Script ready';
+      break;
+    case 'storyboard_generated':
+      actualProgress = 30;
+      actualStage = 'Storyboard ready';
+      break;
+    case 'script_approved':
+      actualProgress = 40;
+      actualStage = 'Script approved';
+      break;
+    case 'assets_generating':
+      actualProgress = 50;
+      actualStage = 'Generating assets...';
+      break;
+    case 'assets_partial':
+      actualProgress = 55;
+      actualStage = 'Partial assets ready';
+      break;
+    case 'render_ready':
+      actualProgress = 60;
+      actualStage = 'All assets ready';
+      break;
+    case 'assets_generated':
+      actualProgress = 60;
+      actualStage = 'Assets ready';
+      break;
+    case 'rendering':
+      actualProgress = 80;
+      actualStage = 'Rendering video...';
+      break;
+    case 'completed':
+      actualProgress = 100;
+      actualStage = 'Video ready!';
+      break;
+    case 'failed':
+      actualProgress = 0;
+      actualStage = 'Processing failed';
+      break;
+    case 'assets_failed':
+      actualProgress = 0;
+      actualStage = 'Asset generation failed';
+      break;
+    case 'cancelled':
+      actualProgress = 0;
+      actualStage = 'Cancelled';
+      break;
+    default:
+      actualProgress = 0;
+      actualStage = 'Unknown status';
+  }
+
+  // If assets are being generated, check image upload progress
+  if (actualStatus === 'assets_generating' && typeof video.image_upload_progress === 'number') {
+    actualProgress = 30 + (video.image_upload_progress * 0.3); // 30-60% range
+    actualStage = `Generating images... ${video.image_upload_progress}%`;
+  }
+
+  // Live render progress written by the renderer from ffmpeg output
+  if (actualStatus === 'rendering' && typeof video.progress === 'number') {
+    actualProgress = video.progress;
+    actualStage = describeRenderProgress(video.render_stage, video.render_eta_sec);
+  }
+
+  // If rendering, check if we have a final video URL
+  if (actualStatus === 'rendering' && video.final_video_url) {
+    actualProgress = 90;
+    actualStage = 'Finalizing video...';
+  }
+
+  return {
+    id: video.id,
+    status: actualStatus, // Use corrected status
+    progress: actualProgress, // Use corrected progress
+    stage: actualStage, // Use corrected stage
+    input_text: video.input_text,
+    script: video.script,
+    storyboard_json: video.storyboard_json,
+    // Storyboard edits send this back so stale ones can be rejected
+    storyboard_version: video.storyboard_version || 1,
+    dirty_scenes: video.dirty_scenes ?? [],
+    audio_url: video.audio_url,
+    captions_url: video.captions_url,
+    image_urls: video.image_urls,
+    total_duration: video.total_duration,
+    final_video_url: video.final_video_url,
+    error_message: video.error_message,
+    image_upload_progress: video.image_upload_progress,
+    created_at: video.created_at,
+    updated_at: video.updated_at,
+    // SINGLE SOURCE OF TRUTH: readiness derived from DB fields
+    ready: {
+      images: hasImages,
+      audio: hasAudio,
+      captions: hasCaptions
+    },
+    // Render progress from DB
+    render_progress: video.render_progress || 0,
+    render_stage: video.render_stage ?? null,
+    render_eta_seconds: actualStatus === 'rendering' ? video.render_eta_sec ?? null : null,
+    // Progress object for backward compatibility - derived from DB fields
+    progressDetails: {
+      imagesDone: imageUrls.length,
+      imagesTotal: video.storyboard_json?.scenes?.length || 0,
+      audioDone: hasAudio,
+      captionsDone: hasCaptions
+    },
+    // Composite readiness for backward compatibility
+    assets: {
+      images: imageUrls.length,
+      audio: hasAudio,
+      captions: hasCaptions,
+      renderReady: isRenderReady
+    },
+    // Add placeholder information for UI regeneration options
+    placeholders: {
+      count: placeholdersCount,
+      scenesWithPlaceholder: scenesWithPlaceholder,
+      hasPlaceholders: placeholdersCount > 0
+    }
+  };
+}
+
+export type VideoStatusPayload = ReturnType<typeof buildVideoStatus>;
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertTransition, canTransition, isIllegalTransition, VIDEO_STATUSES } from './video-transitions';
+
+test('the pipeline moves forward one step at a time', () => {
+  assert.ok(canTransition('created', 'script_generated'));
+  assert.ok(canTransition('script_approved', 'storyboard_generated'));
+  assert.ok(canTransition('storyboard_generated', 'assets_generating'));
+  assert.ok(canTransition('assets_generating', 'assets_generated'));
+  assert.ok(canTransition('assets_generated', 'rendering'));
+  assert.ok(canTransition('rendering', 'completed'));
+});
+
+test('steps cannot be skipped or run backwards', () => {
+  assert.equal(canTransition('created', 'rendering'), false);
+  assert.equal(canTransition('script_generated', 'completed'), false);
+  assert.equal(canTransition('completed', 'created'), false);
+  assert.equal(canTransition('assets_generating', 'rendering'), false);
+});
+
+test('failed and cancelled videos can be retried', () => {
+  assert.ok(canTransition('render_failed', 'rendering'));
+  assert.ok(canTransition('assets_failed', 'assets_generating'));
+  assert.ok(canTransition('cancelled', 'script_approved'));
+  assert.equal(canTransition('completed', 'cancelled'), false);
+});
+
+test('re-writing the current status is always allowed', () => {
+  for (const status of VIDEO_STATUSES) assert.ok(canTransition(status, status), status);
+});
+
+test('rows with no status or an unknown one can move anywhere', () => {
+  assert.ok(canTransition(null, 'rendering'));
+  assert.ok(canTransition(undefined, 'completed'));
+  assert.ok(canTransition('processing', 'assets_generated'));
+});
+
+test('illegal moves and unknown targets throw illegal_transition', () => {
+  assert.throws(() => assertTransition('created', 'completed'), (e: unknown) => isIllegalTransition(e));
+  assert.throws(() => assertTransition('created', 'finished'), (e: unknown) => isIllegalTransition(e));
+  assert.doesNotThrow(() => assertTransition('rendering', 'completed'));
+  assert.equal(isIllegalTransition(new Error('other')), false);
+});
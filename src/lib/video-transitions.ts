@@ -0,0 +1,100 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { VideoStatus } from '@/types/video';
+
+/**
+ * Legal moves between video statuses. Every status write goes through
+ * transitionVideoStatus (VideoService.setStatus in routes), which checks it
+ * against this table and records each change in video_status_transitions.
+ */
+
+// Which statuses each status may move to. Re-writing the current status is
+// not a transition and is always allowed.
+const TRANSITIONS: Record<VideoStatus, readonly VideoStatus[]> = {
+  created: ['pending', 'script_generated', 'script_approved', 'script_failed', 'cancelled'],
+  pending: ['script_generated', 'script_failed', 'cancelled'],
+  script_generated: ['script_approved', 'storyboard_generated', 'script_failed', 'storyboard_failed', 'cancelled'],
+  script_approved: ['storyboard_generated', 'storyboard_failed', 'assets_generating', 'assets_generated', 'cancelled'],
+  storyboard_generated: ['script_approved', 'assets_generating', 'assets_generated', 'assets_failed', 'cancelled'],
+  assets_generating: ['assets_generated', 'assets_failed', 'cancelled'],
+  assets_generated: ['assets_generating', 'script_approved', 'rendering', 'cancelled'],
+  // assets_generated: the render never started and the video goes back to waiting for one
+  rendering: ['completed', 'render_failed', 'assets_generated', 'cancelled'],
+  completed: ['rendering', 'assets_generating', 'script_approved'],
+  script_failed: ['pending', 'script_generated', 'cancelled'],
+  storyboard_failed: ['script_approved', 'storyboard_generated', 'cancelled'],
+  assets_failed: ['script_approved', 'assets_generating', 'assets_generated', 'cancelled'],
+  render_failed: ['rendering', 'assets_generating', 'script_approved', 'cancelled'],
+  cancelled: ['script_generated', 'script_approved', 'assets_generating', 'rendering'],
+};
+
+export const VIDEO_STATUSES = Object.keys(TRANSITIONS) as VideoStatus[];
+
+export function isVideoStatus(v: unknown): v is VideoStatus {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(TRANSITIONS, v);
+}
+
+/**
+ * Whether a video may move from `from` to `to`.
+ * Rows left in a status that is no longer part of the machine (or with no
+ * status at all) may move to any status so they can be recovered.
+ */
+export function canTransition(from: string | null | undefined, to: VideoStatus): boolean {
+  if (from === to || !isVideoStatus(from)) return true;
+  return TRANSITIONS[from].includes(to);
+}
+
+export function illegalTransitionError(from: string | null | undefined, to: string): Error {
+  return Object.assign(new Error(`Illegal status transition: ${from ?? 'none'} -> ${to}`), {
+    code: 'illegal_transition',
+    from: from ?? null,
+    to,
+  });
+}
+
+export function isIllegalTransition(e: unknown): boolean {
+  return (e as { code?: string } | null)?.code === 'illegal_transition';
+}
+
+// Throws code `illegal_transition` for unknown targets and moves the table doesn't allow
+export function assertTransition(from: string | null | undefined, to: string): asserts to is VideoStatus {
+  if (!isVideoStatus(to) || !canTransition(from, to)) throw illegalTransitionError(from, to);
+}
+
+// Append to the status history; the status is already written, so a failure here only warns
+async function recordTransition(db: SupabaseClient, videoId: string, from: string | null, to: string, reason?: string) {
+  const { error } = await db
+    .from('video_status_transitions')
+    .insert([{ video_id: videoId, from_status: from, to_status: to, reason: reason ?? null }]);
+  if (error) console.warn(`[status] Failed to record ${from ?? 'none'} -> ${to} for ${videoId}:`, error.message);
+}
+
+/**
+ * Move a video to `status`, writing `extra` in the same update, and record the transition.
+ * Takes the client so processes outside Next (the job worker) can use it too.
+ * Throws code `illegal_transition` when the move isn't allowed and code
+ * `status_conflict` when the status changed between the check and the write.
+ */
+export async function transitionVideoStatus(
+  db: SupabaseClient,
+  videoId: string,
+  status: string,
+  extra: Record<string, unknown> = {},
+  reason?: string
+): Promise<void> {
+  const { data, error } = await db.from('videos').select('status').eq('id', videoId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw Object.assign(new Error(`Video not found: ${videoId}`), { code: 'video_not_found' });
+
+  const from: string | null = data.status ?? null;
+  assertTransition(from, status);
+
+  // Only write if the status is still the one that was checked
+  const update = db.from('videos').update({ ...extra, status }).eq('id', videoId);
+  const { data: updated, error: writeError } = await (from === null ? update.is('status', null) : update.eq('status', from)).select('id');
+  if (writeError) throw new Error(writeError.message);
+  if (!updated?.length) {
+    throw Object.assign(new Error(`Status of ${videoId} changed during the update (expected ${from})`), { code: 'status_conflict' });
+  }
+
+  if (from !== status) await recordTransition(db, videoId, from, status, reason);
+}
@@ -1,6 +1,7 @@
 // Video types for StoryShort application
 
 export type VideoStatus = 
+  | 'created'
   | 'pending'
   | 'script_generated'
   | 'script_approved' 
@@ -12,7 +13,8 @@ export type VideoStatus =
   | 'script_failed'
   | 'storyboard_failed'
   | 'assets_failed'
-  | 'render_failed';
+  | 'render_failed'
+  | 'cancelled';
 
 export interface VideoProgress {
   imagesDone: number;
@@ -43,20 +45,67 @@ export interface VideoStatusResponse {
     captions: boolean;
   };
   render_progress?: number;
+  // Current render stage and its human-readable status line
+  render_stage?: string | null;
+  stage?: string;
+  render_eta_seconds?: number | null;
 }
 
+// Canonical storyboard scene; lib/storyboard-schema validates stored and LLM storyboards against it
 export interface Scene {
-  id: number;
-  text: string;
-  image_prompt?: string;
-  duration: number;
+  // Stable across reorders (`scn_…`); images are matched to scenes by it
+  id: string;
+  description: string;
+  image_prompt: string;
+  scene_number?: number;
+  duration?: number;
   startTime?: number;
   endTime?: number;
+  // Spoken text and its clip when narration is generated per scene
+  narration?: string;
+  audio_url?: string;
+  // Word timings for karaoke captions, relative to the whole voiceover
+  words?: { word: string; start: number; end: number }[];
+  // Transition into this scene; overrides the theme's transitionStyle
+  transition?: 'fade' | 'slide' | 'dissolve' | 'cut' | 'zoom';
+  // Camera move over the scene's image; unset scenes get the default rotation
+  motion?: SceneMotion;
+}
+
+export type CameraMotionType =
+  | 'zoom_in'
+  | 'zoom_out'
+  | 'pan_left'
+  | 'pan_right'
+  | 'pan_up'
+  | 'pan_down'
+  | 'static'
+  | 'focus';
+
+export interface SceneMotion {
+  type: CameraMotionType;
+  // Focal point for `focus`, as fractions of the frame (0,0 top left)
+  x?: number;
+  y?: number;
+}
+
+// Background music bed mixed under the narration at render time
+export interface BackgroundMusic {
+  source: 'library' | 'upload';
+  // Library file name, or the public URL of an uploaded file
+  track: string;
+  // Linear gain for the music (0-1)
+  volume: number;
+  fadeInSec: number;
+  fadeOutSec: number;
+  // Duck the music under the voiceover
+  ducking: boolean;
 }
 
 export interface Storyboard {
   scenes: Scene[];
-  totalDuration: number;
+  // Set once narration timings are known
+  totalDuration?: number;
 }
 
 export interface VideoData {
@@ -75,6 +124,13 @@ export interface VideoData {
   updated_at: string;
   storyboard_version?: number;
   dirty_scenes?: number[];
+  image_provider?: string | null;
+  caption_style?: string | null;
+  render_profile?: string | null;
+  // Profile the latest render used: render_profile, or the one an export asked for
+  last_render_profile?: string | null;
+  theme?: string | null;
+  background_music?: BackgroundMusic | null;
   // Legacy field for backwards compatibility
   script?: string;
 }
@@ -0,0 +1,18 @@
+-- Background music for StoryShort
+-- Track (library file or uploaded URL) plus mix settings, mixed under the narration at render time
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS background_music JSONB;
+
+COMMENT ON COLUMN public.videos.background_music IS 'Background music: {source: library|upload, track, volume, fadeInSec, fadeOutSec, ducking}; NULL renders narration only';
+
+-- Verify the migration
+SELECT 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'videos' 
+AND table_schema = 'public'
+AND column_name = 'background_music';
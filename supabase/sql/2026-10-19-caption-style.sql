@@ -0,0 +1,18 @@
+-- Caption style selection for StoryShort
+-- Word-level styles ('highlight' | 'pop' | 'bounce') burn karaoke ASS captions; 'static' keeps the SRT look
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS caption_style TEXT;
+
+COMMENT ON COLUMN public.videos.caption_style IS 'Caption style for the render (static, highlight, pop, bounce); NULL renders static subtitles';
+
+-- Verify the migration
+SELECT 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'videos' 
+AND table_schema = 'public'
+AND column_name = 'caption_style';
@@ -0,0 +1,18 @@
+-- Image provider selection for StoryShort
+-- Lets a single video override the IMAGE_PROVIDER env default ('openai' | 'local')
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS image_provider TEXT;
+
+COMMENT ON COLUMN public.videos.image_provider IS 'Image provider override for this video (openai, local); NULL uses the IMAGE_PROVIDER env default';
+
+-- Verify the migration
+SELECT 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'videos' 
+AND table_schema = 'public'
+AND column_name = 'image_provider';
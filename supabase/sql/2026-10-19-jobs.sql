@@ -0,0 +1,48 @@
+-- Durable job queue for StoryShort
+-- Asset generation and rendering run as jobs picked up by the worker (lib/job-worker)
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('generate-assets', 'render')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+-- At most one active job per video and type; enqueueJob relies on this to dedupe
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_active_per_video
+  ON public.jobs(video_id, type)
+  WHERE status IN ('queued', 'running');
+
+-- Claim query: due queued jobs and expired leases, oldest first
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at
+  ON public.jobs(status, run_at);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_video
+  ON public.jobs(video_id, created_at);
+
+COMMENT ON TABLE public.jobs IS 'Background jobs (generate-assets, render) leased by job workers';
+COMMENT ON COLUMN public.jobs.status IS 'queued -> running -> succeeded, or dead once attempts run out or the failure is permanent';
+COMMENT ON COLUMN public.jobs.lease_expires_at IS 'A running job whose lease has expired is claimed again by another worker';
+COMMENT ON COLUMN public.jobs.run_at IS 'Earliest time the job may be claimed; pushed back with exponential backoff after a failure';
+
+-- Verify the migration
+SELECT
+    column_name,
+    data_type,
+    is_nullable,
+    column_default
+FROM information_schema.columns
+WHERE table_name = 'jobs'
+AND table_schema = 'public'
+ORDER BY ordinal_position;
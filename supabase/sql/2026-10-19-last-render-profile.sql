@@ -0,0 +1,18 @@
+-- Render profile of the latest render for StoryShort
+-- A one-off export in another format records its profile here instead of changing the project's render_profile
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS last_render_profile TEXT;
+
+COMMENT ON COLUMN public.videos.last_render_profile IS 'Render profile the latest render run used (see render_profile); NULL before the first render';
+
+-- Verify the migration
+SELECT 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'videos' 
+AND table_schema = 'public'
+AND column_name = 'last_render_profile';
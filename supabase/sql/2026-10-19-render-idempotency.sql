@@ -0,0 +1,24 @@
+-- Idempotent render requests for StoryShort
+-- Identifies each render run so repeated requests reuse the run in flight
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS render_id TEXT,
+  ADD COLUMN IF NOT EXISTS render_fingerprint TEXT,
+  ADD COLUMN IF NOT EXISTS render_idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS render_heartbeat_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.videos.render_id IS 'Id of the latest render run; its temp files live in renders/<video id>/<render id>';
+COMMENT ON COLUMN public.videos.render_fingerprint IS 'Hash of the storyboard version, asset URLs and output settings the latest run renders';
+COMMENT ON COLUMN public.videos.render_idempotency_key IS 'Idempotency-Key sent with the request that started the latest run; NULL when none was sent';
+COMMENT ON COLUMN public.videos.render_heartbeat_at IS 'Refreshed while the run is alive; a rendering row without a recent heartbeat can be taken over';
+
+-- Verify the migration
+SELECT 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'videos' 
+AND table_schema = 'public'
+AND column_name IN ('render_id', 'render_fingerprint', 'render_idempotency_key', 'render_heartbeat_at');
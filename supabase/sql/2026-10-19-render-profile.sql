@@ -0,0 +1,18 @@
+-- Render profile selection for StoryShort
+-- Output aspect ratio and resolution, e.g. '9:16-1080p' (Shorts), '4:5-1080p' (feed), '16:9-720p' (YouTube)
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS render_profile TEXT;
+
+COMMENT ON COLUMN public.videos.render_profile IS 'Render profile <aspect>-<resolution> (9:16, 4:5, 1:1, 16:9 x 720p, 1080p); NULL renders 9:16-1080p';
+
+-- Verify the migration
+SELECT 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'videos' 
+AND table_schema = 'public'
+AND column_name = 'render_profile';
@@ -0,0 +1,22 @@
+-- Live render progress for StoryShort
+-- Filled from ffmpeg -progress output while a render runs
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS render_progress INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS render_stage TEXT,
+  ADD COLUMN IF NOT EXISTS render_eta_sec INTEGER;
+
+COMMENT ON COLUMN public.videos.render_progress IS 'Render completion 0-100, advanced from ffmpeg out_time against the expected duration';
+COMMENT ON COLUMN public.videos.render_stage IS 'Current render stage: download, clips, join, final, upload';
+COMMENT ON COLUMN public.videos.render_eta_sec IS 'Estimated seconds until the render finishes; NULL when unknown';
+
+-- Verify the migration
+SELECT 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'videos' 
+AND table_schema = 'public'
+AND column_name IN ('render_progress', 'render_stage', 'render_eta_sec');
@@ -0,0 +1,50 @@
+-- Video status state machine for StoryShort
+-- Aligns the status CHECK with the VideoStatus union and adds the transition history
+-- Run this in your Supabase SQL Editor
+
+-- Statuses from lib/video-transitions. NOT VALID leaves rows in retired statuses
+-- (script_started, failed, ...) alone; new writes are checked.
+ALTER TABLE public.videos DROP CONSTRAINT IF EXISTS videos_status_check;
+ALTER TABLE public.videos
+ADD CONSTRAINT videos_status_check CHECK (status IN (
+  'created',
+  'pending',
+  'script_generated',
+  'script_approved',
+  'storyboard_generated',
+  'assets_generating',
+  'assets_generated',
+  'rendering',
+  'completed',
+  'script_failed',
+  'storyboard_failed',
+  'assets_failed',
+  'render_failed',
+  'cancelled'
+)) NOT VALID;
+
+-- One row per status change, written by VideoService.setStatus
+CREATE TABLE IF NOT EXISTS public.video_status_transitions (
+  id BIGSERIAL PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_status_transitions_video
+  ON public.video_status_transitions(video_id, created_at);
+
+COMMENT ON TABLE public.video_status_transitions IS 'Status history per video: from_status -> to_status with the reason given by the writer';
+COMMENT ON COLUMN public.video_status_transitions.from_status IS 'Status before the change; NULL when the row had none';
+
+-- Verify the migration
+SELECT
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE table_name = 'video_status_transitions'
+AND table_schema = 'public'
+ORDER BY ordinal_position;
@@ -0,0 +1,45 @@
+-- Storyboard revision history for StoryShort
+-- Every storyboard mutation is saved as a revision, which backs undo/redo, diffs and restore
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.storyboard_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  action TEXT NOT NULL CHECK (action IN (
+    'baseline', 'generate', 'edit', 'reorder', 'delete', 'insert',
+    'duplicate', 'split', 'merge', 'restore', 'undo', 'redo'
+  )),
+  author TEXT,
+  storyboard_json JSONB NOT NULL,
+  image_urls TEXT[],
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  restored_from INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (video_id, version)
+);
+
+-- Storyboards edited before this migration start their history at the version they are on
+INSERT INTO public.storyboard_revisions (video_id, version, action, storyboard_json, image_urls)
+SELECT id, COALESCE(storyboard_version, 1), 'baseline', storyboard_json, image_urls
+FROM public.videos
+WHERE storyboard_json IS NOT NULL
+ON CONFLICT (video_id, version) DO NOTHING;
+
+COMMENT ON TABLE public.storyboard_revisions IS 'One row per storyboard version: a snapshot of the storyboard and the scene changes that produced it';
+COMMENT ON COLUMN public.storyboard_revisions.version IS 'The videos.storyboard_version this snapshot was written as';
+COMMENT ON COLUMN public.storyboard_revisions.author IS 'User id of the editor, as sent by the client; NULL for server-side writes';
+COMMENT ON COLUMN public.storyboard_revisions.image_urls IS 'Scene images at the time, so a restore can bring back the image of a scene deleted since';
+COMMENT ON COLUMN public.storyboard_revisions.changes IS 'Scene diff against the previous version: added, removed, moved and edited scenes';
+COMMENT ON COLUMN public.storyboard_revisions.restored_from IS 'For restore, undo and redo: the version whose storyboard was brought back';
+
+-- Verify the migration
+SELECT
+    column_name,
+    data_type,
+    is_nullable,
+    column_default
+FROM information_schema.columns
+WHERE table_name = 'storyboard_revisions'
+AND table_schema = 'public'
+ORDER BY ordinal_position;
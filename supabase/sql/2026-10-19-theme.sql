@@ -0,0 +1,18 @@
+-- Theme selection for StoryShort
+-- Persists the wizard theme so the renderer can apply its transitionStyle
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS theme TEXT;
+
+COMMENT ON COLUMN public.videos.theme IS 'Theme id from lib/themes (cinematic, illustrated, vintage, modern, storybook); NULL renders with hard cuts';
+
+-- Verify the migration
+SELECT 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'videos' 
+AND table_schema = 'public'
+AND column_name = 'theme';